@@ -0,0 +1,62 @@
+import { test as base, type BrowserContext, type Route } from "@playwright/test";
+import { getResponse } from "msw";
+import { createSupabaseAuthServer, type SupabaseAuthServer } from "../src/test/supabase-auth-server";
+import { SUPABASE_URL } from "./hosts";
+
+/** =========================
+ * Supabase de mentira no navegador
+ *
+ * Cada teste ganha um `backend` novo (os mesmos handlers do Vitest) e o contexto
+ * do navegador repassa para ele tudo que vai para SUPABASE_URL, inclusive a
+ * navegação para o /authorize do OAuth. O CORS fica por conta daqui: o
+ * Chromium confere os cabeçalhos mesmo com a resposta montada pelo Playwright.
+ * ========================= */
+
+function corsHeaders(origin: string | undefined): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": origin ?? "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, x-supabase-api-version, apikey, content-type",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Expose-Headers": "x-supabase-api-version",
+    Vary: "Origin",
+  };
+}
+
+async function answer(route: Route, backend: SupabaseAuthServer) {
+  const req = route.request();
+  const headers = await req.allHeaders();
+  const cors = corsHeaders(headers.origin);
+
+  if (req.method() === "OPTIONS") return route.fulfill({ status: 204, headers: cors });
+
+  const body = req.postDataBuffer();
+  const request = new Request(req.url(), {
+    method: req.method(),
+    headers,
+    body: body && req.method() !== "GET" && req.method() !== "HEAD" ? new Uint8Array(body) : undefined,
+  });
+  const response = await getResponse(backend.handlers, request);
+  if (!response) {
+    return route.fulfill({ status: 501, headers: cors, body: `sem handler para ${req.method()} ${req.url()}` });
+  }
+
+  return route.fulfill({
+    status: response.status,
+    headers: { ...Object.fromEntries(response.headers), ...cors },
+    body: Buffer.from(await response.arrayBuffer()),
+  });
+}
+
+async function routeSupabase(context: BrowserContext, backend: SupabaseAuthServer) {
+  await context.route(`${SUPABASE_URL}/**`, (route) => answer(route, backend));
+}
+
+export const test = base.extend<{ backend: SupabaseAuthServer }>({
+  backend: async ({ context }, provide) => {
+    const backend = createSupabaseAuthServer({ url: SUPABASE_URL });
+    await routeSupabase(context, backend);
+    await provide(backend);
+  },
+});
+
+export { expect } from "@playwright/test";
@@ -0,0 +1,30 @@
+/** =========================
+ * Endereços do e2e
+ *
+ * Os dois servidores do Vite escutam em 127.0.0.1; o Chromium sobe com
+ * --host-resolver-rules (ver playwright.config.ts) e enxerga cada um num
+ * subdomínio de verdade de flowodonto.com.br. Assim o returnTo passa pela regra
+ * "*.flowodonto.com.br" da allowlist, não pela de localhost.
+ *
+ * O Supabase não existe: o host nunca é resolvido, o Playwright responde tudo
+ * com os handlers de src/test/supabase-auth-server.ts (ver fixtures.ts).
+ * ========================= */
+
+export const PORTAL_PORT = 5173;
+export const APP_PORT = 4300;
+
+export const PORTAL_ORIGIN = `http://auth.flowodonto.com.br:${PORTAL_PORT}`;
+/** O "app" que usa o portal para entrar (e2e/relying-app) */
+export const APP_ORIGIN = `http://app.flowodonto.com.br:${APP_PORT}`;
+export const APP_LOGOUT_FRAME = `${APP_ORIGIN}/auth/logout-frame`;
+
+export const SUPABASE_URL = "http://supabase.flowodonto.test";
+export const SUPABASE_ANON_KEY = "e2e-anon-key";
+
+export const HOST_RESOLVER_RULES = "MAP *.flowodonto.com.br 127.0.0.1";
+
+/** Mesma regra de subdomínio da produção; http e a porta do app porque aqui não tem TLS */
+export const RETURN_TO_ALLOWLIST = {
+  fallback: `${APP_ORIGIN}/`,
+  allow: [{ host: "*.flowodonto.com.br", schemes: ["http"], ports: [APP_PORT] }],
+};
@@ -0,0 +1,106 @@
+import {
+  completePortalLogin,
+  handleFrontChannelLogout,
+  portalLogoutUrl,
+  startPortalLogin,
+  type PortalSession,
+} from "@/lib/handoff-client";
+
+/** =========================
+ * App de mentira em outra origem (app.flowodonto.com.br no e2e)
+ *
+ * Faz o que um app de verdade faz com o portal, só com o handoff-client:
+ * manda para o login, troca o ?code= pela sessão, confere a sessão no auth,
+ * sai pelo /logout do portal e atende o front-channel logout.
+ * ========================= */
+
+const SESSION_KEY = "relying-app.session";
+
+const portalUrl = import.meta.env.VITE_PORTAL_URL;
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+type StoredSession = { email: string; accessToken: string; organizationId: string | null };
+
+const root = document.getElementById("app")!;
+
+function readSession(): StoredSession | null {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+}
+
+function button(label: string, onClick: () => void) {
+  const b = document.createElement("button");
+  b.type = "button";
+  b.textContent = label;
+  b.addEventListener("click", onClick);
+  return b;
+}
+
+function text(tag: string, content: string, attrs: Record<string, string> = {}) {
+  const el = document.createElement(tag);
+  el.textContent = content;
+  for (const [k, v] of Object.entries(attrs)) el.setAttribute(k, v);
+  return el;
+}
+
+/** Sessão que veio do portal só vale se o auth aceitar o access_token */
+async function verify(session: PortalSession): Promise<StoredSession> {
+  const res = await fetch(`${supabaseUrl}/auth/v1/user`, {
+    headers: { apikey: supabaseAnonKey, Authorization: `Bearer ${session.access_token}` },
+  });
+  if (!res.ok) throw new Error(`sessão recusada pelo auth (${res.status})`);
+  const user = await res.json();
+  return { email: user.email, accessToken: session.access_token, organizationId: session.organization_id };
+}
+
+function render(error: string | null = null) {
+  root.replaceChildren();
+  root.append(text("h1", "Agenda"));
+  if (error) root.append(text("p", error, { role: "alert" }));
+
+  const session = readSession();
+  if (!session) {
+    root.append(
+      text("p", "Você não está conectado."),
+      button("Entrar", () => startPortalLogin({ portalUrl }))
+    );
+    return;
+  }
+
+  root.append(
+    text("p", `Conectado como ${session.email}`, { "data-testid": "signed-in" }),
+    button("Sair", () => window.location.assign(portalLogoutUrl({ portalUrl, returnTo: `${window.location.origin}/` }))),
+    button("Sair de todos os dispositivos", () =>
+      window.location.assign(portalLogoutUrl({ portalUrl, returnTo: `${window.location.origin}/`, allDevices: true }))
+    )
+  );
+}
+
+async function boot() {
+  if (window.location.pathname === "/auth/logout-frame") {
+    await handleFrontChannelLogout({ portalUrl, signOut: async () => localStorage.removeItem(SESSION_KEY) });
+    return;
+  }
+
+  try {
+    const session = await completePortalLogin({ supabaseUrl, supabaseAnonKey });
+    if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(await verify(session)));
+  } catch (e) {
+    render(e instanceof Error ? e.message : "Falha no login");
+    return;
+  }
+
+  // ?login=1: entra direto no portal, como o app faz quando a rota exige sessão
+  const params = new URLSearchParams(window.location.search);
+  if (!readSession() && params.get("login") === "1") {
+    await startPortalLogin({ portalUrl, returnTo: `${window.location.origin}/` });
+    return;
+  }
+  render();
+}
+
+void boot();
@@ -0,0 +1,15 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// App de teste do e2e: só o handoff-client do portal, sem React
+export default defineConfig({
+  root: __dirname,
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "../../src"),
+    },
+  },
+  server: {
+    allowedHosts: [".flowodonto.com.br"],
+  },
+});
@@ -0,0 +1,73 @@
+import { defineConfig, devices } from "@playwright/test";
+import {
+  APP_LOGOUT_FRAME,
+  APP_PORT,
+  HOST_RESOLVER_RULES,
+  PORTAL_ORIGIN,
+  PORTAL_PORT,
+  RETURN_TO_ALLOWLIST,
+  SUPABASE_ANON_KEY,
+  SUPABASE_URL,
+} from "./e2e/hosts";
+
+/** =========================
+ * e2e (Playwright): portal + app de teste em dois subdomínios, auth de mentira
+ *
+ *   npx playwright install chromium   (uma vez)
+ *   npm run test:e2e
+ *
+ * Sobe dois servidores do Vite (portal e e2e/relying-app) e um Chromium que
+ * resolve *.flowodonto.com.br para 127.0.0.1. Ver e2e/hosts.ts.
+ * ========================= */
+
+const supabaseEnv = {
+  VITE_SUPABASE_URL: SUPABASE_URL,
+  VITE_SUPABASE_ANON_KEY: SUPABASE_ANON_KEY,
+};
+
+export default defineConfig({
+  testDir: "./e2e",
+  // um backend por teste, mas os dois servidores são compartilhados
+  workers: 1,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? "github" : "list",
+  use: {
+    baseURL: PORTAL_ORIGIN,
+    locale: "pt-BR",
+    trace: "retain-on-failure",
+  },
+  projects: [
+    {
+      name: "chromium",
+      use: {
+        ...devices["Desktop Chrome"],
+        launchOptions: { args: [`--host-resolver-rules=${HOST_RESOLVER_RULES}`] },
+      },
+    },
+  ],
+  webServer: [
+    {
+      command: `npx vite --port ${PORTAL_PORT} --strictPort`,
+      url: `http://localhost:${PORTAL_PORT}/`,
+      reuseExistingServer: !process.env.CI,
+      env: {
+        ...supabaseEnv,
+        VITE_APP_ENV: "development",
+        VITE_RETURN_TO_ALLOWLIST: JSON.stringify(RETURN_TO_ALLOWLIST),
+        VITE_FRONT_CHANNEL_LOGOUT_URLS: APP_LOGOUT_FRAME,
+        VITE_OAUTH_PROVIDERS: JSON.stringify([{ id: "google", label: "Google", enabled: true }]),
+        VITE_AUDIT_SINK: "off",
+        VITE_PWNED_RANGE_URL: "off",
+        VITE_CAPTCHA_PROVIDER: "",
+        VITE_MFA_REQUIRED_ROLES: "",
+      },
+    },
+    {
+      command: `npx vite --config e2e/relying-app/vite.config.ts --port ${APP_PORT} --strictPort`,
+      url: `http://localhost:${APP_PORT}/`,
+      reuseExistingServer: !process.env.CI,
+      env: { ...supabaseEnv, VITE_PORTAL_URL: PORTAL_ORIGIN },
+    },
+  ],
+});
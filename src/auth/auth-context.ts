@@ -0,0 +1,10 @@
+import { createContext, useContext } from "react";
+import type { AuthService } from "@/auth/types";
+
+export const AuthServiceContext = createContext<AuthService | null>(null);
+
+export function useAuthService() {
+  const ctx = useContext(AuthServiceContext);
+  if (!ctx) throw new Error("useAuthService precisa estar dentro de <AuthServiceContext.Provider>");
+  return ctx;
+}
@@ -0,0 +1,208 @@
+import type { AuthError } from "@/auth/types";
+import type { MessageKey, MessageValues } from "@/i18n/i18n";
+
+/** =========================
+ * Catálogo de erros de auth (código -> chave de mensagem amigável)
+ *
+ * Nunca mostrar `error.message` do backend: vem em inglês e às vezes expõe
+ * detalhe interno. Código desconhecido cai no fallback da tela e é logado
+ * para entrar no catálogo depois.
+ * ========================= */
+
+export type AuthErrorAction = {
+  label: MessageKey;
+  /** Rota do portal (returnTo é preservado pelo router) */
+  to: string;
+  params?: Record<string, string>;
+};
+
+/** Só chaves do catálogo de mensagens: o texto é resolvido na hora de renderizar (FormError) */
+export type AuthErrorDescription = {
+  message: MessageKey;
+  values?: MessageValues;
+  hint?: MessageKey;
+  action?: AuthErrorAction;
+};
+
+export type AuthErrorContext = {
+  email?: string;
+  /** Em "otp", otp_expired significa código errado/expirado, não link */
+  flow?: "otp";
+};
+
+type CatalogEntry = AuthErrorDescription | ((ctx: AuthErrorContext) => AuthErrorDescription);
+
+const RATE_LIMITED: AuthErrorDescription = {
+  message: "error.rateLimited",
+  hint: "error.rateLimited.hint",
+};
+
+const NETWORK: AuthErrorDescription = {
+  message: "error.network",
+  hint: "error.network.hint",
+};
+
+const EXPIRED_LINK: AuthErrorDescription = {
+  message: "error.expiredLink",
+  hint: "error.expiredLink.hint",
+  action: { label: "error.action.requestNewLink", to: "/recuperar-senha" },
+};
+
+const USER_EXISTS: AuthErrorDescription = {
+  message: "error.userExists",
+  hint: "error.userExists.hint",
+  action: { label: "error.action.goToLogin", to: "/" },
+};
+
+const PROVIDER_DISABLED: AuthErrorDescription = {
+  message: "error.providerDisabled",
+  hint: "error.providerDisabled.hint",
+};
+
+const CATALOG: Record<string, CatalogEntry> = {
+  invalid_credentials: {
+    message: "error.invalidCredentials",
+    hint: "error.invalidCredentials.hint",
+    action: { label: "error.action.forgotPassword", to: "/recuperar-senha" },
+  },
+  email_not_confirmed: ({ email }) => ({
+    message: "error.emailNotConfirmed",
+    hint: "error.emailNotConfirmed.hint",
+    action: { label: "error.action.seeInstructions", to: "/check-email", params: email ? { email } : undefined },
+  }),
+  user_already_exists: USER_EXISTS,
+  email_exists: USER_EXISTS,
+  weak_password: {
+    message: "error.weakPassword",
+    hint: "error.weakPassword.hint",
+  },
+  same_password: {
+    message: "error.samePassword",
+  },
+  over_request_rate_limit: RATE_LIMITED,
+  over_email_send_rate_limit: {
+    message: "error.emailRateLimited",
+    hint: "error.emailRateLimited.hint",
+  },
+  otp_expired: ({ flow }) =>
+    flow === "otp" ? { message: "error.invalidCode", hint: "error.invalidCode.hint" } : EXPIRED_LINK,
+  otp_disabled: {
+    message: "error.accountNotFound",
+    hint: "error.accountNotFound.hint",
+    action: { label: "error.action.signUp", to: "/cadastro" },
+  },
+  flow_state_expired: EXPIRED_LINK,
+  flow_state_not_found: EXPIRED_LINK,
+  session_not_found: {
+    message: "error.recoverySessionMissing",
+    hint: "error.recoverySessionMissing.hint",
+    action: { label: "error.action.requestNewLink", to: "/recuperar-senha" },
+  },
+  session_expired: {
+    message: "error.sessionExpired",
+    hint: "error.sessionExpired.hint",
+    action: { label: "error.action.goToLogin", to: "/" },
+  },
+  network_error: NETWORK,
+  timeout: NETWORK,
+  request_timeout: NETWORK,
+  signup_disabled: {
+    message: "error.signupDisabled",
+    hint: "error.contactSupport.hint",
+  },
+  provider_disabled: PROVIDER_DISABLED,
+  oauth_provider_not_supported: PROVIDER_DISABLED,
+  user_banned: {
+    message: "error.userBanned",
+    hint: "error.contactSupport.hint",
+  },
+  captcha_failed: {
+    message: "error.captchaFailed",
+    hint: "error.captchaFailed.hint",
+  },
+  email_address_invalid: {
+    message: "error.emailAddressInvalid",
+    hint: "error.emailAddressInvalid.hint",
+  },
+  mfa_verification_failed: {
+    message: "error.mfaInvalidCode",
+    hint: "error.mfaInvalidCode.hint",
+  },
+  mfa_challenge_expired: {
+    message: "error.mfaInvalidCode",
+    hint: "error.mfaInvalidCode.hint",
+  },
+  invalid_recovery_code: {
+    message: "error.recoveryCodeInvalid",
+    hint: "error.recoveryCodeInvalid.hint",
+  },
+  mfa_totp_enroll_not_enabled: {
+    message: "error.mfaUnavailable",
+    hint: "error.contactSupport.hint",
+  },
+  mfa_totp_verify_not_enabled: {
+    message: "error.mfaUnavailable",
+    hint: "error.contactSupport.hint",
+  },
+  handoff_failed: {
+    message: "error.handoffFailed",
+    hint: "error.handoffFailed.hint",
+  },
+  invitation_not_found: {
+    message: "error.invitationNotFound",
+    hint: "error.invitationRequestNew.hint",
+  },
+  invitation_expired: {
+    message: "error.invitationExpired",
+    hint: "error.invitationRequestNew.hint",
+  },
+  invitation_already_accepted: {
+    message: "error.invitationAccepted",
+    action: { label: "error.action.goToLogin", to: "/" },
+  },
+  invitation_email_mismatch: {
+    message: "error.invitationEmailMismatch",
+    hint: "error.invitationEmailMismatch.hint",
+  },
+  invitation_already_member: {
+    message: "error.invitationAlreadyMember",
+    hint: "error.invitationAlreadyMember.hint",
+  },
+  identity_already_exists: {
+    message: "error.identityAlreadyExists",
+    hint: "error.identityAlreadyExists.hint",
+  },
+  single_identity_not_deletable: {
+    message: "error.singleIdentity",
+  },
+  identity_not_found: {
+    message: "error.identityNotFound",
+  },
+  manual_linking_disabled: {
+    message: "error.linkingUnavailable",
+    hint: "error.contactSupport.hint",
+  },
+};
+
+export function describeAuthError(
+  error: AuthError,
+  fallback: MessageKey,
+  ctx: AuthErrorContext = {}
+): AuthErrorDescription {
+  const entry = CATALOG[error.code];
+  if (entry) return typeof entry === "function" ? entry(ctx) : entry;
+
+  console.warn("[auth] código de erro sem tradução:", error.code, error.status ?? "", error.message);
+  return { message: fallback };
+}
+
+/**
+ * O GoTrue devolve erros de link (expirado, já usado) no hash do redirect:
+ * `#error=access_denied&error_code=otp_expired&error_description=...`
+ */
+export function readAuthErrorFromHash(hash: string): AuthError | null {
+  const h = new URLSearchParams(hash.replace(/^#/, ""));
+  const code = h.get("error_code") || h.get("error");
+  if (!code) return null;
+  return { code, message: h.get("error_description") ?? "" };
+}
@@ -0,0 +1,551 @@
+import {
+  fail,
+  ok,
+  type AuthEvent,
+  type AuthService,
+  type AuthSession,
+  type AuthUser,
+  type DeviceTrustService,
+  type IdentityService,
+  type LinkedIdentity,
+  type MfaService,
+  type OAuthProvider,
+  type Organization,
+  type OrganizationService,
+  type SessionLimitService,
+} from "@/auth/types";
+
+/** =========================
+ * AuthService em memória (fake para testes / desenvolvimento sem backend)
+ *
+ * Guarda usuários num Map, emite os mesmos eventos do Supabase e expõe
+ * alguns ganchos (`confirmEmail`, `simulateRecovery`, `failNext`) para os
+ * testes dirigirem os fluxos. O TOTP aceita sempre `totpCode`.
+ * ========================= */
+
+type MemoryUser = AuthUser & {
+  password: string;
+  totp: { factorId: string; verified: boolean } | null;
+  recoveryCodes: Set<string>;
+  organizations: Organization[];
+  identities: LinkedIdentity[];
+};
+
+type FailableMethod =
+  | keyof AuthService
+  | `mfa.${keyof MfaService}`
+  | `organizations.${keyof OrganizationService}`
+  | `identities.${keyof IdentityService}`
+  | `devices.${keyof DeviceTrustService}`
+  | `sessions.${keyof SessionLimitService}`;
+
+export type SentEmail = {
+  kind: "confirmation" | "recovery" | "otp";
+  email: string;
+  redirectTo: string;
+  /** Só no kind "otp" */
+  code?: string;
+};
+
+export type MemoryAuthServiceOptions = {
+  /** Default: true (signUp não devolve sessão até `confirmEmail`) */
+  requireEmailConfirmation?: boolean;
+  users?: {
+    email: string;
+    password: string;
+    metadata?: Record<string, unknown>;
+    emailConfirmed?: boolean;
+    roles?: string[];
+    /** Já entra com TOTP verificado */
+    totp?: boolean;
+    organizations?: { id: string; name: string; role?: string }[];
+    /** Provedores já ligados, além da identidade "email" */
+    identities?: OAuthProvider[];
+  }[];
+  /** Código que o TOTP fake aceita. Default: "123456" */
+  totpCode?: string;
+  /** Login, cadastro e recuperação sem `captchaToken` falham com captcha_failed */
+  requireCaptcha?: boolean;
+  invitations?: {
+    token: string;
+    organizationId: string;
+    organizationName: string;
+    email: string;
+    role?: string;
+    /** Default: daqui a 7 dias */
+    expiresAt?: string;
+  }[];
+};
+
+export type MemoryAuthService = AuthService & {
+  confirmEmail(email: string): void;
+  /** Simula o clique no link de recuperação (sessão + PASSWORD_RECOVERY) */
+  simulateRecovery(email: string): void;
+  /** Apaga os dispositivos confiáveis do usuário (como o delete em trusted_devices) */
+  revokeTrustedDevices(email: string): void;
+  /** A próxima chamada do método devolve esse erro */
+  failNext(method: FailableMethod, code: string, message?: string): void;
+  readonly sentEmails: readonly SentEmail[];
+  readonly users: ReadonlyMap<string, AuthUser>;
+  /** Prazo gravado por `sessions.limit`, por access_token (ms desde a época) */
+  readonly sessionLimits: ReadonlyMap<string, number>;
+};
+
+let seq = 0;
+const nextId = (prefix: string) => `${prefix}-${++seq}`;
+
+export function createMemoryAuthService(opts: MemoryAuthServiceOptions = {}): MemoryAuthService {
+  const requireConfirmation = opts.requireEmailConfirmation ?? true;
+  const users = new Map<string, MemoryUser>();
+  const listeners = new Set<(event: AuthEvent, session: AuthSession | null) => void>();
+  const pendingFailures = new Map<string, { code: string; message: string }>();
+  const sentEmails: SentEmail[] = [];
+  const otpCodes = new Map<string, string>();
+  const totpCode = opts.totpCode ?? "123456";
+  const missingCaptcha = (token?: string) =>
+    opts.requireCaptcha && !token ? fail("captcha_failed", "captcha protection: request disallowed", 400) : null;
+  const identity = (provider: string, email: string | null): LinkedIdentity => ({
+    id: nextId("identity"),
+    provider,
+    email,
+    createdAt: new Date().toISOString(),
+    lastSignInAt: null,
+  });
+  let current: AuthSession | null = null;
+  let currentAal: "aal1" | "aal2" = "aal1";
+
+  for (const u of opts.users ?? []) {
+    users.set(u.email.toLowerCase(), {
+      id: nextId("user"),
+      email: u.email,
+      password: u.password,
+      metadata: u.metadata ?? {},
+      emailConfirmed: u.emailConfirmed ?? true,
+      roles: u.roles ?? [],
+      totp: u.totp ? { factorId: nextId("factor"), verified: true } : null,
+      recoveryCodes: new Set(),
+      organizations: (u.organizations ?? []).map((o) => ({ role: null, logoUrl: null, ...o })),
+      identities: [identity("email", u.email), ...(u.identities ?? []).map((p) => identity(p, u.email))],
+    });
+  }
+
+  const publicUser = (u: MemoryUser): AuthUser => ({
+    id: u.id,
+    email: u.email,
+    metadata: u.metadata,
+    emailConfirmed: u.emailConfirmed,
+    roles: u.roles,
+  });
+
+  const emit = (event: AuthEvent, session: AuthSession | null) => {
+    for (const cb of [...listeners]) cb(event, session);
+  };
+
+  const startSession = (u: MemoryUser, aal: "aal1" | "aal2" = "aal1"): AuthSession => {
+    currentAal = aal;
+    current = {
+      access_token: nextId("access"),
+      refresh_token: nextId("refresh"),
+      token_type: "bearer",
+      expires_in: 3600,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      user: publicUser(u),
+    };
+    return current;
+  };
+
+  const takeFailure = (method: FailableMethod) => {
+    const f = pendingFailures.get(method);
+    if (f) pendingFailures.delete(method);
+    return f;
+  };
+
+  const findUser = (email: string) => users.get(email.trim().toLowerCase());
+  const sessionUser = () => (current ? findUser(current.user.email ?? "") : undefined);
+
+  const mfa: MfaService = {
+    async getAssuranceLevel() {
+      const f = takeFailure("mfa.getAssuranceLevel");
+      if (f) return fail(f.code, f.message);
+
+      const u = sessionUser();
+      if (!u) return ok({ current: null, next: null });
+      return ok({ current: currentAal, next: u.totp?.verified ? "aal2" : currentAal });
+    },
+
+    async enrollTotp() {
+      const f = takeFailure("mfa.enrollTotp");
+      if (f) return fail(f.code, f.message);
+
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+      if (u.totp?.verified) return fail("mfa_factor_name_conflict", "A factor already exists", 422);
+
+      u.totp = { factorId: nextId("factor"), verified: false };
+      const uri = `otpauth://totp/FlowOdonto:${u.email}?secret=MEMORYSECRET&issuer=FlowOdonto`;
+      return ok({ factorId: u.totp.factorId, qrCode: `data:text/plain,${encodeURIComponent(uri)}`, secret: "MEMORYSECRET", uri });
+    },
+
+    async verifyTotp(code, factorId) {
+      const f = takeFailure("mfa.verifyTotp");
+      if (f) return fail(f.code, f.message);
+
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+      if (!u.totp || (factorId && u.totp.factorId !== factorId)) return fail("mfa_factor_not_found", "Factor not found", 404);
+      if (code !== totpCode) return fail("mfa_verification_failed", "Invalid TOTP code entered", 422);
+
+      u.totp.verified = true;
+      return ok(startSession(u, "aal2"));
+    },
+
+    async generateRecoveryCodes() {
+      const f = takeFailure("mfa.generateRecoveryCodes");
+      if (f) return fail(f.code, f.message);
+
+      const u = sessionUser();
+      if (!u || currentAal !== "aal2") return fail("insufficient_aal", "AAL2 required", 401);
+
+      u.recoveryCodes = new Set(Array.from({ length: 10 }, (_, i) => `memory-${String(i).padStart(5, "0")}`));
+      return ok([...u.recoveryCodes]);
+    },
+
+    async redeemRecoveryCode(code) {
+      const f = takeFailure("mfa.redeemRecoveryCode");
+      if (f) return fail(f.code, f.message);
+
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+      if (!u.recoveryCodes.has(code.trim().toLowerCase())) return fail("invalid_recovery_code", "invalid_recovery_code", 400);
+
+      u.totp = null;
+      u.recoveryCodes = new Set();
+      return ok(startSession(u));
+    },
+  };
+
+  const invitations = new Map(
+    (opts.invitations ?? []).map((i) => [
+      i.token,
+      {
+        organizationId: i.organizationId,
+        organizationName: i.organizationName,
+        email: i.email,
+        role: i.role ?? "member",
+        expiresAt: i.expiresAt ?? new Date(Date.now() + 7 * 86_400_000).toISOString(),
+        acceptedBy: null as string | null,
+      },
+    ])
+  );
+
+  const organizations: OrganizationService = {
+    async listMine() {
+      const f = takeFailure("organizations.listMine");
+      if (f) return fail(f.code, f.message);
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+      return ok(u.organizations.map((o) => ({ ...o })));
+    },
+
+    async getInvitation(token) {
+      const f = takeFailure("organizations.getInvitation");
+      if (f) return fail(f.code, f.message);
+      const inv = invitations.get(token);
+      if (!inv) return fail("invitation_not_found", "Invitation not found");
+      if (inv.acceptedBy) return fail("invitation_already_accepted", "Invitation already accepted");
+      if (Date.parse(inv.expiresAt) < Date.now()) return fail("invitation_expired", "Invitation expired");
+      return ok({
+        organizationId: inv.organizationId,
+        organizationName: inv.organizationName,
+        email: inv.email,
+        role: inv.role,
+        expiresAt: inv.expiresAt,
+      });
+    },
+
+    async acceptInvitation(token) {
+      const f = takeFailure("organizations.acceptInvitation");
+      if (f) return fail(f.code, f.message);
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+
+      const inv = invitations.get(token);
+      if (!inv) return fail("invitation_not_found", "Invitation not found");
+      if (inv.acceptedBy === u.id) return ok({ organizationId: inv.organizationId });
+      if (inv.acceptedBy) return fail("invitation_already_accepted", "Invitation already accepted");
+      if (Date.parse(inv.expiresAt) < Date.now()) return fail("invitation_expired", "Invitation expired");
+      if (!u.emailConfirmed) return fail("email_not_confirmed", "Email not confirmed");
+      if (inv.email.toLowerCase() !== (u.email ?? "").toLowerCase()) {
+        return fail("invitation_email_mismatch", "Invitation is for another email");
+      }
+      if (u.organizations.some((o) => o.id === inv.organizationId)) {
+        return fail("invitation_already_member", "Already a member of this organization");
+      }
+
+      inv.acceptedBy = u.id;
+      u.organizations = [
+        ...u.organizations,
+        { id: inv.organizationId, name: inv.organizationName, role: inv.role, logoUrl: null },
+      ];
+      return ok({ organizationId: inv.organizationId });
+    },
+  };
+
+  const identities: IdentityService = {
+    async list() {
+      const f = takeFailure("identities.list");
+      if (f) return fail(f.code, f.message);
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+      return ok(u.identities.map((i) => ({ ...i })));
+    },
+
+    // sem ida ao provedor: a identidade já entra ligada e a url é só para o teste conferir
+    async link(provider, redirectTo, options = {}) {
+      const f = takeFailure("identities.link");
+      if (f) return fail(f.code, f.message);
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+      if (u.identities.some((i) => i.provider === provider)) {
+        return fail("identity_already_exists", "Identity is already linked", 422);
+      }
+
+      u.identities = [...u.identities, identity(provider, u.email)];
+      const q = new URLSearchParams({ redirect_to: redirectTo, ...options.queryParams });
+      if (options.scopes) q.set("scopes", options.scopes);
+      return ok({ url: `memory://link/${provider}?${q.toString()}` });
+    },
+
+    async unlink(identityId) {
+      const f = takeFailure("identities.unlink");
+      if (f) return fail(f.code, f.message);
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+      if (!u.identities.some((i) => i.id === identityId)) return fail("identity_not_found", "Identity not found", 404);
+      if (u.identities.length < 2) {
+        return fail("single_identity_not_deletable", "User must have at least 1 identity after unlinking", 422);
+      }
+
+      u.identities = u.identities.filter((i) => i.id !== identityId);
+      return ok(null);
+    },
+  };
+
+  // token -> dono e validade (epoch ms)
+  const trustedDevices = new Map<string, { userId: string; expiresAt: number }>();
+
+  const devices: DeviceTrustService = {
+    async isTrusted(token) {
+      const f = takeFailure("devices.isTrusted");
+      if (f) return fail(f.code, f.message);
+      const u = sessionUser();
+      const d = trustedDevices.get(token);
+      return ok(!!u && !!d && d.userId === u.id && d.expiresAt > Date.now());
+    },
+
+    async trust(token, _label, days) {
+      const f = takeFailure("devices.trust");
+      if (f) return fail(f.code, f.message);
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+      if (currentAal !== "aal2") return fail("insufficient_aal", "AAL2 required", 401);
+
+      const expiresAt = Date.now() + Math.min(Math.max(days, 1), 90) * 86_400_000;
+      trustedDevices.set(token, { userId: u.id, expiresAt });
+      return ok({ expiresAt: new Date(expiresAt).toISOString() });
+    },
+  };
+
+  const sessionLimits = new Map<string, number>();
+
+  const sessions: SessionLimitService = {
+    async limit(minutes) {
+      const f = takeFailure("sessions.limit");
+      if (f) return fail(f.code, f.message);
+      if (!current) return fail("session_not_found", "Auth session missing!", 401);
+
+      // como no banco: a primeira chamada da sessão vale
+      if (!sessionLimits.has(current.access_token)) {
+        sessionLimits.set(current.access_token, Date.now() + Math.min(minutes, 90 * 24 * 60) * 60_000);
+      }
+      return ok({ notAfter: new Date(sessionLimits.get(current.access_token)!).toISOString() });
+    },
+  };
+
+  return {
+    mfa,
+    organizations,
+    identities,
+    devices,
+    sessions,
+    sentEmails,
+    sessionLimits,
+    get users() {
+      return new Map([...users].map(([k, u]) => [k, publicUser(u)]));
+    },
+
+    confirmEmail(email) {
+      const u = findUser(email);
+      if (u) u.emailConfirmed = true;
+    },
+
+    simulateRecovery(email) {
+      const u = findUser(email);
+      if (!u) return;
+      emit("PASSWORD_RECOVERY", startSession(u));
+    },
+
+    revokeTrustedDevices(email) {
+      const u = findUser(email);
+      for (const [token, d] of trustedDevices) if (d.userId === u?.id) trustedDevices.delete(token);
+    },
+
+    failNext(method, code, message = code) {
+      pendingFailures.set(method, { code, message });
+    },
+
+    async getSession() {
+      return current;
+    },
+
+    async validateSession() {
+      return !!current && !!findUser(current.user.email ?? "");
+    },
+
+    // failNext("checkSession", ...) simula timeout / rede fora
+    async checkSession() {
+      if (takeFailure("checkSession")) return { status: "unavailable" };
+      if (!current) return { status: "none" };
+      return findUser(current.user.email ?? "") ? { status: "valid", session: current } : { status: "invalid", session: current };
+    },
+
+    async signInWithPassword(email, password, captchaToken) {
+      const f = takeFailure("signInWithPassword");
+      if (f) return fail(f.code, f.message);
+      const c = missingCaptcha(captchaToken);
+      if (c) return c;
+
+      const u = findUser(email);
+      if (!u || u.password !== password) return fail("invalid_credentials", "Invalid login credentials", 400);
+      if (!u.emailConfirmed) return fail("email_not_confirmed", "Email not confirmed", 400);
+
+      const session = startSession(u);
+      emit("SIGNED_IN", session);
+      return ok(session);
+    },
+
+    async signInWithOAuth(provider, redirectTo, options = {}) {
+      const f = takeFailure("signInWithOAuth");
+      if (f) return fail(f.code, f.message);
+      const q = new URLSearchParams({ redirect_to: redirectTo, ...options.queryParams });
+      if (options.scopes) q.set("scopes", options.scopes);
+      return ok({ url: `memory://oauth/${provider}?${q.toString()}` });
+    },
+
+    async signInWithOtp(email, redirectTo) {
+      const f = takeFailure("signInWithOtp");
+      if (f) return fail(f.code, f.message);
+
+      const u = findUser(email);
+      if (!u) return fail("otp_disabled", "Signups not allowed for otp", 422);
+
+      const code = String(Math.floor(100000 + Math.random() * 900000));
+      otpCodes.set(email.trim().toLowerCase(), code);
+      sentEmails.push({ kind: "otp", email, redirectTo, code });
+      return ok(null);
+    },
+
+    async verifyEmailOtp(email, token) {
+      const f = takeFailure("verifyEmailOtp");
+      if (f) return fail(f.code, f.message);
+
+      const key = email.trim().toLowerCase();
+      const u = findUser(email);
+      if (!u || otpCodes.get(key) !== token) return fail("otp_expired", "Token has expired or is invalid", 403);
+
+      otpCodes.delete(key);
+      u.emailConfirmed = true;
+      const session = startSession(u);
+      emit("SIGNED_IN", session);
+      return ok(session);
+    },
+
+    async signUp({ email, password, metadata, emailRedirectTo, captchaToken }) {
+      const f = takeFailure("signUp");
+      if (f) return fail(f.code, f.message);
+      const c = missingCaptcha(captchaToken);
+      if (c) return c;
+
+      if (findUser(email)) return fail("user_already_exists", "User already registered", 422);
+
+      const u: MemoryUser = {
+        id: nextId("user"),
+        email: email.trim(),
+        password,
+        metadata: metadata ?? {},
+        emailConfirmed: !requireConfirmation,
+        roles: [],
+        totp: null,
+        recoveryCodes: new Set(),
+        organizations: [],
+        identities: [identity("email", email.trim())],
+      };
+      users.set(email.trim().toLowerCase(), u);
+
+      if (requireConfirmation) {
+        sentEmails.push({ kind: "confirmation", email: u.email ?? email, redirectTo: emailRedirectTo });
+        return ok({ user: publicUser(u), session: null });
+      }
+
+      const session = startSession(u);
+      emit("SIGNED_IN", session);
+      return ok({ user: publicUser(u), session });
+    },
+
+    async resendSignupConfirmation(email, redirectTo) {
+      const f = takeFailure("resendSignupConfirmation");
+      if (f) return fail(f.code, f.message);
+      // como o GoTrue: conta inexistente ou já confirmada não dá erro, só não envia
+      const u = findUser(email);
+      if (u && !u.emailConfirmed) sentEmails.push({ kind: "confirmation", email: u.email ?? email, redirectTo });
+      return ok(null);
+    },
+
+    async resetPasswordForEmail(email, redirectTo, captchaToken) {
+      const f = takeFailure("resetPasswordForEmail");
+      if (f) return fail(f.code, f.message);
+      const c = missingCaptcha(captchaToken);
+      if (c) return c;
+      // como o GoTrue: não revela se o e-mail existe
+      if (findUser(email)) sentEmails.push({ kind: "recovery", email, redirectTo });
+      return ok(null);
+    },
+
+    async updateUser({ password, metadata }) {
+      const f = takeFailure("updateUser");
+      if (f) return fail(f.code, f.message);
+
+      const u = sessionUser();
+      if (!u) return fail("session_not_found", "Auth session missing!", 401);
+
+      if (password !== undefined) u.password = password;
+      if (metadata) u.metadata = { ...u.metadata, ...metadata };
+
+      const session = startSession(u, currentAal);
+      emit("USER_UPDATED", session);
+      return ok(publicUser(u));
+    },
+
+    async signOut() {
+      const f = takeFailure("signOut");
+      current = null;
+      emit("SIGNED_OUT", null);
+      return f ? fail(f.code, f.message) : ok(null);
+    },
+
+    onAuthStateChange(cb) {
+      listeners.add(cb);
+      return () => listeners.delete(cb);
+    },
+  };
+}
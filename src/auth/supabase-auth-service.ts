@@ -0,0 +1,500 @@
+import type { AuthChangeEvent, Session, SupabaseClient, User, UserIdentity } from "@supabase/supabase-js";
+import {
+  fail,
+  ok,
+  type AuthError,
+  type AuthEvent,
+  type AuthResult,
+  type AuthService,
+  type AuthSession,
+  type AuthUser,
+  type DeviceTrustService,
+  type IdentityService,
+  type Invitation,
+  type LinkedIdentity,
+  type MfaService,
+  type Organization,
+  type OrganizationService,
+  type SessionLimitService,
+} from "@/auth/types";
+
+/** =========================
+ * AuthService sobre o Supabase Auth v2
+ * ========================= */
+
+export type SupabaseAuthServiceOptions = {
+  /** getSession/getUser não podem travar o boot. Default: 1500ms */
+  timeoutMs?: number;
+};
+
+const TIMEOUT = Symbol("timeout");
+
+/** Edge function dos códigos de recuperação do MFA (supabase/functions/mfa-recovery) */
+export const MFA_RECOVERY_FUNCTION = "mfa-recovery";
+
+function withTimeout<T>(p: Promise<T>, ms: number) {
+  let t: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    p,
+    new Promise<typeof TIMEOUT>((resolve) => {
+      t = setTimeout(() => resolve(TIMEOUT), ms);
+    }),
+  ]).finally(() => clearTimeout(t));
+}
+
+export function clearSupabaseStorageKeys() {
+  for (const storage of [localStorage, sessionStorage]) {
+    try {
+      for (const k of Object.keys(storage)) {
+        if (k.startsWith("sb-")) storage.removeItem(k);
+      }
+    } catch {
+      // storage indisponível (modo privado / iframe sandbox)
+    }
+  }
+}
+
+export function normalizeAuthError(e: unknown): AuthError {
+  if (!e || typeof e !== "object") return { code: "unknown", message: String(e ?? "") };
+
+  const err = e as { code?: unknown; message?: unknown; status?: unknown; name?: unknown };
+  const message = typeof err.message === "string" ? err.message : "";
+  const status = typeof err.status === "number" ? err.status : undefined;
+
+  if (typeof err.code === "string" && err.code) return { code: err.code, message, status };
+
+  // Erros antigos / sem código: deduz pelo tipo ou pela mensagem
+  if (err.name === "AuthRetryableFetchError" || err.name === "TypeError" || status === 0) {
+    return { code: "network_error", message, status };
+  }
+  if (message === "Invalid login credentials") return { code: "invalid_credentials", message, status };
+  if (/email not confirmed/i.test(message)) return { code: "email_not_confirmed", message, status };
+  if (/already registered/i.test(message)) return { code: "user_already_exists", message, status };
+  if (status === 429) return { code: "over_request_rate_limit", message, status };
+
+  return { code: "unknown", message, status };
+}
+
+function readRoles(appMetadata: Record<string, unknown> | undefined) {
+  const roles = appMetadata?.roles ?? appMetadata?.role;
+  if (Array.isArray(roles)) return roles.filter((r): r is string => typeof r === "string");
+  return typeof roles === "string" ? [roles] : [];
+}
+
+function toAuthUser(u: User): AuthUser {
+  return {
+    id: u.id,
+    email: u.email ?? null,
+    metadata: u.user_metadata ?? {},
+    emailConfirmed: !!u.email_confirmed_at,
+    roles: readRoles(u.app_metadata),
+  };
+}
+
+function toAuthSession(s: Session): AuthSession {
+  return {
+    access_token: s.access_token,
+    refresh_token: s.refresh_token,
+    token_type: "bearer",
+    expires_in: s.expires_in,
+    expires_at: s.expires_at ?? null,
+    user: toAuthUser(s.user),
+  };
+}
+
+const KNOWN_EVENTS: AuthEvent[] = [
+  "INITIAL_SESSION",
+  "SIGNED_IN",
+  "SIGNED_OUT",
+  "TOKEN_REFRESHED",
+  "USER_UPDATED",
+  "PASSWORD_RECOVERY",
+];
+
+async function run<T>(fn: () => Promise<AuthResult<T>>): Promise<AuthResult<T>> {
+  try {
+    return await fn();
+  } catch (e) {
+    return { data: null, error: normalizeAuthError(e) };
+  }
+}
+
+// A edge function responde { error: "<código>" }; FunctionsHttpError guarda a Response em `context`
+async function functionError(error: unknown): Promise<AuthError> {
+  const res = (error as { context?: unknown }).context;
+  if (res instanceof Response) {
+    const body = await res.json().catch(() => null);
+    if (body && typeof body.error === "string") return { code: body.error, message: body.error, status: res.status };
+  }
+  if ((error as { name?: unknown }).name === "FunctionsFetchError") {
+    return { code: "network_error", message: String((error as { message?: unknown }).message ?? "") };
+  }
+  return normalizeAuthError(error);
+}
+
+function createMfaService(client: SupabaseClient): MfaService {
+  const auth = client.auth;
+
+  const currentSession = async () => {
+    const { data, error } = await auth.getSession();
+    if (error) return { data: null, error: normalizeAuthError(error) };
+    if (!data.session) return fail<AuthSession>("session_not_found", "Auth session missing!");
+    return ok(toAuthSession(data.session));
+  };
+
+  return {
+    getAssuranceLevel: () =>
+      run(async () => {
+        const { data, error } = await auth.mfa.getAuthenticatorAssuranceLevel();
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok({ current: data.currentLevel, next: data.nextLevel });
+      }),
+
+    enrollTotp: () =>
+      run(async () => {
+        const factors = await auth.mfa.listFactors();
+        if (factors.error) return { data: null, error: normalizeAuthError(factors.error) };
+        // cadastro abandonado no meio deixa um fator "unverified" que bloqueia o próximo
+        for (const f of factors.data.all) {
+          if (f.factor_type === "totp" && f.status === "unverified") await auth.mfa.unenroll({ factorId: f.id });
+        }
+
+        const { data, error } = await auth.mfa.enroll({ factorType: "totp", friendlyName: "FlowOdonto" });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret, uri: data.totp.uri });
+      }),
+
+    verifyTotp: (code, factorId) =>
+      run(async () => {
+        let id = factorId;
+        if (!id) {
+          const factors = await auth.mfa.listFactors();
+          if (factors.error) return { data: null, error: normalizeAuthError(factors.error) };
+          id = factors.data.totp[0]?.id;
+          if (!id) return fail("mfa_factor_not_found", "No verified TOTP factor");
+        }
+
+        const { error } = await auth.mfa.challengeAndVerify({ factorId: id, code });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return currentSession();
+      }),
+
+    generateRecoveryCodes: () =>
+      run(async () => {
+        const { data, error } = await client.functions.invoke<{ codes?: string[] }>(MFA_RECOVERY_FUNCTION, {
+          body: { action: "generate" },
+        });
+        if (error) return { data: null, error: await functionError(error) };
+        if (!data?.codes?.length) return fail("unknown", "Resposta sem códigos");
+        return ok(data.codes);
+      }),
+
+    redeemRecoveryCode: (code) =>
+      run(async () => {
+        const { error } = await client.functions.invoke(MFA_RECOVERY_FUNCTION, { body: { action: "redeem", code } });
+        if (error) return { data: null, error: await functionError(error) };
+
+        // o fator foi removido no servidor; a sessão nova já sai sem exigir aal2
+        const refreshed = await auth.refreshSession();
+        if (refreshed.error) return { data: null, error: normalizeAuthError(refreshed.error) };
+        if (!refreshed.data.session) return fail("session_not_found", "Auth session missing!");
+        return ok(toAuthSession(refreshed.data.session));
+      }),
+  };
+}
+
+type MembershipRow = {
+  role: string | null;
+  organization: { id: string; name: string; logo_url: string | null } | null;
+};
+
+type InvitationRow = {
+  organization_id: string;
+  organization_name: string;
+  email: string;
+  role: string;
+  expires_at: string;
+  status: "pending" | "expired" | "accepted";
+};
+
+// As funções SQL sinalizam com `raise exception '<código>'` (P0001): a mensagem é o código
+function rpcError(error: { code?: string; message?: string }): AuthError {
+  if (error.code === "P0001" && error.message && /^[a-z_]+$/.test(error.message)) {
+    return { code: error.message, message: error.message };
+  }
+  return normalizeAuthError(error);
+}
+
+// Tabelas em supabase/migrations/*_organizations.sql; a RLS já restringe às linhas do próprio usuário
+function createOrganizationService(client: SupabaseClient): OrganizationService {
+  return {
+    listMine: () =>
+      run(async () => {
+        const { data: auth, error: authError } = await client.auth.getUser();
+        if (authError) return { data: null, error: normalizeAuthError(authError) };
+        if (!auth.user) return fail("session_not_found", "Auth session missing!");
+
+        const { data, error } = await client
+          .from("organization_members")
+          .select("role, organization:organizations(id, name, logo_url)")
+          .eq("user_id", auth.user.id)
+          .overrideTypes<MembershipRow[], { merge: false }>();
+        if (error) return { data: null, error: normalizeAuthError(error) };
+
+        return ok(
+          (data ?? []).flatMap(({ role, organization }): Organization[] =>
+            organization ? [{ id: organization.id, name: organization.name, role, logoUrl: organization.logo_url }] : []
+          )
+        );
+      }),
+
+    getInvitation: (token) =>
+      run(async () => {
+        const { data, error } = await client
+          .rpc("invitation_by_token", { p_token: token })
+          .maybeSingle<InvitationRow>();
+        if (error) return { data: null, error: rpcError(error) };
+        if (!data) return fail("invitation_not_found", "Invitation not found");
+        if (data.status === "expired") return fail("invitation_expired", "Invitation expired");
+        if (data.status === "accepted") return fail("invitation_already_accepted", "Invitation already accepted");
+
+        const invitation: Invitation = {
+          organizationId: data.organization_id,
+          organizationName: data.organization_name,
+          email: data.email,
+          role: data.role,
+          expiresAt: data.expires_at,
+        };
+        return ok(invitation);
+      }),
+
+    acceptInvitation: (token) =>
+      run(async () => {
+        const { data, error } = await client.rpc("accept_invitation", { p_token: token });
+        if (error) return { data: null, error: rpcError(error) };
+        if (typeof data !== "string") return fail("unknown", "Resposta sem clínica");
+        return ok({ organizationId: data });
+      }),
+  };
+}
+
+// Funções em supabase/migrations/*_trusted_devices.sql (o banco guarda só o sha256 do token)
+function createDeviceTrustService(client: SupabaseClient): DeviceTrustService {
+  return {
+    isTrusted: (token) =>
+      run(async () => {
+        const { data, error } = await client.rpc("is_trusted_device", { p_token: token });
+        if (error) return { data: null, error: rpcError(error) };
+        return ok(data === true);
+      }),
+
+    trust: (token, label, days) =>
+      run(async () => {
+        const { data, error } = await client.rpc("trust_device", { p_token: token, p_label: label, p_days: days });
+        if (error) return { data: null, error: rpcError(error) };
+        if (typeof data !== "string") return fail("unknown", "Resposta sem validade");
+        return ok({ expiresAt: data });
+      }),
+  };
+}
+
+// Função em supabase/migrations/*_session_limits.sql (prazo contado do created_at da sessão no GoTrue)
+function createSessionLimitService(client: SupabaseClient): SessionLimitService {
+  return {
+    limit: (minutes) =>
+      run(async () => {
+        const { data, error } = await client.rpc("limit_session", { p_minutes: Math.ceil(minutes) });
+        if (error) return { data: null, error: rpcError(error) };
+        if (typeof data !== "string") return fail("unknown", "Resposta sem prazo");
+        return ok({ notAfter: data });
+      }),
+  };
+}
+
+function toLinkedIdentity(i: UserIdentity): LinkedIdentity {
+  const email = i.identity_data?.email;
+  return {
+    id: i.identity_id,
+    provider: i.provider,
+    email: typeof email === "string" ? email : null,
+    createdAt: i.created_at ?? null,
+    lastSignInAt: i.last_sign_in_at ?? null,
+  };
+}
+
+function createIdentityService(client: SupabaseClient): IdentityService {
+  const auth = client.auth;
+
+  return {
+    list: () =>
+      run(async () => {
+        const { data, error } = await auth.getUserIdentities();
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok(data.identities.map(toLinkedIdentity));
+      }),
+
+    link: (provider, redirectTo, options = {}) =>
+      run(async () => {
+        const { data, error } = await auth.linkIdentity({
+          provider,
+          options: { redirectTo, scopes: options.scopes, queryParams: options.queryParams },
+        });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok({ url: data.url ?? null });
+      }),
+
+    unlink: (identityId) =>
+      run(async () => {
+        // o unlinkIdentity quer o objeto inteiro: relê a lista do servidor
+        const listed = await auth.getUserIdentities();
+        if (listed.error) return { data: null, error: normalizeAuthError(listed.error) };
+        const identity = listed.data.identities.find((i) => i.identity_id === identityId);
+        if (!identity) return fail("identity_not_found", "Identity not found", 404);
+
+        const { error } = await auth.unlinkIdentity(identity);
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok(null);
+      }),
+  };
+}
+
+export function createSupabaseAuthService(client: SupabaseClient, opts: SupabaseAuthServiceOptions = {}): AuthService {
+  const auth = client.auth;
+  const timeoutMs = opts.timeoutMs ?? 1500;
+
+  return {
+    async getSession() {
+      try {
+        const res = await withTimeout(auth.getSession(), timeoutMs);
+        if (res === TIMEOUT) return null;
+        return res.data.session ? toAuthSession(res.data.session) : null;
+      } catch {
+        return null;
+      }
+    },
+
+    async validateSession() {
+      try {
+        const res = await withTimeout(auth.getUser(), timeoutMs);
+        // Se não dá pra validar aqui, NÃO redireciona (evita loop e evita travar)
+        if (res === TIMEOUT) return false;
+        return !res.error && !!res.data.user;
+      } catch {
+        return false;
+      }
+    },
+
+    async checkSession(ms = timeoutMs) {
+      try {
+        const local = await withTimeout(auth.getSession(), ms);
+        if (local === TIMEOUT || local.error) return { status: "unavailable" };
+        if (!local.data.session) return { status: "none" };
+        const session = toAuthSession(local.data.session);
+
+        const remote = await withTimeout(auth.getUser(), ms);
+        if (remote === TIMEOUT) return { status: "unavailable" };
+        if (remote.error) {
+          // recusa do servidor (401/403) derruba a sessão; queda de rede / 5xx só adia
+          const e = normalizeAuthError(remote.error);
+          if (e.code === "network_error" || (e.status ?? 0) >= 500) return { status: "unavailable" };
+          return { status: "invalid", session };
+        }
+        return remote.data.user ? { status: "valid", session } : { status: "invalid", session };
+      } catch {
+        return { status: "unavailable" };
+      }
+    },
+
+    signInWithPassword: (email, password, captchaToken) =>
+      run(async () => {
+        const { data, error } = await auth.signInWithPassword({ email, password, options: { captchaToken } });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        if (!data.session) return fail("unknown", "Login sem sessão");
+        return ok(toAuthSession(data.session));
+      }),
+
+    signInWithOAuth: (provider, redirectTo, options = {}) =>
+      run(async () => {
+        const { data, error } = await auth.signInWithOAuth({
+          provider,
+          options: { redirectTo, scopes: options.scopes, queryParams: options.queryParams },
+        });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok({ url: data.url ?? null });
+      }),
+
+    signInWithOtp: (email, emailRedirectTo) =>
+      run(async () => {
+        const { error } = await auth.signInWithOtp({ email, options: { emailRedirectTo, shouldCreateUser: false } });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok(null);
+      }),
+
+    verifyEmailOtp: (email, token) =>
+      run(async () => {
+        const { data, error } = await auth.verifyOtp({ email, token, type: "email" });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        if (!data.session) return fail("otp_expired", "Token has expired or is invalid");
+        return ok(toAuthSession(data.session));
+      }),
+
+    signUp: ({ email, password, metadata, emailRedirectTo, captchaToken }) =>
+      run(async () => {
+        const { data, error } = await auth.signUp({
+          email,
+          password,
+          options: { data: metadata, emailRedirectTo, captchaToken },
+        });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok({
+          user: data.user ? toAuthUser(data.user) : null,
+          session: data.session ? toAuthSession(data.session) : null,
+        });
+      }),
+
+    resendSignupConfirmation: (email, emailRedirectTo) =>
+      run(async () => {
+        const { error } = await auth.resend({ type: "signup", email, options: { emailRedirectTo } });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok(null);
+      }),
+
+    resetPasswordForEmail: (email, redirectTo, captchaToken) =>
+      run(async () => {
+        const { error } = await auth.resetPasswordForEmail(email, { redirectTo, captchaToken });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok(null);
+      }),
+
+    updateUser: ({ password, metadata }) =>
+      run(async () => {
+        const { data, error } = await auth.updateUser({ password, data: metadata });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok(toAuthUser(data.user));
+      }),
+
+    async signOut(scope = "local") {
+      const res = await run(async () => {
+        const { error } = await auth.signOut({ scope });
+        if (error) return { data: null, error: normalizeAuthError(error) };
+        return ok(null);
+      });
+      clearSupabaseStorageKeys();
+      return res;
+    },
+
+    onAuthStateChange(cb) {
+      const { data } = auth.onAuthStateChange((event: AuthChangeEvent, session: Session | null) => {
+        if (!KNOWN_EVENTS.includes(event as AuthEvent)) return;
+        cb(event as AuthEvent, session ? toAuthSession(session) : null);
+      });
+      return () => data.subscription.unsubscribe();
+    },
+
+    mfa: createMfaService(client),
+    organizations: createOrganizationService(client),
+    identities: createIdentityService(client),
+    devices: createDeviceTrustService(client),
+    sessions: createSessionLimitService(client),
+  };
+}
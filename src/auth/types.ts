@@ -0,0 +1,244 @@
+/** =========================
+ * Contrato da camada de auth usada pela UI
+ *
+ * A UI só conhece este interface. A implementação real fica em
+ * `supabase-auth-service.ts`; `memory-auth-service.ts` é o fake em memória
+ * para rodar os fluxos sem backend.
+ * ========================= */
+
+/** Ids do Supabase Auth. Quais aparecem na tela é decidido em `src/config/oauth-providers.json` */
+export type OAuthProvider =
+  | "google"
+  | "facebook"
+  | "apple"
+  | "azure"
+  | "github"
+  | "gitlab"
+  | "linkedin_oidc"
+  | "keycloak";
+
+export type OAuthOptions = {
+  /** Escopos extras, separados por espaço */
+  scopes?: string;
+  queryParams?: Record<string, string>;
+};
+
+export type AuthUser = {
+  id: string;
+  email: string | null;
+  metadata: Record<string, unknown>;
+  emailConfirmed: boolean;
+  /** Papéis do `app_metadata` (só o servidor altera) — usados pela política de MFA */
+  roles: string[];
+};
+
+export type AuthSession = {
+  access_token: string;
+  refresh_token: string;
+  token_type: "bearer";
+  expires_in: number;
+  /** epoch em segundos */
+  expires_at: number | null;
+  user: AuthUser;
+};
+
+/**
+ * Códigos normalizados. Os do GoTrue passam direto (`email_not_confirmed`,
+ * `weak_password`, `over_email_send_rate_limit`, ...); os abaixo são nossos
+ * para casos em que o backend não manda código.
+ */
+export type AuthErrorCode =
+  | "invalid_credentials"
+  | "email_not_confirmed"
+  | "user_already_exists"
+  | "weak_password"
+  | "over_request_rate_limit"
+  | "over_email_send_rate_limit"
+  | "otp_expired"
+  | "otp_disabled"
+  | "session_not_found"
+  | "network_error"
+  | "timeout"
+  | "not_available"
+  | "unknown"
+  | (string & {});
+
+export type AuthError = {
+  code: AuthErrorCode;
+  /** Mensagem original (inglês, do backend). Não mostrar direto ao usuário */
+  message: string;
+  status?: number;
+};
+
+export type AuthResult<T> = { data: T; error: null } | { data: null; error: AuthError };
+
+export type AuthEvent =
+  | "INITIAL_SESSION"
+  | "SIGNED_IN"
+  | "SIGNED_OUT"
+  | "TOKEN_REFRESHED"
+  | "USER_UPDATED"
+  | "PASSWORD_RECOVERY";
+
+/** Sessão local + confirmação no servidor. `unavailable` = não deu para saber (timeout, rede): vale tentar de novo */
+export type SessionCheck =
+  | { status: "valid"; session: AuthSession }
+  | { status: "invalid"; session: AuthSession }
+  | { status: "none" }
+  | { status: "unavailable" };
+
+export type SignUpInput = {
+  email: string;
+  password: string;
+  metadata?: Record<string, unknown>;
+  emailRedirectTo: string;
+  captchaToken?: string;
+};
+
+export type SignOutScope = "local" | "global" | "others";
+
+export type AssuranceLevel = "aal1" | "aal2";
+
+export type MfaAssurance = {
+  current: AssuranceLevel | null;
+  /** `next` aal2 com `current` aal1 = usuário tem TOTP verificado e ainda não passou pelo desafio */
+  next: AssuranceLevel | null;
+};
+
+export type TotpEnrollment = {
+  factorId: string;
+  /** QR code em SVG como data URL (pronto para `<img src>`) */
+  qrCode: string;
+  /** Chave para digitar no app autenticador quando não dá para escanear */
+  secret: string;
+  uri: string;
+};
+
+export interface MfaService {
+  getAssuranceLevel(): Promise<AuthResult<MfaAssurance>>;
+  /** Descarta cadastros TOTP não concluídos antes de criar um novo */
+  enrollTotp(): Promise<AuthResult<TotpEnrollment>>;
+  /** Sem `factorId`, usa o TOTP já verificado do usuário. Devolve a sessão elevada (aal2) */
+  verifyTotp(code: string, factorId?: string): Promise<AuthResult<AuthSession>>;
+  /** Gera novos códigos de recuperação (invalida os anteriores). Exige sessão aal2 */
+  generateRecoveryCodes(): Promise<AuthResult<string[]>>;
+  /** Consome um código de recuperação: remove o TOTP da conta e devolve a sessão renovada */
+  redeemRecoveryCode(code: string): Promise<AuthResult<AuthSession>>;
+}
+
+/** Clínica (tenant) da qual o usuário é membro */
+export type Organization = {
+  id: string;
+  name: string;
+  /** Papel do usuário nessa clínica ("owner", "dentist", ...) */
+  role: string | null;
+  logoUrl: string | null;
+};
+
+/** Convite para entrar numa clínica (link /convite?token=...) */
+export type Invitation = {
+  organizationId: string;
+  organizationName: string;
+  /** O convite só pode ser aceito por uma conta com este e-mail */
+  email: string;
+  role: string;
+  /** ISO 8601 */
+  expiresAt: string;
+};
+
+export interface OrganizationService {
+  /** Clínicas do usuário da sessão atual */
+  listMine(): Promise<AuthResult<Organization[]>>;
+  /** Não precisa de sessão. Erros: invitation_not_found, invitation_expired, invitation_already_accepted */
+  getInvitation(token: string): Promise<AuthResult<Invitation>>;
+  /**
+   * Aceita com o usuário da sessão (e-mail confirmado e igual ao do convite). Idempotente para o mesmo usuário.
+   * Quem já é membro da clínica recebe invitation_already_member (o papel não muda)
+   */
+  acceptInvitation(token: string): Promise<AuthResult<{ organizationId: string }>>;
+}
+
+/** Forma de entrar ligada à conta: "email" (senha / link) ou um provedor OAuth */
+export type LinkedIdentity = {
+  /** `identity_id` do GoTrue (é o que o unlink recebe) */
+  id: string;
+  provider: string;
+  /** E-mail informado pelo provedor (pode ser diferente do e-mail da conta) */
+  email: string | null;
+  /** ISO 8601 */
+  createdAt: string | null;
+  lastSignInAt: string | null;
+};
+
+export interface IdentityService {
+  /** Identidades do usuário da sessão atual */
+  list(): Promise<AuthResult<LinkedIdentity[]>>;
+  /**
+   * Liga o provedor à conta da sessão atual. Como no signInWithOAuth, a `url` é do provedor
+   * e o resultado volta no `redirectTo`. Exige "manual linking" ligado no Supabase Auth
+   */
+  link(provider: OAuthProvider, redirectTo: string, options?: OAuthOptions): Promise<AuthResult<{ url: string | null }>>;
+  /** A conta precisa ficar com pelo menos uma identidade (single_identity_not_deletable) */
+  unlink(identityId: string): Promise<AuthResult<null>>;
+}
+
+export interface DeviceTrustService {
+  /** Token do dispositivo ainda confiável para o usuário da sessão atual (não precisa de aal2) */
+  isTrusted(token: string): Promise<AuthResult<boolean>>;
+  /** Exige sessão aal2 (logo depois do TOTP). Devolve a validade (ISO 8601) */
+  trust(token: string, label: string, days: number): Promise<AuthResult<{ expiresAt: string }>>;
+}
+
+export interface SessionLimitService {
+  /**
+   * Prazo no servidor para a sessão atual, contado do login ("manter conectado" / computador
+   * compartilhado). Vencido, o servidor revoga a sessão (e os refresh tokens entregues aos apps).
+   * Só a primeira chamada de cada sessão vale: o prazo nunca estica. Devolve o fim (ISO 8601)
+   */
+  limit(minutes: number): Promise<AuthResult<{ notAfter: string }>>;
+}
+
+export interface AuthService {
+  getSession(): Promise<AuthSession | null>;
+  /** Confirma no servidor que a sessão local ainda vale (getUser) */
+  validateSession(): Promise<boolean>;
+  /** getSession + getUser numa chamada só, separando "sem sessão" de "não deu para confirmar" (boot) */
+  checkSession(timeoutMs?: number): Promise<SessionCheck>;
+
+  /** `captchaToken`: exigido pelo Supabase quando o CAPTCHA está ligado no Auth */
+  signInWithPassword(email: string, password: string, captchaToken?: string): Promise<AuthResult<AuthSession>>;
+  signInWithOAuth(
+    provider: OAuthProvider,
+    redirectTo: string,
+    options?: OAuthOptions
+  ): Promise<AuthResult<{ url: string | null }>>;
+  /** Login sem senha: o mesmo e-mail leva o link mágico e o código de 6 dígitos. Não cria conta */
+  signInWithOtp(email: string, emailRedirectTo: string): Promise<AuthResult<null>>;
+  verifyEmailOtp(email: string, token: string): Promise<AuthResult<AuthSession>>;
+  /** `session` vem null quando a confirmação por e-mail está ligada */
+  signUp(input: SignUpInput): Promise<AuthResult<{ user: AuthUser | null; session: AuthSession | null }>>;
+  /** Reenvia o e-mail de confirmação do cadastro */
+  resendSignupConfirmation(email: string, emailRedirectTo: string): Promise<AuthResult<null>>;
+
+  resetPasswordForEmail(email: string, redirectTo: string, captchaToken?: string): Promise<AuthResult<null>>;
+  updateUser(attrs: { password?: string; metadata?: Record<string, unknown> }): Promise<AuthResult<AuthUser>>;
+
+  /** Sempre limpa o estado local, mesmo se o servidor falhar */
+  signOut(scope?: SignOutScope): Promise<AuthResult<null>>;
+
+  onAuthStateChange(cb: (event: AuthEvent, session: AuthSession | null) => void): () => void;
+
+  readonly mfa: MfaService;
+  readonly organizations: OrganizationService;
+  readonly identities: IdentityService;
+  readonly devices: DeviceTrustService;
+  readonly sessions: SessionLimitService;
+}
+
+export function ok<T>(data: T): AuthResult<T> {
+  return { data, error: null };
+}
+
+export function fail<T = never>(code: AuthErrorCode, message: string, status?: number): AuthResult<T> {
+  return { data: null, error: { code, message, status } };
+}
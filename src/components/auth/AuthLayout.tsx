@@ -0,0 +1,81 @@
+import type { ReactNode } from "react";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { FormError } from "@/components/auth/FormError";
+import { LanguageSwitcher } from "@/components/auth/LanguageSwitcher";
+import { useI18n } from "@/i18n/i18n-context";
+import { usePortal } from "@/portal/portal-context";
+import logoLight from "@/assets/logo-light.png";
+
+type AuthLayoutProps = {
+  title: ReactNode;
+  description?: ReactNode;
+  /** Mostra "Verificando sessão…" enquanto o boot roda (login / cadastro) */
+  showBooting?: boolean;
+  contentClassName?: string;
+  children: ReactNode;
+};
+
+export function AuthLayout({ title, description, showBooting, contentClassName = "space-y-4", children }: AuthLayoutProps) {
+  const { booting, portalError, branding } = usePortal();
+  const { t } = useI18n();
+
+  // a imagem da marca cobre o gradiente padrão (a URL já foi validada em branding.ts)
+  const background = branding.backgroundImageUrl
+    ? { backgroundImage: `url("${branding.backgroundImageUrl}")`, backgroundSize: "cover", backgroundPosition: "center" }
+    : undefined;
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-accent/10 p-4"
+      style={background}
+    >
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <img src={branding.logoUrl ?? logoLight} alt={branding.productName} className="h-14 mx-auto mb-4" />
+          {showBooting && booting && (
+            <div className="mt-2 text-xs text-muted-foreground flex items-center justify-center gap-2">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              {t("common.checkingSession")}
+            </div>
+          )}
+        </div>
+
+        <Card className="border-0 shadow-xl">
+          <CardHeader className="space-y-1 pb-4">
+            <CardTitle className="text-2xl text-center">{title}</CardTitle>
+            {description && <CardDescription className="text-center">{description}</CardDescription>}
+          </CardHeader>
+
+          <CardContent className={contentClassName}>
+            {children}
+            {portalError && (
+              <div className="mt-4">
+                <FormError error={portalError} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="mt-6 space-y-3">
+          <LanguageSwitcher />
+          {(branding.supportUrl || branding.termsUrl) && (
+            <div className="flex items-center justify-center gap-4 text-xs">
+              {branding.supportUrl && (
+                <a href={branding.supportUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                  {t("common.support")}
+                </a>
+              )}
+              {branding.termsUrl && (
+                <a href={branding.termsUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                  {t("common.terms")}
+                </a>
+              )}
+            </div>
+          )}
+          <p className="text-center text-xs text-muted-foreground">{t("common.footer")}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
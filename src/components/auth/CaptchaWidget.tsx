@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "@/i18n/i18n-context";
+import { captchaConfig, type CaptchaConfig, type CaptchaWidgetHandle } from "@/lib/captcha";
+
+type CaptchaWidgetProps = {
+  /** `null` quando o token expira ou o desafio falha */
+  onToken: (token: string | null) => void;
+  /** Mudou = token usado; o widget pede um novo desafio */
+  resetKey?: number;
+  config?: CaptchaConfig | null;
+};
+
+export function CaptchaWidget({ onToken, resetKey = 0, config = captchaConfig }: CaptchaWidgetProps) {
+  const { t, locale } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const handleRef = useRef<CaptchaWidgetHandle | null>(null);
+  const onTokenRef = useRef(onToken);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    onTokenRef.current = onToken;
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!config || !container) return;
+    let cancelled = false;
+
+    config.provider
+      .render(container, {
+        siteKey: config.siteKey,
+        locale,
+        onToken: (token) => onTokenRef.current(token),
+        onExpire: () => onTokenRef.current(null),
+      })
+      .then((handle) => {
+        if (cancelled) handle.remove();
+        else handleRef.current = handle;
+      })
+      .catch((err) => {
+        console.error("[captcha]", err);
+        if (!cancelled) setLoadFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      handleRef.current?.remove();
+      handleRef.current = null;
+    };
+  }, [config, locale]);
+
+  useEffect(() => {
+    if (resetKey > 0) handleRef.current?.reset();
+  }, [resetKey]);
+
+  if (!config) return null;
+
+  return (
+    <div className="space-y-1">
+      <div ref={containerRef} className="flex justify-center" />
+      {loadFailed && <p className="text-sm text-destructive">{t("captcha.loadFailed")}</p>}
+    </div>
+  );
+}
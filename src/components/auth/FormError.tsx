@@ -0,0 +1,20 @@
+import type { AuthErrorDescription } from "@/auth/error-catalog";
+import { useI18n } from "@/i18n/i18n-context";
+import { Link } from "@/router/Link";
+
+export function FormError({ error }: { error: AuthErrorDescription | null }) {
+  const { t } = useI18n();
+  if (!error) return null;
+
+  return (
+    <div className="text-sm space-y-1" role="alert">
+      <p className="text-destructive">{t(error.message, error.values)}</p>
+      {error.hint && <p className="text-muted-foreground">{t(error.hint)}</p>}
+      {error.action && (
+        <Link to={error.action.to} params={error.action.params} className="text-primary hover:underline font-medium">
+          {t(error.action.label)}
+        </Link>
+      )}
+    </div>
+  );
+}
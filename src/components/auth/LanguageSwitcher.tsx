@@ -0,0 +1,25 @@
+import { Languages } from "lucide-react";
+import { LOCALE_LABELS, SUPPORTED_LOCALES, type Locale } from "@/i18n/i18n";
+import { useI18n } from "@/i18n/i18n-context";
+
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+      <Languages className="h-3.5 w-3.5" aria-hidden="true" />
+      <span className="sr-only">{t("common.language")}</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="bg-transparent text-xs text-muted-foreground hover:text-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring rounded-md px-1 py-0.5"
+      >
+        {SUPPORTED_LOCALES.map((l) => (
+          <option key={l} value={l}>
+            {LOCALE_LABELS[l]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,73 @@
+import type { ComponentType } from "react";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AppleIcon, FacebookIcon, GoogleIcon, MicrosoftIcon } from "@/components/auth/icons";
+import type { OAuthProvider } from "@/auth/types";
+import { enabledOAuthProviders, oauthProviders, type OAuthProviderConfig } from "@/lib/oauth-providers";
+
+// Chave `icon` da config -> componente. Provedor sem ícone próprio usa a chave genérica
+const ICONS: Record<string, ComponentType> = {
+  google: GoogleIcon,
+  facebook: FacebookIcon,
+  apple: AppleIcon,
+  microsoft: MicrosoftIcon,
+};
+
+function GenericIcon() {
+  return <KeyRound className="h-4 w-4" aria-hidden="true" />;
+}
+
+/** Ícone pelo id do provedor (lista de identidades ligadas) */
+export function ProviderIcon({ provider }: { provider: string }) {
+  const icon = oauthProviders.find((p) => p.id === provider)?.icon ?? provider;
+  const Icon = ICONS[icon] ?? GenericIcon;
+  return <Icon />;
+}
+
+type OAuthButtonsProps = {
+  disabled?: boolean;
+  onSelect: (provider: OAuthProvider) => void;
+  className?: string;
+  /** Default: os provedores ligados no ambiente */
+  providers?: OAuthProviderConfig[];
+};
+
+export function OAuthButtons({ disabled, onSelect, className, providers = enabledOAuthProviders }: OAuthButtonsProps) {
+  if (providers.length === 0) return null;
+
+  return (
+    <div className={className ?? "grid grid-cols-2 gap-3"}>
+      {providers.map((p, i) => {
+        const Icon = ICONS[p.icon] ?? GenericIcon;
+        // número ímpar de botões: o último ocupa a linha inteira
+        const fullRow = providers.length % 2 === 1 && i === providers.length - 1;
+        return (
+          <Button
+            key={p.id}
+            type="button"
+            variant="outline"
+            disabled={disabled}
+            onClick={() => onSelect(p.id)}
+            className={fullRow ? "col-span-2 gap-2" : "gap-2"}
+          >
+            <Icon />
+            {p.label}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
+
+export function AuthDivider({ label }: { label: string }) {
+  return (
+    <div className="relative my-6">
+      <div className="absolute inset-0 flex items-center">
+        <span className="w-full border-t" />
+      </div>
+      <div className="relative flex justify-center text-xs uppercase">
+        <span className="bg-card px-2 text-muted-foreground">{label}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { useState, type ComponentProps } from "react";
+import { Eye, EyeOff } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useI18n } from "@/i18n/i18n-context";
+
+type PasswordInputProps = Omit<ComponentProps<typeof Input>, "type">;
+
+export function PasswordInput({ disabled, ...props }: PasswordInputProps) {
+  const { t } = useI18n();
+  const [show, setShow] = useState(false);
+
+  return (
+    <div className="relative">
+      <Input type={show ? "text" : "password"} placeholder="••••••••" disabled={disabled} {...props} />
+      <button
+        type="button"
+        onClick={() => setShow((p) => !p)}
+        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+        disabled={disabled}
+        aria-label={show ? t("common.hidePassword") : t("common.showPassword")}
+      >
+        {show ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+      </button>
+    </div>
+  );
+}
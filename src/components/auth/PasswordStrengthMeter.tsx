@@ -0,0 +1,56 @@
+import { Check, X } from "lucide-react";
+import { useI18n } from "@/i18n/i18n-context";
+import type { MessageKey } from "@/i18n/i18n";
+import {
+  checkPasswordRules,
+  passwordPolicy,
+  passwordStrength,
+  type PasswordContext,
+  type PasswordPolicy,
+} from "@/lib/password-policy";
+import { cn } from "@/lib/utils";
+
+const LEVELS: { label: MessageKey; color: string }[] = [
+  { label: "password.strength.0", color: "bg-destructive" },
+  { label: "password.strength.1", color: "bg-destructive" },
+  { label: "password.strength.2", color: "bg-amber-500" },
+  { label: "password.strength.3", color: "bg-emerald-500" },
+  { label: "password.strength.4", color: "bg-emerald-600" },
+];
+
+type PasswordStrengthMeterProps = {
+  password: string;
+  context?: PasswordContext;
+  policy?: PasswordPolicy;
+};
+
+export function PasswordStrengthMeter({ password, context = {}, policy = passwordPolicy }: PasswordStrengthMeterProps) {
+  const { t } = useI18n();
+  if (!password) return null;
+
+  const rules = checkPasswordRules(password, context, policy);
+  // enquanto alguma regra obrigatória falha, o medidor não passa de "fraca"
+  const score = rules.every((r) => r.ok) ? passwordStrength(password, context) : Math.min(passwordStrength(password, context), 1);
+  const level = LEVELS[score];
+
+  return (
+    <div className="space-y-2" aria-live="polite">
+      <div className="flex gap-1" aria-hidden="true">
+        {[1, 2, 3, 4].map((i) => (
+          <span key={i} className={cn("h-1 flex-1 rounded-full", i <= Math.max(score, 1) ? level.color : "bg-muted")} />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t("password.strength.label")}: <span className="font-medium text-foreground">{t(level.label)}</span>
+      </p>
+      <ul className="space-y-0.5 text-xs">
+        {rules.map((r) => (
+          <li key={r.id} className={cn("flex items-center gap-1.5", r.ok ? "text-emerald-600" : "text-muted-foreground")}>
+            {r.ok ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {t(r.label, r.values)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Check, Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/i18n/i18n-context";
+
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  const text = codes.join("\n");
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch {
+      // clipboard bloqueado: o usuário ainda pode baixar ou copiar à mão
+    }
+  };
+
+  const download = () => {
+    const blob = new Blob([`${t("mfa.codes.fileHeader")}\n\n${text}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "flowodonto-codigos-de-recuperacao.txt";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <ul className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-4 font-mono text-sm">
+        {codes.map((c) => (
+          <li key={c} className="text-center">
+            {c}
+          </li>
+        ))}
+      </ul>
+      <div className="grid grid-cols-2 gap-2">
+        <Button type="button" variant="outline" onClick={copy}>
+          {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+          {copied ? t("mfa.codes.copied") : t("mfa.codes.copy")}
+        </Button>
+        <Button type="button" variant="outline" onClick={download}>
+          <Download className="mr-2 h-4 w-4" />
+          {t("mfa.codes.download")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import type { AuthErrorDescription } from "@/auth/error-catalog";
+import { clearAttempts, readAttempts, recordAttempt, type ThrottleAction } from "@/lib/attempt-throttle";
+import { captchaConfig, type CaptchaConfig } from "@/lib/captcha";
+
+/**
+ * Espera progressiva + CAPTCHA a partir do limite de tentativas.
+ * `identifier` é o e-mail digitado (conta junto com o total da ação).
+ * O token do CAPTCHA é de uso único: qualquer `record`/`reset` descarta e pede outro.
+ */
+export function useAttemptGuard(action: ThrottleAction, identifier: string, config: CaptchaConfig | null = captchaConfig) {
+  const [now, setNow] = useState(() => Date.now());
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [captchaResetKey, setCaptchaResetKey] = useState(0);
+
+  const { count, retryAt } = readAttempts(action, identifier, now);
+  const waitSeconds = Math.max(0, Math.ceil((retryAt - now) / 1000));
+  const captchaRequired = !!config && count >= config.afterAttempts;
+
+  useEffect(() => {
+    if (waitSeconds <= 0) return;
+    const t = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(t);
+  }, [waitSeconds, now]);
+
+  /** Chamar no submit, antes da requisição */
+  const check = (): AuthErrorDescription | null => {
+    const state = readAttempts(action, identifier);
+    const seconds = Math.ceil((state.retryAt - Date.now()) / 1000);
+    if (seconds > 0) return { message: "error.tooManyAttempts", values: { seconds } };
+    if (captchaRequired && !captchaToken) return { message: "validation.captchaRequired" };
+    return null;
+  };
+
+  const consumeCaptcha = useCallback(() => {
+    setCaptchaToken(null);
+    setCaptchaResetKey((k) => k + 1);
+    setNow(Date.now());
+  }, []);
+
+  const record = useCallback(() => {
+    recordAttempt(action, identifier);
+    consumeCaptcha();
+  }, [action, identifier, consumeCaptcha]);
+
+  const reset = useCallback(() => {
+    clearAttempts(action, identifier);
+    consumeCaptcha();
+  }, [action, identifier, consumeCaptcha]);
+
+  return {
+    waitSeconds,
+    captchaRequired,
+    /** Só vai para o backend quando o CAPTCHA está sendo exigido */
+    captchaToken: captchaRequired ? (captchaToken ?? undefined) : undefined,
+    captchaResetKey,
+    setCaptchaToken,
+    check,
+    record,
+    reset,
+  };
+}
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Contagem regressiva para botões de "reenviar" (e-mail, código).
+ * `startActive` já começa contando (a tela abre logo depois de um envio).
+ */
+export function useCooldown(seconds: number, startActive = false) {
+  const [until, setUntil] = useState(() => (startActive ? Date.now() + seconds * 1000 : 0));
+  const [now, setNow] = useState(() => Date.now());
+
+  const remaining = Math.max(0, Math.ceil((until - now) / 1000));
+
+  useEffect(() => {
+    if (remaining <= 0) return;
+    const t = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(t);
+  }, [remaining, now]);
+
+  const start = useCallback(() => {
+    const t = Date.now();
+    setNow(t);
+    setUntil(t + seconds * 1000);
+  }, [seconds]);
+
+  return { remaining, active: remaining > 0, start };
+}
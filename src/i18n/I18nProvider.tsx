@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { I18nContext, type I18nState } from "@/i18n/i18n-context";
+import { detectLocale, interpolate, LOCALE_PARAM, storeLocale, type Locale, type Messages } from "@/i18n/i18n";
+import { ptBR } from "@/i18n/messages/pt-BR";
+import { en } from "@/i18n/messages/en";
+import { es } from "@/i18n/messages/es";
+
+const CATALOGS: Record<Locale, Messages> = { "pt-BR": ptBR, en, es };
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(() => detectLocale(new URLSearchParams(window.location.search)));
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    storeLocale(next);
+    setLocaleState(next);
+
+    // mantém o ?lang= da barra de endereço em sincronia (reload / link copiado)
+    const u = new URL(window.location.href);
+    u.searchParams.set(LOCALE_PARAM, next);
+    window.history.replaceState(window.history.state, "", u.toString());
+  }, []);
+
+  const value = useMemo<I18nState>(() => {
+    const messages = CATALOGS[locale];
+    return {
+      locale,
+      setLocale,
+      t: (key, values) => interpolate(messages[key] ?? ptBR[key] ?? key, values),
+    };
+  }, [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
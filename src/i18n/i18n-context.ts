@@ -0,0 +1,16 @@
+import { createContext, useContext } from "react";
+import type { Locale, MessageKey, MessageValues } from "@/i18n/i18n";
+
+export type I18nState = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, values?: MessageValues) => string;
+};
+
+export const I18nContext = createContext<I18nState | null>(null);
+
+export function useI18n() {
+  const ctx = useContext(I18nContext);
+  if (!ctx) throw new Error("useI18n precisa estar dentro de <I18nProvider>");
+  return ctx;
+}
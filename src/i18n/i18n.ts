@@ -0,0 +1,72 @@
+import { ptBR } from "@/i18n/messages/pt-BR";
+
+/** =========================
+ * i18n: catálogos de mensagens + detecção de idioma
+ *
+ * Ordem da detecção: ?lang= > escolha salva (switcher) > navigator.languages > pt-BR
+ * ========================= */
+
+export type MessageKey = keyof typeof ptBR;
+export type Messages = Record<MessageKey, string>;
+export type MessageValues = Record<string, string | number>;
+
+export const SUPPORTED_LOCALES = ["pt-BR", "en", "es"] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "pt-BR";
+export const LOCALE_PARAM = "lang";
+const STORAGE_KEY = "flowodonto.lang";
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  "pt-BR": "Português",
+  en: "English",
+  es: "Español",
+};
+
+// "pt", "pt-PT", "en-US", "es-419"... -> idioma suportado mais próximo
+export function matchLocale(tag: string | null | undefined): Locale | null {
+  const t = (tag ?? "").trim().toLowerCase();
+  if (!t) return null;
+  const exact = SUPPORTED_LOCALES.find((l) => l.toLowerCase() === t);
+  if (exact) return exact;
+  const base = t.split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find((l) => l.toLowerCase().split("-")[0] === base) ?? null;
+}
+
+export function readStoredLocale(): Locale | null {
+  try {
+    return matchLocale(localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return null;
+  }
+}
+
+export function storeLocale(locale: Locale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // ignore
+  }
+}
+
+export function detectLocale(
+  params: URLSearchParams,
+  languages: readonly string[] = typeof navigator !== "undefined" ? navigator.languages ?? [navigator.language] : []
+): Locale {
+  const fromParam = matchLocale(params.get(LOCALE_PARAM));
+  if (fromParam) return fromParam;
+
+  const stored = readStoredLocale();
+  if (stored) return stored;
+
+  for (const lang of languages) {
+    const m = matchLocale(lang);
+    if (m) return m;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function interpolate(template: string, values?: MessageValues) {
+  if (!values) return template;
+  return template.replace(/\{(\w+)\}/g, (m, name: string) => (name in values ? String(values[name]) : m));
+}
@@ -0,0 +1,296 @@
+import type { Messages } from "@/i18n/i18n";
+
+export const en: Messages = {
+  "common.email": "Email",
+  "common.emailPlaceholder": "you@email.com",
+  "common.password": "Password",
+  "common.confirmPassword": "Confirm password",
+  "common.showPassword": "Show password",
+  "common.hidePassword": "Hide password",
+  "common.backToLogin": "Back to sign in",
+  "common.goToLogin": "Go to sign in",
+  "common.checkingSession": "Checking session…",
+  "common.footer": "© 2024 OdontoFlow. All rights reserved.",
+  "common.language": "Language",
+  "common.support": "Help",
+  "common.terms": "Terms of use",
+
+  "login.title": "Sign in",
+  "login.description": "Enter your credentials to continue",
+  "login.forgotPassword": "Forgot your password?",
+  "login.keepSignedIn": "Keep me signed in",
+  "login.sharedComputer": "Shared computer (front desk)",
+  "login.sharedComputerHint": "The session ends when you close the tab or after {minutes} minutes.",
+  "login.submit": "Sign in",
+  "login.submitting": "Signing in...",
+  "login.orContinueWith": "or continue with",
+  "login.noAccount": "Don't have an account?",
+  "login.signUp": "Sign up",
+  "login.passwordless": "Sign in without a password (email link or code)",
+  "login.error.fallback": "We couldn't sign you in. Please try again.",
+  "login.error.oauthFallback": "We couldn't sign you in with this provider.",
+
+  "signup.title": "Create account",
+  "signup.description": "Choose how you want to sign up",
+  "signup.orWithEmail": "or sign up with email",
+  "signup.name": "Full name",
+  "signup.namePlaceholder": "Dr. John Smith",
+  "signup.phone": "Phone (optional)",
+  "signup.cpf": "CPF (optional)",
+  "signup.cro": "CRO (optional)",
+  "signup.croPlaceholder": "Registration number",
+  "signup.croUf": "State",
+  "signup.submit": "Create account",
+  "signup.submitting": "Creating...",
+  "signup.haveAccount": "Already have an account?",
+  "signup.signIn": "Sign in",
+  "signup.error.fallback": "We couldn't create your account",
+  "signup.error.oauthFallback": "We couldn't continue with this provider.",
+
+  "passwordless.title": "Sign in without a password",
+  "passwordless.description": "We will email you a sign-in link and a 6-digit code",
+  "passwordless.submit": "Send link and code",
+  "passwordless.submitting": "Sending...",
+  "passwordless.codeTitle": "Enter the code",
+  "passwordless.codeSentTo": "We sent a 6-digit code to",
+  "passwordless.codeHint": "You can also click the link in the email to sign in directly.",
+  "passwordless.code": "Code",
+  "passwordless.verify": "Sign in",
+  "passwordless.verifying": "Verifying...",
+  "passwordless.resend": "Resend code",
+  "passwordless.resendIn": "Resend in {seconds}s",
+  "passwordless.resent": "We sent you a new code.",
+  "passwordless.changeEmail": "Use a different email",
+  "passwordless.usePassword": "Sign in with password",
+  "passwordless.error.fallback": "We couldn't send the code",
+  "passwordless.error.verifyFallback": "We couldn't verify the code",
+
+  "mfa.challenge.title": "Two-step verification",
+  "mfa.challenge.description": "Enter the 6-digit code from your authenticator app",
+  "mfa.code": "Code",
+  "mfa.verify": "Verify",
+  "mfa.verifying": "Verifying...",
+  "mfa.trustDevice": "Trust this device for {days} days (don't ask for the code here)",
+  "mfa.useRecoveryCode": "Use a recovery code",
+  "mfa.useAuthenticator": "Use the authenticator app",
+  "mfa.signOut": "Sign in with another account",
+  "mfa.recovery.title": "Recovery code",
+  "mfa.recovery.description": "Enter one of the codes you saved when you turned on two-step verification",
+  "mfa.recovery.code": "Recovery code",
+  "mfa.recovery.submit": "Use code",
+  "mfa.recovery.hint": "Each code works once. Two-step verification will be turned off and you can set it up again.",
+  "mfa.enroll.title": "Turn on two-step verification",
+  "mfa.enroll.description": "Your account needs a code from an authenticator app to access the system",
+  "mfa.enroll.scan": "Scan the QR code with Google Authenticator, Microsoft Authenticator or another compatible app and enter the code it shows.",
+  "mfa.enroll.qrAlt": "QR code for the authenticator app",
+  "mfa.enroll.manual": "Can't scan it? Enter this key in the app:",
+  "mfa.enroll.loading": "Preparing…",
+  "mfa.enroll.submit": "Turn on",
+  "mfa.enroll.retry": "Try again",
+  "mfa.enroll.optInDescription": "Ask for a code from an authenticator app, on top of your password, every time you sign in",
+  "mfa.enroll.notNow": "Not now",
+  "mfa.enroll.alreadyActive": "Two-step verification is already on for this account.",
+  "mfa.enroll.signedOut": "Sign in to turn on two-step verification.",
+  "mfa.codes.title": "Save your recovery codes",
+  "mfa.codes.description": "Use one of these codes if you lose access to your authenticator app. They won't be shown again.",
+  "mfa.codes.copy": "Copy",
+  "mfa.codes.copied": "Copied!",
+  "mfa.codes.download": "Download .txt",
+  "mfa.codes.confirm": "I saved the codes somewhere safe",
+  "mfa.codes.continue": "Continue",
+  "mfa.codes.fileHeader": "FlowOdonto recovery codes (each one works once)",
+  "mfa.error.fallback": "Could not verify the code",
+  "mfa.error.enrollFallback": "Could not start the setup",
+  "mfa.error.codesFallback": "Could not generate the recovery codes",
+
+  "organization.title": "Choose a clinic",
+  "organization.description": "You have access to more than one clinic. Which one do you want to open now?",
+  "organization.lastUsed": "Last used",
+  "organization.signOut": "Sign in with another account",
+
+  "logout.title": "Sign out of all devices?",
+  "logout.description": "This ends your session on every computer and phone, including this one. If you didn't ask for this, sign out of this device only.",
+  "logout.confirmAll": "Sign out of all devices",
+  "logout.thisDevice": "Sign out of this device only",
+
+  "invite.title": "Team invitation",
+  "invite.description": "Sign in or create your account to join the clinic.",
+  "invite.invalidTitle": "Invitation unavailable",
+  "invite.role": "Role: {role}",
+  "invite.role.owner": "Owner",
+  "invite.role.admin": "Administrator",
+  "invite.role.dentist": "Dentist",
+  "invite.role.receptionist": "Receptionist",
+  "invite.role.member": "Team member",
+  "invite.emailLocked": "The invitation is only valid for this email.",
+  "invite.signupSubmit": "Create account and accept",
+  "invite.loginSubmit": "Sign in and accept",
+  "invite.haveAccount": "Already have an account with this email?",
+  "invite.noAccount": "Don't have an account yet?",
+  "invite.createAccount": "Create account",
+  "invite.signedInAs": "You are signed in as {email}.",
+  "invite.otherAccount": "You are signed in as {current}, but the invitation is for {email}.",
+  "invite.accept": "Accept invitation",
+  "invite.accepting": "Accepting...",
+  "invite.switchAccount": "Sign out and continue with the invited email",
+  "invite.confirmationSent": "We sent a confirmation link to {email}.",
+  "invite.confirmationHint": "Open the link to confirm your email and finish joining the clinic.",
+  "invite.error.loadFallback": "We couldn't open the invitation.",
+  "invite.error.acceptFallback": "We couldn't accept the invitation.",
+
+  "accountLink.title": "Connect {provider} to your account",
+  "accountLink.description": "An account with this email already exists. Confirm with your password to also sign in with {provider}.",
+  "accountLink.submit": "Confirm and connect",
+  "accountLink.submitting": "Connecting...",
+  "accountLink.cancel": "Not now",
+  "accountLink.error.fallback": "We couldn't connect the account.",
+
+  "identities.title": "Sign-in methods",
+  "identities.description": "Accounts you can use to sign in to FlowOdonto.",
+  "identities.password": "Email and password",
+  "identities.unlink": "Disconnect",
+  "identities.unlinkConfirm": "Confirm",
+  "identities.lastOne": "Keep at least one way to sign in.",
+  "identities.connect": "connect another account",
+  "identities.backToApp": "Back to the app",
+  "identities.signedOut": "Sign in to manage your sign-in methods.",
+  "identities.mfa": "Two-step verification",
+  "identities.error.loadFallback": "We couldn't load your sign-in methods.",
+  "identities.error.unlinkFallback": "We couldn't disconnect it.",
+  "identities.error.linkFallback": "We couldn't connect that account.",
+
+  "checkEmail.title": "Confirm your email",
+  "checkEmail.sentTo": "We sent a confirmation link to",
+  "checkEmail.yourEmail": "your email",
+  "checkEmail.instructions": "Open your inbox and click the link to activate your account.",
+  "checkEmail.afterConfirm": "After that, you will be taken to the system automatically.",
+  "checkEmail.waiting": "Waiting for confirmation… this page will continue on its own.",
+  "checkEmail.notReceived": "Didn't get it? Check your spam folder or request another email.",
+  "checkEmail.resend": "Resend confirmation email",
+  "checkEmail.resending": "Resending...",
+  "checkEmail.resendIn": "Resend in {seconds}s",
+  "checkEmail.resent": "We sent a new confirmation email.",
+  "checkEmail.wrongEmail": "Wrong email?",
+  "checkEmail.changeEmail": "Fix it",
+  "checkEmail.error.resendFallback": "Could not resend the email",
+
+  "recovery.title": "Reset password",
+  "recovery.description": "Enter your email to receive a reset link",
+  "recovery.sentDescription": "Email sent! Check your inbox.",
+  "recovery.sentBody": "We sent you a link to reset your password. Click the link in the email to choose a new password.",
+  "recovery.submit": "Send reset link",
+  "recovery.submitting": "Sending...",
+  "recovery.error.fallback": "We couldn't send the reset email",
+
+  "newPassword.title": "New password",
+  "newPassword.description": "Enter your new password",
+  "newPassword.doneDescription": "Password updated successfully!",
+  "newPassword.doneBody": "Your password has been updated. Click below to sign in with your new password.",
+  "newPassword.password": "New password",
+  "newPassword.confirm": "Confirm new password",
+  "newPassword.submit": "Save new password",
+  "newPassword.submitting": "Saving...",
+  "newPassword.error.fallback": "We couldn't update your password",
+
+  "password.strength.label": "Password strength",
+  "password.strength.0": "Very weak",
+  "password.strength.1": "Weak",
+  "password.strength.2": "Fair",
+  "password.strength.3": "Good",
+  "password.strength.4": "Strong",
+  "password.rule.minLength": "At least {min} characters",
+  "password.rule.lowercase": "A lowercase letter",
+  "password.rule.uppercase": "An uppercase letter",
+  "password.rule.digit": "A number",
+  "password.rule.symbol": "A symbol (!, @, #, ...)",
+  "password.rule.personalInfo": "Not your name or email",
+
+  "throttle.retryIn": "Try again in {seconds}s",
+  "captcha.loadFailed": "We couldn't load the anti-bot check. Check your connection and reload the page.",
+
+  "notFound.title": "Page not found",
+  "notFound.description": "The address you opened does not exist.",
+
+  "validation.required": "Please fill in all fields",
+  "validation.nameTooShort": "Name must be at least 2 characters",
+  "validation.nameFull": "Enter your first and last name, letters only",
+  "validation.phoneInvalid": "Invalid phone. Use area code + number (mobile numbers have 9 digits)",
+  "validation.cpfInvalid": "Invalid CPF",
+  "validation.croInvalid": "Enter the CRO number and state",
+  "validation.emailInvalid": "Enter a valid email",
+  "validation.passwordTooShort": "Password must be at least {min} characters",
+  "validation.passwordLowercase": "The password needs at least one lowercase letter",
+  "validation.passwordUppercase": "The password needs at least one uppercase letter",
+  "validation.passwordDigit": "The password needs at least one number",
+  "validation.passwordSymbol": "The password needs at least one symbol",
+  "validation.passwordPersonalInfo": "The password can't contain your name or email",
+  "validation.passwordBreached": "This password has appeared in data breaches.",
+  "validation.passwordBreached.hint": "Choose another password — don't reuse passwords from other sites.",
+  "validation.passwordMismatch": "Passwords do not match",
+  "validation.codeInvalid": "Enter the 6 digits of the code",
+  "validation.captchaRequired": "Complete the anti-bot check to continue",
+
+  "error.link.fallback": "We couldn't validate the link from your email.",
+  "error.invalidCredentials": "Incorrect email or password.",
+  "error.invalidCredentials.hint": "Check what you typed.",
+  "error.emailNotConfirmed": "Your email has not been confirmed yet.",
+  "error.emailNotConfirmed.hint": "Open the link we sent you to activate your account.",
+  "error.userExists": "An account with this email already exists.",
+  "error.userExists.hint": "Sign in with your password or recover access.",
+  "error.weakPassword": "This password is too weak.",
+  "error.weakPassword.hint": "Use a longer password mixing letters, numbers and symbols.",
+  "error.samePassword": "The new password must be different from the current one.",
+  "error.rateLimited": "Too many attempts in a short time.",
+  "error.rateLimited.hint": "Wait a few minutes and try again.",
+  "error.tooManyAttempts": "Too many attempts in a row. Wait {seconds}s and try again.",
+  "error.captchaFailed": "We couldn't validate the anti-bot check.",
+  "error.captchaFailed.hint": "Redo the check and try again.",
+  "error.emailRateLimited": "We have already sent several emails to this address.",
+  "error.emailRateLimited.hint": "Wait a few minutes before requesting another one.",
+  "error.expiredLink": "This link has expired or was already used.",
+  "error.expiredLink.hint": "Request a new link and use it within 1 hour.",
+  "error.recoverySessionMissing": "Your session has expired.",
+  "error.recoverySessionMissing.hint": "Open the link from your email again or request a new one.",
+  "error.sessionExpired": "Your session has expired.",
+  "error.sessionExpired.hint": "Sign in again to continue.",
+  "error.network": "We couldn't reach the server.",
+  "error.network.hint": "Check your internet connection and try again.",
+  "error.signupDisabled": "Sign up is temporarily disabled.",
+  "error.contactSupport.hint": "Contact FlowOdonto support.",
+  "error.providerDisabled": "This sign-in method is not available.",
+  "error.providerDisabled.hint": "Sign in with email and password.",
+  "error.userBanned": "This account is blocked.",
+  "error.emailAddressInvalid": "This email address is not accepted.",
+  "error.emailAddressInvalid.hint": "Check that it was typed correctly.",
+  "error.handoffFailed": "We couldn't finish signing you into the system.",
+  "error.handoffFailed.hint": "Please try again in a moment.",
+  "error.invitationNotFound": "This invitation doesn't exist or the link is incomplete.",
+  "error.invitationExpired": "This invitation has expired.",
+  "error.invitationRequestNew.hint": "Ask the clinic administrator for a new invitation.",
+  "error.invitationAccepted": "This invitation has already been used.",
+  "error.invitationEmailMismatch": "This invitation is for another email.",
+  "error.invitationEmailMismatch.hint": "Sign in with the account of the email that received the invitation.",
+  "error.invitationAlreadyMember": "You are already a member of this clinic.",
+  "error.invitationAlreadyMember.hint": "The invitation doesn't change your role; ask the clinic administrator for that.",
+  "error.identityAlreadyExists": "That provider account is already linked to another login.",
+  "error.identityAlreadyExists.hint": "Use another provider account or disconnect it from the other login.",
+  "error.singleIdentity": "Your account must keep at least one way to sign in.",
+  "error.identityNotFound": "That sign-in method is no longer linked to your account.",
+  "error.linkingUnavailable": "Connecting accounts is not available right now.",
+  "error.invalidCode": "Invalid or expired code.",
+  "error.invalidCode.hint": "Check the code or request a new one.",
+  "error.accountNotFound": "We couldn't find an account with this email.",
+  "error.accountNotFound.hint": "Check the address or create an account.",
+  "error.mfaInvalidCode": "Wrong or expired code.",
+  "error.mfaInvalidCode.hint": "Check that your phone's clock is correct and enter the current code from the app.",
+  "error.recoveryCodeInvalid": "Invalid or already used recovery code.",
+  "error.recoveryCodeInvalid.hint": "Check the code you typed or contact support.",
+  "error.mfaUnavailable": "Two-step verification is not available right now.",
+  "error.mfaCheckFailed": "We couldn't check your session's security.",
+  "error.organizationsFailed": "We couldn't load your clinics.",
+  "error.action.forgotPassword": "I forgot my password",
+  "error.action.seeInstructions": "See instructions",
+  "error.action.goToLogin": "Go to sign in",
+  "error.action.requestNewLink": "Request a new link",
+  "error.action.signUp": "Create account",
+};
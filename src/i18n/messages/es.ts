@@ -0,0 +1,296 @@
+import type { Messages } from "@/i18n/i18n";
+
+export const es: Messages = {
+  "common.email": "Correo electrónico",
+  "common.emailPlaceholder": "tu@correo.com",
+  "common.password": "Contraseña",
+  "common.confirmPassword": "Confirmar contraseña",
+  "common.showPassword": "Mostrar contraseña",
+  "common.hidePassword": "Ocultar contraseña",
+  "common.backToLogin": "Volver al inicio de sesión",
+  "common.goToLogin": "Ir al inicio de sesión",
+  "common.checkingSession": "Verificando sesión…",
+  "common.footer": "© 2024 OdontoFlow. Todos los derechos reservados.",
+  "common.language": "Idioma",
+  "common.support": "Ayuda",
+  "common.terms": "Términos de uso",
+
+  "login.title": "Iniciar sesión",
+  "login.description": "Ingresa tus credenciales para acceder",
+  "login.forgotPassword": "¿Olvidaste tu contraseña?",
+  "login.keepSignedIn": "Mantener la sesión iniciada",
+  "login.sharedComputer": "Computadora compartida (recepción)",
+  "login.sharedComputerHint": "La sesión termina al cerrar la pestaña o en {minutes} minutos.",
+  "login.submit": "Iniciar sesión",
+  "login.submitting": "Ingresando...",
+  "login.orContinueWith": "o continúa con",
+  "login.noAccount": "¿No tienes una cuenta?",
+  "login.signUp": "Regístrate",
+  "login.passwordless": "Ingresar sin contraseña (enlace o código por correo)",
+  "login.error.fallback": "No fue posible iniciar sesión. Inténtalo de nuevo.",
+  "login.error.oauthFallback": "No fue posible iniciar sesión con este proveedor.",
+
+  "signup.title": "Crear cuenta",
+  "signup.description": "Elige cómo quieres registrarte",
+  "signup.orWithEmail": "o regístrate con correo",
+  "signup.name": "Nombre completo",
+  "signup.namePlaceholder": "Dr. Juan Pérez",
+  "signup.phone": "Teléfono (opcional)",
+  "signup.cpf": "CPF (opcional)",
+  "signup.cro": "CRO (opcional)",
+  "signup.croPlaceholder": "Número de inscripción",
+  "signup.croUf": "UF",
+  "signup.submit": "Crear cuenta",
+  "signup.submitting": "Creando...",
+  "signup.haveAccount": "¿Ya tienes cuenta?",
+  "signup.signIn": "Iniciar sesión",
+  "signup.error.fallback": "Error al crear la cuenta",
+  "signup.error.oauthFallback": "No fue posible continuar con este proveedor.",
+
+  "passwordless.title": "Ingresar sin contraseña",
+  "passwordless.description": "Te enviaremos un enlace de acceso y un código de 6 dígitos por correo",
+  "passwordless.submit": "Enviar enlace y código",
+  "passwordless.submitting": "Enviando...",
+  "passwordless.codeTitle": "Ingresa el código",
+  "passwordless.codeSentTo": "Enviamos un código de 6 dígitos a",
+  "passwordless.codeHint": "También puedes hacer clic en el enlace del correo para ingresar directamente.",
+  "passwordless.code": "Código",
+  "passwordless.verify": "Ingresar",
+  "passwordless.verifying": "Verificando...",
+  "passwordless.resend": "Reenviar código",
+  "passwordless.resendIn": "Reenviar en {seconds}s",
+  "passwordless.resent": "Te enviamos un nuevo código.",
+  "passwordless.changeEmail": "Usar otro correo",
+  "passwordless.usePassword": "Ingresar con contraseña",
+  "passwordless.error.fallback": "No fue posible enviar el código",
+  "passwordless.error.verifyFallback": "No fue posible validar el código",
+
+  "mfa.challenge.title": "Verificación en dos pasos",
+  "mfa.challenge.description": "Ingresa el código de 6 dígitos de tu aplicación de autenticación",
+  "mfa.code": "Código",
+  "mfa.verify": "Verificar",
+  "mfa.verifying": "Verificando...",
+  "mfa.trustDevice": "Confiar en este dispositivo por {days} días (no pedir el código aquí)",
+  "mfa.useRecoveryCode": "Usar un código de recuperación",
+  "mfa.useAuthenticator": "Usar la aplicación de autenticación",
+  "mfa.signOut": "Entrar con otra cuenta",
+  "mfa.recovery.title": "Código de recuperación",
+  "mfa.recovery.description": "Ingresa uno de los códigos que guardaste al activar la verificación en dos pasos",
+  "mfa.recovery.code": "Código de recuperación",
+  "mfa.recovery.submit": "Usar código",
+  "mfa.recovery.hint": "Cada código sirve una vez. La verificación en dos pasos se desactivará y podrás configurarla de nuevo.",
+  "mfa.enroll.title": "Activa la verificación en dos pasos",
+  "mfa.enroll.description": "Tu cuenta necesita un código de una aplicación de autenticación para acceder al sistema",
+  "mfa.enroll.scan": "Escanea el código QR con Google Authenticator, Microsoft Authenticator u otra aplicación compatible e ingresa el código generado.",
+  "mfa.enroll.qrAlt": "Código QR para la aplicación de autenticación",
+  "mfa.enroll.manual": "¿No puedes escanearlo? Ingresa esta clave en la aplicación:",
+  "mfa.enroll.loading": "Preparando…",
+  "mfa.enroll.submit": "Activar",
+  "mfa.enroll.retry": "Intentar de nuevo",
+  "mfa.enroll.optInDescription": "Además de la contraseña, pide un código de la aplicación de autenticación cada vez que entres",
+  "mfa.enroll.notNow": "Ahora no",
+  "mfa.enroll.alreadyActive": "La verificación en dos pasos ya está activa en esta cuenta.",
+  "mfa.enroll.signedOut": "Entra a tu cuenta para activar la verificación en dos pasos.",
+  "mfa.codes.title": "Guarda tus códigos de recuperación",
+  "mfa.codes.description": "Usa uno de estos códigos si pierdes el acceso a la aplicación de autenticación. No se mostrarán de nuevo.",
+  "mfa.codes.copy": "Copiar",
+  "mfa.codes.copied": "¡Copiado!",
+  "mfa.codes.download": "Descargar .txt",
+  "mfa.codes.confirm": "Guardé los códigos en un lugar seguro",
+  "mfa.codes.continue": "Continuar",
+  "mfa.codes.fileHeader": "Códigos de recuperación de FlowOdonto (cada uno sirve una vez)",
+  "mfa.error.fallback": "No se pudo validar el código",
+  "mfa.error.enrollFallback": "No se pudo iniciar la configuración",
+  "mfa.error.codesFallback": "No se pudieron generar los códigos de recuperación",
+
+  "organization.title": "Elige la clínica",
+  "organization.description": "Tienes acceso a más de una clínica. ¿Con cuál quieres entrar ahora?",
+  "organization.lastUsed": "Último acceso",
+  "organization.signOut": "Entrar con otra cuenta",
+
+  "logout.title": "¿Cerrar sesión en todos los dispositivos?",
+  "logout.description": "Esto cierra tu sesión en todas las computadoras y celulares, incluido este. Si no lo pediste, cierra sesión solo en este dispositivo.",
+  "logout.confirmAll": "Cerrar sesión en todos los dispositivos",
+  "logout.thisDevice": "Cerrar sesión solo en este dispositivo",
+
+  "invite.title": "Invitación al equipo",
+  "invite.description": "Inicia sesión o crea tu cuenta para unirte a la clínica.",
+  "invite.invalidTitle": "Invitación no disponible",
+  "invite.role": "Función: {role}",
+  "invite.role.owner": "Propietario(a)",
+  "invite.role.admin": "Administrador(a)",
+  "invite.role.dentist": "Dentista",
+  "invite.role.receptionist": "Recepcionista",
+  "invite.role.member": "Miembro del equipo",
+  "invite.emailLocked": "La invitación solo vale para este correo.",
+  "invite.signupSubmit": "Crear cuenta y aceptar",
+  "invite.loginSubmit": "Entrar y aceptar",
+  "invite.haveAccount": "¿Ya tienes cuenta con este correo?",
+  "invite.noAccount": "¿Aún no tienes cuenta?",
+  "invite.createAccount": "Crear cuenta",
+  "invite.signedInAs": "Has iniciado sesión como {email}.",
+  "invite.otherAccount": "Has iniciado sesión como {current}, pero la invitación es para {email}.",
+  "invite.accept": "Aceptar invitación",
+  "invite.accepting": "Aceptando...",
+  "invite.switchAccount": "Salir y continuar con el correo invitado",
+  "invite.confirmationSent": "Enviamos un enlace de confirmación a {email}.",
+  "invite.confirmationHint": "Abre el enlace para confirmar el correo y terminar de unirte a la clínica.",
+  "invite.error.loadFallback": "No pudimos abrir la invitación.",
+  "invite.error.acceptFallback": "No pudimos aceptar la invitación.",
+
+  "accountLink.title": "Conectar {provider} a tu cuenta",
+  "accountLink.description": "Ya existe una cuenta con este correo. Confirma con tu contraseña para entrar también con {provider}.",
+  "accountLink.submit": "Confirmar y conectar",
+  "accountLink.submitting": "Conectando...",
+  "accountLink.cancel": "Ahora no",
+  "accountLink.error.fallback": "No pudimos conectar la cuenta.",
+
+  "identities.title": "Formas de entrar",
+  "identities.description": "Cuentas que puedes usar para entrar a FlowOdonto.",
+  "identities.password": "Correo y contraseña",
+  "identities.unlink": "Desconectar",
+  "identities.unlinkConfirm": "Confirmar",
+  "identities.lastOne": "Mantén al menos una forma de entrar.",
+  "identities.connect": "conectar otra cuenta",
+  "identities.backToApp": "Volver al sistema",
+  "identities.signedOut": "Entra a tu cuenta para gestionar las formas de entrar.",
+  "identities.mfa": "Verificación en dos pasos",
+  "identities.error.loadFallback": "No pudimos cargar las formas de entrar.",
+  "identities.error.unlinkFallback": "No pudimos desconectarla.",
+  "identities.error.linkFallback": "No pudimos conectar esa cuenta.",
+
+  "checkEmail.title": "Confirma tu correo",
+  "checkEmail.sentTo": "Enviamos un enlace de confirmación a",
+  "checkEmail.yourEmail": "tu correo",
+  "checkEmail.instructions": "Abre tu bandeja de entrada y haz clic en el enlace para activar tu cuenta.",
+  "checkEmail.afterConfirm": "Después serás dirigido automáticamente al sistema.",
+  "checkEmail.waiting": "Esperando la confirmación… esta pantalla continuará sola.",
+  "checkEmail.notReceived": "¿No lo recibiste? Revisa el spam o pide otro correo.",
+  "checkEmail.resend": "Reenviar correo de confirmación",
+  "checkEmail.resending": "Reenviando...",
+  "checkEmail.resendIn": "Reenviar en {seconds}s",
+  "checkEmail.resent": "Enviamos un nuevo correo de confirmación.",
+  "checkEmail.wrongEmail": "¿Correo equivocado?",
+  "checkEmail.changeEmail": "Corregir",
+  "checkEmail.error.resendFallback": "No se pudo reenviar el correo",
+
+  "recovery.title": "Recuperar contraseña",
+  "recovery.description": "Ingresa tu correo para recibir el enlace de recuperación",
+  "recovery.sentDescription": "¡Correo enviado! Revisa tu bandeja de entrada.",
+  "recovery.sentBody": "Te enviamos un enlace para restablecer tu contraseña. Haz clic en el enlace del correo para crear una nueva.",
+  "recovery.submit": "Enviar enlace de recuperación",
+  "recovery.submitting": "Enviando...",
+  "recovery.error.fallback": "Error al enviar el correo de recuperación",
+
+  "newPassword.title": "Nueva contraseña",
+  "newPassword.description": "Ingresa tu nueva contraseña",
+  "newPassword.doneDescription": "¡Contraseña actualizada con éxito!",
+  "newPassword.doneBody": "Tu contraseña fue actualizada. Haz clic abajo para iniciar sesión con la nueva contraseña.",
+  "newPassword.password": "Nueva contraseña",
+  "newPassword.confirm": "Confirmar nueva contraseña",
+  "newPassword.submit": "Guardar nueva contraseña",
+  "newPassword.submitting": "Guardando...",
+  "newPassword.error.fallback": "Error al actualizar la contraseña",
+
+  "password.strength.label": "Seguridad de la contraseña",
+  "password.strength.0": "Muy débil",
+  "password.strength.1": "Débil",
+  "password.strength.2": "Aceptable",
+  "password.strength.3": "Buena",
+  "password.strength.4": "Fuerte",
+  "password.rule.minLength": "Al menos {min} caracteres",
+  "password.rule.lowercase": "Una letra minúscula",
+  "password.rule.uppercase": "Una letra mayúscula",
+  "password.rule.digit": "Un número",
+  "password.rule.symbol": "Un símbolo (!, @, #, ...)",
+  "password.rule.personalInfo": "Sin tu nombre ni correo",
+
+  "throttle.retryIn": "Inténtalo de nuevo en {seconds}s",
+  "captcha.loadFailed": "No pudimos cargar la verificación anti-robot. Revisa tu conexión y recarga la página.",
+
+  "notFound.title": "Página no encontrada",
+  "notFound.description": "La dirección que abriste no existe.",
+
+  "validation.required": "Completa todos los campos",
+  "validation.nameTooShort": "El nombre debe tener al menos 2 caracteres",
+  "validation.nameFull": "Ingresa nombre y apellido, solo con letras",
+  "validation.phoneInvalid": "Teléfono inválido. Usa DDD + número (celular con 9 dígitos)",
+  "validation.cpfInvalid": "CPF inválido",
+  "validation.croInvalid": "Ingresa el número del CRO y la UF",
+  "validation.emailInvalid": "Ingresa un correo válido",
+  "validation.passwordTooShort": "La contraseña debe tener al menos {min} caracteres",
+  "validation.passwordLowercase": "La contraseña necesita al menos una letra minúscula",
+  "validation.passwordUppercase": "La contraseña necesita al menos una letra mayúscula",
+  "validation.passwordDigit": "La contraseña necesita al menos un número",
+  "validation.passwordSymbol": "La contraseña necesita al menos un símbolo",
+  "validation.passwordPersonalInfo": "La contraseña no puede contener tu nombre ni tu correo",
+  "validation.passwordBreached": "Esta contraseña apareció en filtraciones de datos.",
+  "validation.passwordBreached.hint": "Elige otra contraseña — no reutilices contraseñas de otros sitios.",
+  "validation.passwordMismatch": "Las contraseñas no coinciden",
+  "validation.codeInvalid": "Ingresa los 6 dígitos del código",
+  "validation.captchaRequired": "Completa la verificación anti-robot para continuar",
+
+  "error.link.fallback": "No fue posible validar el enlace recibido por correo.",
+  "error.invalidCredentials": "Correo o contraseña incorrectos.",
+  "error.invalidCredentials.hint": "Revisa los datos ingresados.",
+  "error.emailNotConfirmed": "Tu correo aún no fue confirmado.",
+  "error.emailNotConfirmed.hint": "Abre el enlace que te enviamos para activar tu cuenta.",
+  "error.userExists": "Ya existe una cuenta con este correo.",
+  "error.userExists.hint": "Inicia sesión con tu contraseña o recupera el acceso.",
+  "error.weakPassword": "Esta contraseña es demasiado débil.",
+  "error.weakPassword.hint": "Usa una contraseña más larga, combinando letras, números y símbolos.",
+  "error.samePassword": "La nueva contraseña debe ser diferente de la actual.",
+  "error.rateLimited": "Demasiados intentos en poco tiempo.",
+  "error.rateLimited.hint": "Espera unos minutos e inténtalo de nuevo.",
+  "error.tooManyAttempts": "Demasiados intentos seguidos. Espera {seconds}s e inténtalo de nuevo.",
+  "error.captchaFailed": "No pudimos validar la verificación anti-robot.",
+  "error.captchaFailed.hint": "Vuelve a hacer la verificación e inténtalo de nuevo.",
+  "error.emailRateLimited": "Ya enviamos varios correos a esta dirección.",
+  "error.emailRateLimited.hint": "Espera unos minutos antes de pedir otro.",
+  "error.expiredLink": "Este enlace expiró o ya fue usado.",
+  "error.expiredLink.hint": "Pide un nuevo enlace y úsalo dentro de 1 hora.",
+  "error.recoverySessionMissing": "Tu sesión expiró.",
+  "error.recoverySessionMissing.hint": "Abre nuevamente el enlace recibido por correo o pide uno nuevo.",
+  "error.sessionExpired": "Tu sesión expiró.",
+  "error.sessionExpired.hint": "Inicia sesión nuevamente para continuar.",
+  "error.network": "No fue posible conectar con el servidor.",
+  "error.network.hint": "Revisa tu conexión a internet e inténtalo de nuevo.",
+  "error.signupDisabled": "El registro está temporalmente desactivado.",
+  "error.contactSupport.hint": "Contacta al soporte de FlowOdonto.",
+  "error.providerDisabled": "Este método de inicio de sesión no está disponible.",
+  "error.providerDisabled.hint": "Inicia sesión con correo y contraseña.",
+  "error.userBanned": "Esta cuenta está bloqueada.",
+  "error.emailAddressInvalid": "Esta dirección de correo no es aceptada.",
+  "error.emailAddressInvalid.hint": "Verifica que esté escrita correctamente.",
+  "error.handoffFailed": "No fue posible completar el acceso al sistema.",
+  "error.handoffFailed.hint": "Inténtalo de nuevo en unos instantes.",
+  "error.invitationNotFound": "Esta invitación no existe o el enlace está incompleto.",
+  "error.invitationExpired": "Esta invitación expiró.",
+  "error.invitationRequestNew.hint": "Pide una nueva invitación al administrador de la clínica.",
+  "error.invitationAccepted": "Esta invitación ya fue usada.",
+  "error.invitationEmailMismatch": "Esta invitación es para otro correo.",
+  "error.invitationEmailMismatch.hint": "Entra con la cuenta del correo que recibió la invitación.",
+  "error.invitationAlreadyMember": "Ya formas parte de esta clínica.",
+  "error.invitationAlreadyMember.hint": "La invitación no cambia tu rol; para eso, habla con el administrador de la clínica.",
+  "error.identityAlreadyExists": "Esa cuenta del proveedor ya está vinculada a otro acceso.",
+  "error.identityAlreadyExists.hint": "Usa otra cuenta del proveedor o desconéctala del otro acceso.",
+  "error.singleIdentity": "Tu cuenta debe mantener al menos una forma de entrar.",
+  "error.identityNotFound": "Esa forma de entrar ya no está vinculada a tu cuenta.",
+  "error.linkingUnavailable": "La conexión de cuentas no está disponible en este momento.",
+  "error.invalidCode": "Código inválido o expirado.",
+  "error.invalidCode.hint": "Revisa el código o pide uno nuevo.",
+  "error.accountNotFound": "No encontramos una cuenta con este correo.",
+  "error.accountNotFound.hint": "Revisa la dirección o crea una cuenta.",
+  "error.mfaInvalidCode": "Código incorrecto o vencido.",
+  "error.mfaInvalidCode.hint": "Verifica que la hora del celular sea correcta e ingresa el código actual de la aplicación.",
+  "error.recoveryCodeInvalid": "Código de recuperación inválido o ya usado.",
+  "error.recoveryCodeInvalid.hint": "Revisa el código ingresado o contacta al soporte.",
+  "error.mfaUnavailable": "La verificación en dos pasos no está disponible en este momento.",
+  "error.mfaCheckFailed": "No pudimos verificar la seguridad de tu sesión.",
+  "error.organizationsFailed": "No pudimos cargar tus clínicas.",
+  "error.action.forgotPassword": "Olvidé mi contraseña",
+  "error.action.seeInstructions": "Ver instrucciones",
+  "error.action.goToLogin": "Ir al inicio de sesión",
+  "error.action.requestNewLink": "Pedir un nuevo enlace",
+  "error.action.signUp": "Crear cuenta",
+};
@@ -0,0 +1,295 @@
+/** Catálogo base: as chaves daqui definem o tipo MessageKey; os outros idiomas precisam ter todas */
+export const ptBR = {
+  "common.email": "E-mail",
+  "common.emailPlaceholder": "seu@email.com",
+  "common.password": "Senha",
+  "common.confirmPassword": "Confirmar senha",
+  "common.showPassword": "Mostrar senha",
+  "common.hidePassword": "Ocultar senha",
+  "common.backToLogin": "Voltar para o login",
+  "common.goToLogin": "Ir para o login",
+  "common.checkingSession": "Verificando sessão…",
+  "common.footer": "© 2024 OdontoFlow. Todos os direitos reservados.",
+  "common.language": "Idioma",
+  "common.support": "Ajuda",
+  "common.terms": "Termos de uso",
+
+  "login.title": "Entrar",
+  "login.description": "Digite suas credenciais para acessar",
+  "login.forgotPassword": "Esqueceu a senha?",
+  "login.keepSignedIn": "Manter conectado",
+  "login.sharedComputer": "Computador compartilhado (recepção)",
+  "login.sharedComputerHint": "A sessão termina ao fechar a aba ou em {minutes} minutos.",
+  "login.submit": "Entrar",
+  "login.submitting": "Entrando...",
+  "login.orContinueWith": "ou continue com",
+  "login.noAccount": "Não tem uma conta?",
+  "login.signUp": "Cadastre-se",
+  "login.passwordless": "Entrar sem senha (link ou código por e-mail)",
+  "login.error.fallback": "Não foi possível entrar. Tente novamente.",
+  "login.error.oauthFallback": "Não foi possível entrar com esse provedor.",
+
+  "signup.title": "Criar conta",
+  "signup.description": "Escolha como deseja se cadastrar",
+  "signup.orWithEmail": "ou cadastre com email",
+  "signup.name": "Nome completo",
+  "signup.namePlaceholder": "Dr. João Silva",
+  "signup.phone": "Telefone (opcional)",
+  "signup.cpf": "CPF (opcional)",
+  "signup.cro": "CRO (opcional)",
+  "signup.croPlaceholder": "Número de inscrição",
+  "signup.croUf": "UF",
+  "signup.submit": "Criar conta",
+  "signup.submitting": "Criando...",
+  "signup.haveAccount": "Já tem conta?",
+  "signup.signIn": "Entrar",
+  "signup.error.fallback": "Erro ao criar conta",
+  "signup.error.oauthFallback": "Não foi possível continuar com esse provedor.",
+
+  "passwordless.title": "Entrar sem senha",
+  "passwordless.description": "Enviaremos um link de acesso e um código de 6 dígitos para o seu e-mail",
+  "passwordless.submit": "Enviar link e código",
+  "passwordless.submitting": "Enviando...",
+  "passwordless.codeTitle": "Digite o código",
+  "passwordless.codeSentTo": "Enviamos um código de 6 dígitos para",
+  "passwordless.codeHint": "Você também pode clicar no link do e-mail para entrar direto.",
+  "passwordless.code": "Código",
+  "passwordless.verify": "Entrar",
+  "passwordless.verifying": "Verificando...",
+  "passwordless.resend": "Reenviar código",
+  "passwordless.resendIn": "Reenviar em {seconds}s",
+  "passwordless.resent": "Enviamos um novo código.",
+  "passwordless.changeEmail": "Usar outro e-mail",
+  "passwordless.usePassword": "Entrar com senha",
+  "passwordless.error.fallback": "Não foi possível enviar o código",
+  "passwordless.error.verifyFallback": "Não foi possível validar o código",
+
+  "mfa.challenge.title": "Verificação em duas etapas",
+  "mfa.challenge.description": "Digite o código de 6 dígitos do seu aplicativo autenticador",
+  "mfa.code": "Código",
+  "mfa.verify": "Verificar",
+  "mfa.verifying": "Verificando...",
+  "mfa.trustDevice": "Confiar neste dispositivo por {days} dias (não pedir o código aqui)",
+  "mfa.useRecoveryCode": "Usar código de recuperação",
+  "mfa.useAuthenticator": "Usar o aplicativo autenticador",
+  "mfa.signOut": "Entrar com outra conta",
+  "mfa.recovery.title": "Código de recuperação",
+  "mfa.recovery.description": "Digite um dos códigos que você guardou ao ativar a verificação em duas etapas",
+  "mfa.recovery.code": "Código de recuperação",
+  "mfa.recovery.submit": "Usar código",
+  "mfa.recovery.hint": "Cada código vale uma vez. A verificação em duas etapas será desativada e você poderá configurá-la de novo.",
+  "mfa.enroll.title": "Ative a verificação em duas etapas",
+  "mfa.enroll.description": "Sua conta precisa de um código do aplicativo autenticador para acessar o sistema",
+  "mfa.enroll.scan": "Escaneie o QR code com o Google Authenticator, Microsoft Authenticator ou outro aplicativo compatível e digite o código gerado.",
+  "mfa.enroll.qrAlt": "QR code para o aplicativo autenticador",
+  "mfa.enroll.manual": "Não consegue escanear? Digite esta chave no aplicativo:",
+  "mfa.enroll.loading": "Preparando…",
+  "mfa.enroll.submit": "Ativar",
+  "mfa.enroll.retry": "Tentar novamente",
+  "mfa.enroll.optInDescription": "Além da senha, peça um código do aplicativo autenticador sempre que entrar",
+  "mfa.enroll.notNow": "Agora não",
+  "mfa.enroll.alreadyActive": "A verificação em duas etapas já está ativa nesta conta.",
+  "mfa.enroll.signedOut": "Entre na sua conta para ativar a verificação em duas etapas.",
+  "mfa.codes.title": "Guarde seus códigos de recuperação",
+  "mfa.codes.description": "Use um destes códigos se perder o acesso ao aplicativo autenticador. Eles não serão mostrados de novo.",
+  "mfa.codes.copy": "Copiar",
+  "mfa.codes.copied": "Copiado!",
+  "mfa.codes.download": "Baixar .txt",
+  "mfa.codes.confirm": "Guardei os códigos em um lugar seguro",
+  "mfa.codes.continue": "Continuar",
+  "mfa.codes.fileHeader": "Códigos de recuperação FlowOdonto (cada um vale uma vez)",
+  "mfa.error.fallback": "Não foi possível validar o código",
+  "mfa.error.enrollFallback": "Não foi possível iniciar a configuração",
+  "mfa.error.codesFallback": "Não foi possível gerar os códigos de recuperação",
+
+  "organization.title": "Escolha a clínica",
+  "organization.description": "Você tem acesso a mais de uma clínica. Com qual quer entrar agora?",
+  "organization.lastUsed": "Último acesso",
+  "organization.signOut": "Entrar com outra conta",
+
+  "logout.title": "Sair de todos os dispositivos?",
+  "logout.description": "Isso encerra a sua sessão em todos os computadores e celulares, inclusive neste. Se você não pediu isso, saia só deste dispositivo.",
+  "logout.confirmAll": "Sair de todos os dispositivos",
+  "logout.thisDevice": "Sair só deste dispositivo",
+
+  "invite.title": "Convite para a equipe",
+  "invite.description": "Entre ou crie sua conta para fazer parte da clínica.",
+  "invite.invalidTitle": "Convite indisponível",
+  "invite.role": "Função: {role}",
+  "invite.role.owner": "Proprietário(a)",
+  "invite.role.admin": "Administrador(a)",
+  "invite.role.dentist": "Dentista",
+  "invite.role.receptionist": "Recepcionista",
+  "invite.role.member": "Membro da equipe",
+  "invite.emailLocked": "O convite vale só para este e-mail.",
+  "invite.signupSubmit": "Criar conta e aceitar",
+  "invite.loginSubmit": "Entrar e aceitar",
+  "invite.haveAccount": "Já tem conta com este e-mail?",
+  "invite.noAccount": "Ainda não tem conta?",
+  "invite.createAccount": "Criar conta",
+  "invite.signedInAs": "Você está conectado como {email}.",
+  "invite.otherAccount": "Você está conectado como {current}, mas o convite é para {email}.",
+  "invite.accept": "Aceitar convite",
+  "invite.accepting": "Aceitando...",
+  "invite.switchAccount": "Sair e continuar com o e-mail do convite",
+  "invite.confirmationSent": "Enviamos um link de confirmação para {email}.",
+  "invite.confirmationHint": "Abra o link para confirmar o e-mail e concluir a entrada na clínica.",
+  "invite.error.loadFallback": "Não foi possível abrir o convite.",
+  "invite.error.acceptFallback": "Não foi possível aceitar o convite.",
+
+  "accountLink.title": "Conectar {provider} à sua conta",
+  "accountLink.description": "Já existe uma conta com este e-mail. Confirme com a sua senha para também entrar com {provider}.",
+  "accountLink.submit": "Confirmar e conectar",
+  "accountLink.submitting": "Conectando...",
+  "accountLink.cancel": "Agora não",
+  "accountLink.error.fallback": "Não foi possível conectar a conta.",
+
+  "identities.title": "Formas de entrar",
+  "identities.description": "Contas que você pode usar para entrar no FlowOdonto.",
+  "identities.password": "E-mail e senha",
+  "identities.unlink": "Desconectar",
+  "identities.unlinkConfirm": "Confirmar",
+  "identities.lastOne": "Mantenha pelo menos uma forma de entrar.",
+  "identities.connect": "conectar outra conta",
+  "identities.backToApp": "Voltar para o sistema",
+  "identities.signedOut": "Entre na sua conta para gerenciar as formas de entrar.",
+  "identities.mfa": "Verificação em duas etapas",
+  "identities.error.loadFallback": "Não foi possível carregar as formas de entrar.",
+  "identities.error.unlinkFallback": "Não foi possível desconectar.",
+  "identities.error.linkFallback": "Não foi possível conectar essa conta.",
+
+  "checkEmail.title": "Confirme seu e-mail",
+  "checkEmail.sentTo": "Enviamos um link de confirmação para",
+  "checkEmail.yourEmail": "seu e-mail",
+  "checkEmail.instructions": "Abra sua caixa de entrada e clique no link para ativar sua conta.",
+  "checkEmail.afterConfirm": "Depois disso, você será direcionado automaticamente para o sistema.",
+  "checkEmail.waiting": "Aguardando a confirmação… esta tela continua sozinha.",
+  "checkEmail.notReceived": "Não recebeu? Confira o spam ou peça outro e-mail.",
+  "checkEmail.resend": "Reenviar e-mail de confirmação",
+  "checkEmail.resending": "Reenviando...",
+  "checkEmail.resendIn": "Reenviar em {seconds}s",
+  "checkEmail.resent": "Enviamos um novo e-mail de confirmação.",
+  "checkEmail.wrongEmail": "E-mail errado?",
+  "checkEmail.changeEmail": "Corrigir",
+  "checkEmail.error.resendFallback": "Não foi possível reenviar o e-mail",
+
+  "recovery.title": "Recuperar senha",
+  "recovery.description": "Digite seu e-mail para receber o link de recuperação",
+  "recovery.sentDescription": "E-mail enviado! Verifique sua caixa de entrada.",
+  "recovery.sentBody": "Enviamos um link para redefinir sua senha. Clique no link dentro do e-mail para criar uma nova senha.",
+  "recovery.submit": "Enviar link de recuperação",
+  "recovery.submitting": "Enviando...",
+  "recovery.error.fallback": "Erro ao enviar e-mail de recuperação",
+
+  "newPassword.title": "Nova senha",
+  "newPassword.description": "Digite sua nova senha",
+  "newPassword.doneDescription": "Senha atualizada com sucesso!",
+  "newPassword.doneBody": "Sua senha foi atualizada. Clique abaixo para fazer login com a nova senha.",
+  "newPassword.password": "Nova senha",
+  "newPassword.confirm": "Confirmar nova senha",
+  "newPassword.submit": "Salvar nova senha",
+  "newPassword.submitting": "Salvando...",
+  "newPassword.error.fallback": "Erro ao atualizar senha",
+
+  "password.strength.label": "Força da senha",
+  "password.strength.0": "Muito fraca",
+  "password.strength.1": "Fraca",
+  "password.strength.2": "Razoável",
+  "password.strength.3": "Boa",
+  "password.strength.4": "Forte",
+  "password.rule.minLength": "Pelo menos {min} caracteres",
+  "password.rule.lowercase": "Uma letra minúscula",
+  "password.rule.uppercase": "Uma letra maiúscula",
+  "password.rule.digit": "Um número",
+  "password.rule.symbol": "Um símbolo (!, @, #, ...)",
+  "password.rule.personalInfo": "Sem seu nome ou e-mail",
+
+  "throttle.retryIn": "Tente de novo em {seconds}s",
+  "captcha.loadFailed": "Não foi possível carregar a verificação anti-robô. Confira sua conexão e recarregue a página.",
+
+  "notFound.title": "Página não encontrada",
+  "notFound.description": "O endereço que você acessou não existe.",
+
+  "validation.required": "Preencha todos os campos",
+  "validation.nameTooShort": "Nome deve ter no mínimo 2 caracteres",
+  "validation.nameFull": "Digite nome e sobrenome, só com letras",
+  "validation.phoneInvalid": "Telefone inválido. Use DDD + número (celular com 9 dígitos)",
+  "validation.cpfInvalid": "CPF inválido",
+  "validation.croInvalid": "Informe o número do CRO e a UF",
+  "validation.emailInvalid": "Digite um e-mail válido",
+  "validation.passwordTooShort": "A senha deve ter no mínimo {min} caracteres",
+  "validation.passwordLowercase": "A senha precisa ter ao menos uma letra minúscula",
+  "validation.passwordUppercase": "A senha precisa ter ao menos uma letra maiúscula",
+  "validation.passwordDigit": "A senha precisa ter ao menos um número",
+  "validation.passwordSymbol": "A senha precisa ter ao menos um símbolo",
+  "validation.passwordPersonalInfo": "A senha não pode conter seu nome ou e-mail",
+  "validation.passwordBreached": "Essa senha já apareceu em vazamentos de dados.",
+  "validation.passwordBreached.hint": "Escolha outra senha — não reutilize senhas de outros sites.",
+  "validation.passwordMismatch": "As senhas não coincidem",
+  "validation.codeInvalid": "Digite os 6 dígitos do código",
+  "validation.captchaRequired": "Confirme a verificação anti-robô para continuar",
+
+  "error.link.fallback": "Não foi possível validar o link recebido por e-mail.",
+  "error.invalidCredentials": "E-mail ou senha incorretos.",
+  "error.invalidCredentials.hint": "Confira os dados digitados.",
+  "error.emailNotConfirmed": "Seu e-mail ainda não foi confirmado.",
+  "error.emailNotConfirmed.hint": "Abra o link que enviamos para ativar sua conta.",
+  "error.userExists": "Já existe uma conta com este e-mail.",
+  "error.userExists.hint": "Entre com sua senha ou recupere o acesso.",
+  "error.weakPassword": "Essa senha é fraca demais.",
+  "error.weakPassword.hint": "Use uma senha mais longa, misturando letras, números e símbolos.",
+  "error.samePassword": "A nova senha precisa ser diferente da atual.",
+  "error.rateLimited": "Muitas tentativas em pouco tempo.",
+  "error.rateLimited.hint": "Aguarde alguns minutos e tente novamente.",
+  "error.tooManyAttempts": "Muitas tentativas seguidas. Aguarde {seconds}s e tente de novo.",
+  "error.captchaFailed": "Não foi possível validar a verificação anti-robô.",
+  "error.captchaFailed.hint": "Refaça a verificação e tente novamente.",
+  "error.emailRateLimited": "Já enviamos vários e-mails para este endereço.",
+  "error.emailRateLimited.hint": "Aguarde alguns minutos antes de pedir outro.",
+  "error.expiredLink": "Este link expirou ou já foi usado.",
+  "error.expiredLink.hint": "Peça um novo link e use-o em até 1 hora.",
+  "error.recoverySessionMissing": "Sua sessão expirou.",
+  "error.recoverySessionMissing.hint": "Abra novamente o link recebido por e-mail ou peça um novo.",
+  "error.sessionExpired": "Sua sessão expirou.",
+  "error.sessionExpired.hint": "Entre novamente para continuar.",
+  "error.network": "Não foi possível conectar ao servidor.",
+  "error.network.hint": "Verifique sua conexão com a internet e tente novamente.",
+  "error.signupDisabled": "O cadastro está temporariamente desativado.",
+  "error.contactSupport.hint": "Fale com o suporte da FlowOdonto.",
+  "error.providerDisabled": "Esse método de login não está disponível.",
+  "error.providerDisabled.hint": "Entre com e-mail e senha.",
+  "error.userBanned": "Esta conta está bloqueada.",
+  "error.emailAddressInvalid": "Este endereço de e-mail não é aceito.",
+  "error.emailAddressInvalid.hint": "Confira se foi digitado corretamente.",
+  "error.handoffFailed": "Não foi possível concluir o acesso ao sistema.",
+  "error.handoffFailed.hint": "Tente novamente em instantes.",
+  "error.invitationNotFound": "Este convite não existe ou o link está incompleto.",
+  "error.invitationExpired": "Este convite expirou.",
+  "error.invitationRequestNew.hint": "Peça um novo convite ao administrador da clínica.",
+  "error.invitationAccepted": "Este convite já foi usado.",
+  "error.invitationEmailMismatch": "Este convite é para outro e-mail.",
+  "error.invitationEmailMismatch.hint": "Entre com a conta do e-mail que recebeu o convite.",
+  "error.invitationAlreadyMember": "Você já faz parte desta clínica.",
+  "error.invitationAlreadyMember.hint": "O convite não muda o seu papel; para isso, fale com o administrador da clínica.",
+  "error.identityAlreadyExists": "Essa conta do provedor já está ligada a outro acesso.",
+  "error.identityAlreadyExists.hint": "Use outra conta do provedor ou desconecte-a no outro acesso.",
+  "error.singleIdentity": "Sua conta precisa manter pelo menos uma forma de entrar.",
+  "error.identityNotFound": "Essa forma de entrar não está mais ligada à sua conta.",
+  "error.linkingUnavailable": "A conexão de contas não está disponível no momento.",
+  "error.invalidCode": "Código inválido ou expirado.",
+  "error.invalidCode.hint": "Confira o código ou peça um novo.",
+  "error.accountNotFound": "Não encontramos uma conta com este e-mail.",
+  "error.accountNotFound.hint": "Confira o endereço ou crie uma conta.",
+  "error.mfaInvalidCode": "Código incorreto ou expirado.",
+  "error.mfaInvalidCode.hint": "Confira se o horário do celular está certo e digite o código atual do aplicativo.",
+  "error.recoveryCodeInvalid": "Código de recuperação inválido ou já usado.",
+  "error.recoveryCodeInvalid.hint": "Confira o código digitado ou fale com o suporte.",
+  "error.mfaUnavailable": "A verificação em duas etapas não está disponível no momento.",
+  "error.mfaCheckFailed": "Não foi possível verificar a segurança da sua sessão.",
+  "error.organizationsFailed": "Não foi possível carregar suas clínicas.",
+  "error.action.forgotPassword": "Esqueci minha senha",
+  "error.action.seeInstructions": "Ver instruções",
+  "error.action.goToLogin": "Ir para o login",
+  "error.action.requestNewLink": "Pedir novo link",
+  "error.action.signUp": "Criar conta",
+} as const;
@@ -0,0 +1,70 @@
+import type { AuthError, OAuthProvider } from "@/auth/types";
+
+/** =========================
+ * Vinculação de contas (senha + Google/Facebook/...)
+ *
+ * Quem se cadastrou com senha e depois clica no Google com o mesmo e-mail pode
+ * voltar do GoTrue com erro de conflito (conta sem e-mail confirmado, vinculação
+ * automática desligada). O erro volta no hash sem dizer qual provedor foi usado,
+ * então o portal anota a tentativa antes de sair para o provedor.
+ *
+ * Fica no sessionStorage: só esta aba, e vale por pouco tempo.
+ * ========================= */
+
+const ATTEMPT_KEY = "flowodonto.oauthAttempt";
+const MAX_AGE_MS = 15 * 60_000;
+
+/** "sign_in": botão do login/cadastro; "link": vinculação com sessão ativa */
+export type OAuthAttemptMode = "sign_in" | "link";
+
+export type OAuthAttempt = {
+  provider: OAuthProvider;
+  mode: OAuthAttemptMode;
+  at: number;
+};
+
+/** Conflito que abre a tela de vinculação (o provedor ainda não está ligado à conta) */
+export type AccountLinkRequest = {
+  provider: OAuthProvider;
+};
+
+// Códigos / mensagens do GoTrue para "já existe conta com este e-mail"
+const CONFLICT_CODES = new Set(["email_exists", "user_already_exists"]);
+const CONFLICT_MESSAGE = /multiple accounts|already (registered|exists)/i;
+
+export function rememberOAuthAttempt(provider: OAuthProvider, mode: OAuthAttemptMode, now = Date.now()) {
+  try {
+    sessionStorage.setItem(ATTEMPT_KEY, JSON.stringify({ provider, mode, at: now }));
+  } catch {
+    // sem storage: o conflito cai na mensagem genérica de erro
+  }
+}
+
+export function readOAuthAttempt(now = Date.now()): OAuthAttempt | null {
+  try {
+    const parsed = JSON.parse(sessionStorage.getItem(ATTEMPT_KEY) ?? "null");
+    if (!parsed || typeof parsed.provider !== "string" || typeof parsed.at !== "number") return null;
+    if (now - parsed.at > MAX_AGE_MS) return null;
+    return { provider: parsed.provider, mode: parsed.mode === "link" ? "link" : "sign_in", at: parsed.at };
+  } catch {
+    return null;
+  }
+}
+
+export function clearOAuthAttempt() {
+  try {
+    sessionStorage.removeItem(ATTEMPT_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+export function isAccountConflict(error: AuthError) {
+  return CONFLICT_CODES.has(error.code) || CONFLICT_MESSAGE.test(error.message);
+}
+
+/** Só o retorno de um login OAuth vira vinculação; erro na própria vinculação segue como erro */
+export function accountLinkFromError(error: AuthError, attempt: OAuthAttempt | null): AccountLinkRequest | null {
+  if (!attempt || attempt.mode !== "sign_in" || !isAccountConflict(error)) return null;
+  return { provider: attempt.provider };
+}
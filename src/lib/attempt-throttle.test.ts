@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { backoffMs, clearAttempts, readAttempts, recordAttempt } from "@/lib/attempt-throttle";
+
+const T0 = Date.UTC(2026, 9, 19, 12);
+
+function fail(times: number, identifier = "ana@clinica.com", now = T0) {
+  for (let i = 0; i < times; i++) recordAttempt("login", identifier, now);
+}
+
+describe("backoffMs", () => {
+  it.each([
+    [0, 0],
+    [2, 0],
+    [3, 2000],
+    [4, 4000],
+    [5, 8000],
+    [10, 256_000],
+    [11, 300_000],
+    [50, 300_000],
+  ])("%i tentativas → %i ms", (count, ms) => {
+    expect(backoffMs(count)).toBe(ms);
+  });
+});
+
+describe("contador de tentativas", () => {
+  it("espera conta a partir da última tentativa", () => {
+    fail(4);
+    expect(readAttempts("login", "ana@clinica.com", T0)).toEqual({ count: 4, retryAt: T0 + 4000 });
+  });
+
+  it("e-mail normalizado conta junto", () => {
+    fail(2, "ana@clinica.com");
+    fail(1, "  ANA@Clinica.com ");
+    expect(readAttempts("login", "ana@clinica.com", T0).count).toBe(3);
+  });
+
+  it("trocar de e-mail não zera o total da ação", () => {
+    fail(2, "ana@clinica.com");
+    fail(2, "bia@clinica.com");
+    expect(readAttempts("login", "caio@clinica.com", T0)).toEqual({ count: 4, retryAt: T0 + 4000 });
+  });
+
+  it("ações são independentes", () => {
+    fail(5);
+    expect(readAttempts("signup", "ana@clinica.com", T0).count).toBe(0);
+  });
+
+  it("zera depois de uma hora sem tentativa", () => {
+    fail(5);
+    expect(readAttempts("login", "ana@clinica.com", T0 + 60 * 60_000).count).toBe(5);
+    expect(readAttempts("login", "ana@clinica.com", T0 + 60 * 60_000 + 1).count).toBe(0);
+  });
+
+  it("clearAttempts zera o e-mail e o total", () => {
+    fail(5, "ana@clinica.com", Date.now());
+    clearAttempts("login", "ana@clinica.com");
+    expect(readAttempts("login", "ana@clinica.com").count).toBe(0);
+    expect(readAttempts("login", "").count).toBe(0);
+  });
+
+  it("storage corrompido vale como vazio", () => {
+    localStorage.setItem("flowodonto.attempts", "{quebrado");
+    expect(readAttempts("login", "ana@clinica.com", T0)).toEqual({ count: 0, retryAt: 0 });
+    fail(1);
+    expect(readAttempts("login", "ana@clinica.com", T0).count).toBe(1);
+  });
+});
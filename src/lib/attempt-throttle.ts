@@ -0,0 +1,83 @@
+/** =========================
+ * Contador de tentativas (login, cadastro, recuperação) com espera progressiva
+ *
+ * Só no navegador: freia o usuário/robô ingênuo e decide quando pedir
+ * CAPTCHA. A proteção de verdade é o rate limit + CAPTCHA do Supabase Auth.
+ *
+ * Conta por e-mail e também no total da ação (trocar de e-mail não zera).
+ * ========================= */
+
+export type ThrottleAction = "login" | "signup" | "recovery";
+
+export type AttemptState = {
+  count: number;
+  /** epoch ms; antes disso o envio fica bloqueado */
+  retryAt: number;
+};
+
+type Entry = { count: number; last: number };
+
+const STORAGE_KEY = "flowodonto.attempts";
+/** Tentativas sem espera */
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60_000;
+/** Sem tentativa nesse tempo, o contador zera */
+const RESET_AFTER_MS = 60 * 60_000;
+
+export function backoffMs(count: number) {
+  if (count < FREE_ATTEMPTS) return 0;
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (count - FREE_ATTEMPTS));
+}
+
+function readAll(now: number): Record<string, Entry> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") as Record<string, Entry>;
+    for (const [k, e] of Object.entries(parsed)) {
+      if (!e || typeof e.count !== "number" || now - e.last > RESET_AFTER_MS) delete parsed[k];
+    }
+    return parsed;
+  } catch {
+    return {};
+  }
+}
+
+function writeAll(entries: Record<string, Entry>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // storage indisponível: sem contador (o servidor ainda limita)
+  }
+}
+
+function keysFor(action: ThrottleAction, identifier: string) {
+  const id = identifier.trim().toLowerCase();
+  return id ? [`${action}:*`, `${action}:${id}`] : [`${action}:*`];
+}
+
+export function readAttempts(action: ThrottleAction, identifier: string, now = Date.now()): AttemptState {
+  const all = readAll(now);
+  let worst: AttemptState = { count: 0, retryAt: 0 };
+  for (const k of keysFor(action, identifier)) {
+    const e = all[k];
+    if (!e) continue;
+    const retryAt = e.last + backoffMs(e.count);
+    if (e.count > worst.count) worst = { count: e.count, retryAt };
+  }
+  return worst;
+}
+
+export function recordAttempt(action: ThrottleAction, identifier: string, now = Date.now()) {
+  const all = readAll(now);
+  for (const k of keysFor(action, identifier)) {
+    all[k] = { count: (all[k]?.count ?? 0) + 1, last: now };
+  }
+  writeAll(all);
+}
+
+/** Login certo zera o e-mail e o total da ação */
+export function clearAttempts(action: ThrottleAction, identifier: string) {
+  const all = readAll(Date.now());
+  for (const k of keysFor(action, identifier)) delete all[k];
+  writeAll(all);
+}
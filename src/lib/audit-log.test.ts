@@ -0,0 +1,213 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuthUser } from "@/auth/types";
+import { createAuditLog, hashEmail, type AuditEvent, type AuditLogOptions } from "@/lib/audit-log";
+import { createMemoryAuditSink, type AuditSendResult, type AuditSink } from "@/lib/audit-sinks";
+
+const QUEUE_KEY = "flowodonto.audit.queue";
+const ANA: AuthUser = { id: "u1", email: "ana@clinica.com", metadata: {}, emailConfirmed: true, roles: [] };
+
+/** Storage próprio por teste: os listeners de `online`/`pagehide` dos logs anteriores continuam na window */
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (k: string) => items.get(k) ?? null,
+    setItem: (k: string, v: string) => void items.set(k, v),
+    removeItem: (k: string) => void items.delete(k),
+  } as Storage;
+}
+
+function queued(storage: Storage): AuditEvent[] {
+  return JSON.parse(storage.getItem(QUEUE_KEY) ?? "[]");
+}
+
+/** Responde cada envio com o próximo resultado da lista (o último se repete) */
+function scriptedSink(results: AuditSendResult[]): AuditSink & { batches: AuditEvent[][] } {
+  const batches: AuditEvent[][] = [];
+  return {
+    batches,
+    async send(batch) {
+      batches.push(batch);
+      return results[Math.min(batches.length, results.length) - 1];
+    },
+  };
+}
+
+function setup(sink: AuditSink, opts: Partial<AuditLogOptions> = {}) {
+  const storage = opts.storage ?? memoryStorage();
+  return { storage, log: createAuditLog({ sink, storage, ...opts }) };
+}
+
+describe("createAuditLog", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("junta os eventos e envia depois do flushDelayMs", async () => {
+    const sink = createMemoryAuditSink();
+    const { log, storage } = setup(sink);
+
+    log.emit("sign_in", { error: { code: "invalid_credentials", message: "x" } });
+    log.emit("sign_out", { detail: { scope: "local" } });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sink.events).toHaveLength(0);
+    expect(queued(storage)).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sink.events).toEqual([
+      expect.objectContaining({ type: "sign_in", outcome: "failure", errorCode: "invalid_credentials" }),
+      expect.objectContaining({ type: "sign_out", outcome: "success", detail: { scope: "local" } }),
+    ]);
+    expect(storage.getItem(QUEUE_KEY)).toBeNull();
+  });
+
+  it("grava o hash do e-mail, nunca o e-mail, e o host do returnTo", async () => {
+    // o SHA-256 do crypto.subtle não anda com o relógio falso
+    vi.useRealTimers();
+    const sink = createMemoryAuditSink();
+    const { log } = setup(sink, { flushDelayMs: 0 });
+    log.setContext({ returnTo: "https://app.flowodonto.com.br/agenda" });
+
+    log.emit("sign_in", { email: " Ana@Clinica.com " });
+    log.emit("sign_out", { user: ANA });
+    await vi.waitFor(() => expect(sink.events).toHaveLength(2));
+
+    const emailHash = await hashEmail("ana@clinica.com");
+    expect(sink.events).toEqual([
+      expect.objectContaining({ type: "sign_in", userId: null, emailHash, returnToHost: "app.flowodonto.com.br" }),
+      expect.objectContaining({ type: "sign_out", userId: "u1", emailHash }),
+    ]);
+    expect(JSON.stringify(sink.events)).not.toContain("clinica.com");
+  });
+
+  it("fila do localStorage sobrevive ao reload", async () => {
+    const down = scriptedSink(["retry"]);
+    const { log, storage } = setup(down);
+    log.emit("handoff", { detail: { mode: "code" } });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(queued(storage)).toHaveLength(1);
+
+    // "próxima visita": outro log com o mesmo storage envia o que sobrou
+    const sink = createMemoryAuditSink();
+    setup(sink, { storage });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sink.events).toEqual([expect.objectContaining({ type: "handoff", detail: { mode: "code" } })]);
+    expect(storage.getItem(QUEUE_KEY)).toBeNull();
+  });
+
+  it("falha passageira tenta de novo com espera dobrando", async () => {
+    const sink = scriptedSink(["retry", "retry", "sent"]);
+    const { log, storage } = setup(sink, { retryBaseMs: 2000 });
+    log.emit("sign_out");
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sink.batches).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(sink.batches).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sink.batches).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(sink.batches).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sink.batches).toHaveLength(3);
+    expect(storage.getItem(QUEUE_KEY)).toBeNull();
+  });
+
+  it("a espera do retry para no retryMaxMs e o sink que lança conta como retry", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    let calls = 0;
+    const { log } = setup(
+      {
+        async send() {
+          calls++;
+          throw new Error("fora do ar");
+        },
+      },
+      { retryBaseMs: 1000, retryMaxMs: 3000 }
+    );
+    log.emit("sign_out");
+
+    // 1000 (flush) + 1000 + 2000 + 3000 + 3000
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(calls).toBe(5);
+  });
+
+  it("offline espera o evento online", async () => {
+    const onLine = vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    const sink = createMemoryAuditSink();
+    const { log } = setup(sink);
+    log.emit("sign_in");
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sink.events).toHaveLength(0);
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event("online"));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sink.events).toEqual([expect.objectContaining({ type: "sign_in" })]);
+  });
+
+  it("pagehide entrega a fila pelo beacon do sink", async () => {
+    const sink = { ...scriptedSink(["sent"]), sendOnUnload: vi.fn(() => true) };
+    const { log, storage } = setup(sink);
+    log.emit("handoff");
+
+    window.dispatchEvent(new Event("pagehide"));
+    expect(sink.sendOnUnload).toHaveBeenCalledWith([expect.objectContaining({ type: "handoff" })]);
+    expect(storage.getItem(QUEUE_KEY)).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sink.batches).toHaveLength(0);
+  });
+
+  it("beacon recusado pelo navegador deixa a fila para depois", async () => {
+    const sink = { ...scriptedSink(["sent"]), sendOnUnload: vi.fn(() => false) };
+    const { log, storage } = setup(sink);
+    log.emit("handoff");
+
+    window.dispatchEvent(new Event("pagehide"));
+    expect(queued(storage)).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sink.batches).toHaveLength(1);
+  });
+
+  it("fila cheia descarta os mais antigos", async () => {
+    const sink = createMemoryAuditSink();
+    const { log, storage } = setup(sink, { maxQueue: 3 });
+    for (let n = 0; n < 5; n++) log.emit("sign_in", { detail: { n: String(n) } });
+
+    expect(queued(storage).map((e) => e.detail.n)).toEqual(["2", "3", "4"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sink.events.map((e) => e.detail.n)).toEqual(["2", "3", "4"]);
+  });
+
+  it("lote recusado pelo destino é descartado sem nova tentativa; o resto da fila segue", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const sink = scriptedSink(["rejected", "sent"]);
+    const { log, storage } = setup(sink, { batchSize: 2 });
+    for (let n = 0; n < 3; n++) log.emit("sign_in", { detail: { n: String(n) } });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("recusado"), 2);
+    // o resto da fila sai no timer seguinte
+    await vi.runOnlyPendingTimersAsync();
+    expect(sink.batches.map((b) => b.map((e) => e.detail.n))).toEqual([["0", "1"], ["2"]]);
+    expect(storage.getItem(QUEUE_KEY)).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(60 * 60_000);
+    expect(sink.batches).toHaveLength(2);
+  });
+
+  it("sem sink não registra nada", async () => {
+    const storage = memoryStorage();
+    const log = createAuditLog({ sink: null, storage });
+    log.emit("sign_in");
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(storage.getItem(QUEUE_KEY)).toBeNull();
+  });
+});
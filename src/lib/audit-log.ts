@@ -0,0 +1,247 @@
+import type { AuthError, AuthUser } from "@/auth/types";
+import { auditSinkFromEnv, type AuditSink } from "@/lib/audit-sinks";
+
+/** =========================
+ * Log de auditoria dos fluxos de auth
+ *
+ * Cada tela/listener chama `auditLog.emit(...)`; o evento entra numa fila no
+ * localStorage e sai em lotes pelo sink configurado. Falhou ou está offline:
+ * fica na fila e tenta de novo com espera crescente (ou no evento `online`).
+ * O portal redireciona logo depois do login, então o que não sair agora
+ * sai no `pagehide` (beacon, quando o sink tem) ou na próxima visita.
+ *
+ * Nunca grava e-mail em claro: só o SHA-256 (minúsculo, sem espaços).
+ * ========================= */
+
+export type AuditEventType =
+  | "sign_in"
+  | "oauth_start"
+  | "otp_request"
+  | "otp_verify"
+  | "sign_up"
+  | "signup_confirmation_resend"
+  | "recovery_request"
+  | "password_change"
+  | "mfa_enroll"
+  | "mfa_verify"
+  | "mfa_recovery_code"
+  | "mfa_trusted_skip"
+  | "device_trust"
+  | "sign_out"
+  | "handoff"
+  | "invitation_accept"
+  | "identity_link"
+  | "identity_unlink"
+  | "silent_auth"
+  // vindos do onAuthStateChange (valem para qualquer fluxo, inclusive link mágico e OAuth)
+  | "session_signed_in"
+  | "session_signed_out"
+  | "session_recovery";
+
+/** "blocked": barrado no navegador (espera progressiva / CAPTCHA), sem chamar o backend */
+export type AuditOutcome = "success" | "failure" | "blocked";
+
+export type AuditEvent = {
+  /** uuid gerado no navegador: o destino pode descartar reenvio duplicado */
+  id: string;
+  type: AuditEventType;
+  /** ISO 8601 */
+  at: string;
+  outcome: AuditOutcome;
+  userId: string | null;
+  emailHash: string | null;
+  returnToHost: string | null;
+  userAgent: string;
+  errorCode: string | null;
+  detail: Record<string, string>;
+};
+
+export type AuditFields = {
+  /** Preenche userId e e-mail */
+  user?: AuthUser | null;
+  email?: string | null;
+  /** Com erro, outcome vira "failure" (se não vier outro) e errorCode = error.code */
+  error?: AuthError | null;
+  outcome?: AuditOutcome;
+  detail?: Record<string, string>;
+};
+
+export type AuditLog = {
+  emit(type: AuditEventType, fields?: AuditFields): void;
+  /** Contexto do portal que vai em todo evento (returnTo da URL atual) */
+  setContext(ctx: { returnTo?: string | null }): void;
+  flush(): Promise<void>;
+};
+
+export type AuditLogOptions = {
+  sink: AuditSink | null;
+  storage?: Storage | null;
+  batchSize?: number;
+  /** Espera para juntar eventos antes de enviar */
+  flushDelayMs?: number;
+  retryBaseMs?: number;
+  retryMaxMs?: number;
+  /** Fila cheia descarta os mais antigos */
+  maxQueue?: number;
+};
+
+const QUEUE_KEY = "flowodonto.audit.queue";
+
+export async function hashEmail(email: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(email.trim().toLowerCase()));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function hostOf(url: string | null | undefined) {
+  if (!url) return null;
+  try {
+    return new URL(url).host;
+  } catch {
+    return null;
+  }
+}
+
+function safeStorage(): Storage | null {
+  try {
+    return typeof localStorage !== "undefined" ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createAuditLog({
+  sink,
+  storage = safeStorage(),
+  batchSize = 20,
+  flushDelayMs = 1000,
+  retryBaseMs = 2000,
+  retryMaxMs = 5 * 60_000,
+  maxQueue = 500,
+}: AuditLogOptions): AuditLog {
+  if (!sink) {
+    return { emit: () => {}, setContext: () => {}, flush: async () => {} };
+  }
+
+  let returnToHost: string | null = null;
+  let queue: AuditEvent[] = load();
+  let sending = false;
+  let failures = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function load(): AuditEvent[] {
+    try {
+      const parsed = JSON.parse(storage?.getItem(QUEUE_KEY) ?? "[]");
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  function persist() {
+    try {
+      if (queue.length) storage?.setItem(QUEUE_KEY, JSON.stringify(queue));
+      else storage?.removeItem(QUEUE_KEY);
+    } catch {
+      // storage cheio/indisponível: a fila continua só em memória
+    }
+  }
+
+  function drop(sent: AuditEvent[]) {
+    const ids = new Set(sent.map((e) => e.id));
+    queue = queue.filter((e) => !ids.has(e.id));
+    persist();
+  }
+
+  function schedule(delayMs: number) {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      void flush();
+    }, delayMs);
+  }
+
+  const flush = async () => {
+    if (sending || !queue.length) return;
+    // offline: espera o evento `online`
+    if (typeof navigator !== "undefined" && navigator.onLine === false) return;
+
+    sending = true;
+    const batch = queue.slice(0, batchSize);
+    let result: Awaited<ReturnType<AuditSink["send"]>>;
+    try {
+      result = await sink.send(batch);
+    } catch (e) {
+      console.warn("[audit] envio falhou:", e);
+      result = "retry";
+    }
+    sending = false;
+
+    if (result === "retry") {
+      failures++;
+      schedule(Math.min(retryMaxMs, retryBaseMs * 2 ** (failures - 1)));
+      return;
+    }
+    // "rejected": o destino recusou o lote (formato/permissão); reenviar não adianta
+    if (result === "rejected") console.error("[audit] lote recusado pelo destino; descartado", batch.length);
+    failures = 0;
+    drop(batch);
+    if (queue.length) schedule(0);
+  };
+
+  function enqueue(event: AuditEvent) {
+    queue.push(event);
+    if (queue.length > maxQueue) queue = queue.slice(queue.length - maxQueue);
+    persist();
+    // durante a espera do retry não adianta antecipar
+    if (!failures) schedule(flushDelayMs);
+  }
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", () => {
+      failures = 0;
+      void flush();
+    });
+    window.addEventListener("pagehide", () => {
+      if (!queue.length || !sink.sendOnUnload) return;
+      const batch = queue.slice(0, batchSize);
+      if (sink.sendOnUnload(batch)) drop(batch);
+    });
+  }
+
+  // sobrou fila de uma visita anterior
+  if (queue.length) schedule(flushDelayMs);
+
+  return {
+    emit(type, { user, email, error, outcome, detail } = {}) {
+      const rawEmail = email ?? user?.email ?? null;
+      const base = {
+        id: crypto.randomUUID(),
+        type,
+        at: new Date().toISOString(),
+        outcome: outcome ?? (error ? "failure" : "success"),
+        userId: user?.id ?? null,
+        returnToHost,
+        userAgent: typeof navigator !== "undefined" ? navigator.userAgent : "",
+        errorCode: error?.code ?? null,
+        detail: detail ?? {},
+      } satisfies Omit<AuditEvent, "emailHash">;
+
+      if (!rawEmail?.trim()) {
+        enqueue({ ...base, emailHash: null });
+        return;
+      }
+      hashEmail(rawEmail).then(
+        (emailHash) => enqueue({ ...base, emailHash }),
+        () => enqueue({ ...base, emailHash: null })
+      );
+    },
+
+    setContext({ returnTo }) {
+      returnToHost = hostOf(returnTo);
+    },
+
+    flush,
+  };
+}
+
+export const auditLog = createAuditLog({ sink: auditSinkFromEnv() });
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AuditEvent } from "@/lib/audit-log";
+import { currentEnvironment } from "@/lib/return-to-config";
+import { supabase } from "@/supabaseClient";
+
+/** =========================
+ * Destinos do log de auditoria
+ *
+ * VITE_AUDIT_SINK:
+ *  - vazio: console em development, tabela do Supabase nos outros ambientes
+ *  - "off": não registra nada
+ *  - "console" / "supabase"
+ *  - URL https: POST em lote ({ events: [...] }) para um coletor próprio
+ * ========================= */
+
+/**
+ * "retry": falha passageira (rede, 5xx, 429) — o lote volta para a fila.
+ * "rejected": o destino recusou o lote; reenviar não adianta.
+ */
+export type AuditSendResult = "sent" | "retry" | "rejected";
+
+export type AuditSink = {
+  send(events: AuditEvent[]): Promise<AuditSendResult>;
+  /** Envio "fire and forget" no pagehide (sendBeacon). true = entregue ao navegador */
+  sendOnUnload?(events: AuditEvent[]): boolean;
+};
+
+export const AUDIT_TABLE = "auth_audit_events";
+
+function isTransientStatus(status: number) {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+export function createConsoleAuditSink(): AuditSink {
+  return {
+    async send(events) {
+      for (const e of events) console.info(`[audit] ${e.type} ${e.outcome}`, e);
+      return "sent";
+    },
+  };
+}
+
+/** Para testes: guarda os eventos recebidos */
+export function createMemoryAuditSink(): AuditSink & { readonly events: AuditEvent[] } {
+  const events: AuditEvent[] = [];
+  return {
+    events,
+    async send(batch) {
+      events.push(...batch);
+      return "sent";
+    },
+  };
+}
+
+export function createHttpAuditSink(url: string): AuditSink {
+  const body = (events: AuditEvent[]) => JSON.stringify({ events });
+  return {
+    async send(events) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: body(events),
+        keepalive: true,
+      });
+      if (res.ok) return "sent";
+      return isTransientStatus(res.status) ? "retry" : "rejected";
+    },
+    sendOnUnload(events) {
+      if (typeof navigator === "undefined" || !navigator.sendBeacon) return false;
+      return navigator.sendBeacon(url, new Blob([body(events)], { type: "application/json" }));
+    },
+  };
+}
+
+/** Tabela em supabase/migrations (só insert; leitura é da service role) */
+export function createSupabaseAuditSink(client: SupabaseClient, table = AUDIT_TABLE): AuditSink {
+  return {
+    async send(events) {
+      const rows = events.map((e) => ({
+        id: e.id,
+        type: e.type,
+        occurred_at: e.at,
+        outcome: e.outcome,
+        user_id: e.userId,
+        email_hash: e.emailHash,
+        return_to_host: e.returnToHost,
+        user_agent: e.userAgent,
+        error_code: e.errorCode,
+        detail: e.detail,
+      }));
+      // reenvio depois de timeout não duplica: o id já existe e é ignorado
+      const { error, status } = await client.from(table).upsert(rows, { onConflict: "id", ignoreDuplicates: true });
+      if (!error) return "sent";
+      return isTransientStatus(status) ? "retry" : "rejected";
+    },
+  };
+}
+
+export function auditSinkFromEnv(
+  raw = import.meta.env.VITE_AUDIT_SINK,
+  env = currentEnvironment()
+): AuditSink | null {
+  const value = (raw ?? "").trim();
+  if (value === "off") return null;
+  if (value === "console") return createConsoleAuditSink();
+  if (value === "supabase") return createSupabaseAuditSink(supabase);
+  if (/^https?:\/\//.test(value)) return createHttpAuditSink(value);
+  if (value) console.error(`[audit] VITE_AUDIT_SINK inválido: ${value}`);
+  return env === "development" ? createConsoleAuditSink() : createSupabaseAuditSink(supabase);
+}
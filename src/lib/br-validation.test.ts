@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatBrPhone,
+  formatCpf,
+  isValidBrPhone,
+  isValidCpf,
+  isValidCro,
+  isValidFullName,
+  toE164BrPhone,
+} from "@/lib/br-validation";
+
+describe("CPF", () => {
+  it.each(["529.982.247-25", "52998224725", "111.444.777-35"])("aceita %s", (cpf) => {
+    expect(isValidCpf(cpf)).toBe(true);
+  });
+
+  it.each([
+    ["primeiro dígito errado", "529.982.247-35"],
+    ["segundo dígito errado", "529.982.247-26"],
+    ["todos iguais", "111.111.111-11"],
+    ["curto", "529.982.247-2"],
+    ["vazio", ""],
+  ])("recusa %s", (_, cpf) => {
+    expect(isValidCpf(cpf)).toBe(false);
+  });
+
+  it.each([
+    ["", ""],
+    ["529", "529"],
+    ["5299", "529.9"],
+    ["5299822", "529.982.2"],
+    ["529982247", "529.982.247"],
+    ["5299822472", "529.982.247-2"],
+    ["52998224725", "529.982.247-25"],
+    ["529982247251", "529.982.247-25"],
+  ])("máscara %s → %s", (typed, masked) => {
+    expect(formatCpf(typed)).toBe(masked);
+  });
+});
+
+describe("telefone", () => {
+  it.each(["(11) 91234-5678", "(21) 3123-4567", "+55 11 91234-5678", "0 11 91234-5678"])("aceita %s", (phone) => {
+    expect(isValidBrPhone(phone)).toBe(true);
+  });
+
+  it.each([
+    ["DDD inexistente", "(20) 91234-5678"],
+    ["celular sem o 9", "(11) 81234-5678"],
+    ["fixo que não começa em 2-5", "(11) 6123-4567"],
+    ["incompleto", "(11) 91234-567"],
+  ])("recusa %s", (_, phone) => {
+    expect(isValidBrPhone(phone)).toBe(false);
+  });
+
+  it.each([
+    ["", ""],
+    ["1", "(1"],
+    ["11", "(11"],
+    ["119", "(11) 9"],
+    ["1131234567", "(11) 3123-4567"],
+    ["11912345678", "(11) 91234-5678"],
+    ["+5511912345678", "(11) 91234-5678"],
+    ["119123456789", "(11) 91234-5678"],
+  ])("máscara %s → %s", (typed, masked) => {
+    expect(formatBrPhone(typed)).toBe(masked);
+  });
+
+  it("grava em E.164", () => {
+    expect(toE164BrPhone("(11) 91234-5678")).toBe("+5511912345678");
+    expect(toE164BrPhone("+55 (11) 91234-5678")).toBe("+5511912345678");
+  });
+});
+
+describe("CRO e nome", () => {
+  it("CRO: até 6 dígitos, não zerado, UF válida", () => {
+    expect(isValidCro("12345", "SP")).toBe(true);
+    expect(isValidCro("1234567", "SP")).toBe(false);
+    expect(isValidCro("000", "SP")).toBe(false);
+    expect(isValidCro("12345", "XX")).toBe(false);
+  });
+
+  it("nome completo com acento, apóstrofo e hífen", () => {
+    expect(isValidFullName("Dra. Ana D'Ávila-Souza")).toBe(true);
+    expect(isValidFullName("Ana")).toBe(false);
+    expect(isValidFullName("Ana 123")).toBe(false);
+  });
+});
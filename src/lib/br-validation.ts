@@ -0,0 +1,96 @@
+/** =========================
+ * Validação de dados brasileiros do cadastro (telefone, CPF, CRO)
+ *
+ * As funções de `format*` são máscaras de digitação: aceitam entrada parcial
+ * e nunca descartam dígitos válidos. As de `is*` validam o valor completo.
+ * ========================= */
+
+export const UFS = [
+  "AC", "AL", "AM", "AP", "BA", "CE", "DF", "ES", "GO", "MA", "MG", "MS", "MT", "PA", "PB",
+  "PE", "PI", "PR", "RJ", "RN", "RO", "RR", "RS", "SC", "SE", "SP", "TO",
+] as const;
+
+export type UF = (typeof UFS)[number];
+
+// DDDs em uso pela Anatel
+const DDDS = new Set([
+  11, 12, 13, 14, 15, 16, 17, 18, 19, 21, 22, 24, 27, 28, 31, 32, 33, 34, 35, 37, 38, 41, 42, 43, 44, 45, 46, 47, 48,
+  49, 51, 53, 54, 55, 61, 62, 63, 64, 65, 66, 67, 68, 69, 71, 73, 74, 75, 77, 79, 81, 82, 83, 84, 85, 86, 87, 88, 89,
+  91, 92, 93, 94, 95, 96, 97, 98, 99,
+]);
+
+export function onlyDigits(value: string) {
+  return value.replace(/\D/g, "");
+}
+
+/** Tira o +55 / 0 de operadora da frente: sobra DDD + número */
+function nationalPhoneDigits(value: string) {
+  let d = onlyDigits(value);
+  if (d.length > 11 && d.startsWith("55")) d = d.slice(2);
+  if (d.length > 11 && d.startsWith("0")) d = d.slice(1);
+  return d.slice(0, 11);
+}
+
+/** Celular: DDD + 9 + 8 dígitos. Fixo: DDD + [2-5] + 7 dígitos */
+export function isValidBrPhone(value: string) {
+  const d = nationalPhoneDigits(value);
+  if (!DDDS.has(Number(d.slice(0, 2)))) return false;
+  if (d.length === 11) return d[2] === "9";
+  if (d.length === 10) return /[2-5]/.test(d[2]);
+  return false;
+}
+
+/** "(11) 91234-5678" / "(11) 3123-4567", inclusive parcial */
+export function formatBrPhone(value: string) {
+  const d = nationalPhoneDigits(value);
+  if (d.length <= 2) return d ? `(${d}` : "";
+
+  const ddd = d.slice(0, 2);
+  const rest = d.slice(2);
+  const split = rest.length > 8 ? 5 : 4;
+  if (rest.length <= split) return `(${ddd}) ${rest}`;
+  return `(${ddd}) ${rest.slice(0, split)}-${rest.slice(split)}`;
+}
+
+/** Formato gravado no metadata: "+5511912345678" */
+export function toE164BrPhone(value: string) {
+  return `+55${nationalPhoneDigits(value)}`;
+}
+
+export function isValidCpf(value: string) {
+  const d = onlyDigits(value);
+  if (d.length !== 11 || /^(\d)\1{10}$/.test(d)) return false;
+
+  const checkDigit = (len: number) => {
+    let sum = 0;
+    for (let i = 0; i < len; i++) sum += Number(d[i]) * (len + 1 - i);
+    const r = (sum * 10) % 11;
+    return r === 10 ? 0 : r;
+  };
+  return checkDigit(9) === Number(d[9]) && checkDigit(10) === Number(d[10]);
+}
+
+/** "000.000.000-00", inclusive parcial */
+export function formatCpf(value: string) {
+  const d = onlyDigits(value).slice(0, 11);
+  return d
+    .replace(/^(\d{3})(\d)/, "$1.$2")
+    .replace(/^(\d{3})\.(\d{3})(\d)/, "$1.$2.$3")
+    .replace(/\.(\d{3})(\d{1,2})$/, ".$1-$2");
+}
+
+export function isUF(value: string): value is UF {
+  return (UFS as readonly string[]).includes(value);
+}
+
+/** Número de inscrição no CRO: até 6 dígitos, sem zeros só */
+export function isValidCro(numero: string, uf: string) {
+  const d = onlyDigits(numero);
+  return isUF(uf) && /^\d{1,6}$/.test(d) && Number(d) > 0;
+}
+
+/** Nome e sobrenome, só letras (com acento), espaço, apóstrofo, hífen e ponto ("Dr.") */
+export function isValidFullName(value: string) {
+  const parts = value.trim().split(/\s+/);
+  return parts.length >= 2 && parts.every((p) => /^[\p{L}'.-]+$/u.test(p)) && parts.join("").length >= 4;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { brandingCssVariables, brandingFor, hexToHslTriplet, loadBrandingConfig, parseBrandingConfig } from "@/lib/branding";
+
+const config = parseBrandingConfig({
+  default: { productName: "OdontoFlow Lab System", supportUrl: "https://ajuda.flowodonto.com.br" },
+  hosts: [
+    { host: "agenda.flowodonto.com.br", productName: "FlowOdonto Agenda", primaryColor: "#2563EB" },
+    { host: "*.redeclinicas.com.br", logoUrl: "https://cdn.redeclinicas.com.br/logo.png", supportUrl: null },
+    { host: "*.flowodonto.com.br", productName: "FlowOdonto" },
+  ],
+});
+
+describe("brandingFor", () => {
+  it("a primeira regra que casar vale e o resto vem do default", () => {
+    expect(brandingFor("https://agenda.flowodonto.com.br/hoje", config)).toEqual({
+      productName: "FlowOdonto Agenda",
+      logoUrl: null,
+      primaryColor: "#2563EB",
+      backgroundImageUrl: null,
+      supportUrl: "https://ajuda.flowodonto.com.br",
+      termsUrl: null,
+    });
+    expect(brandingFor("https://app.flowodonto.com.br/", config).productName).toBe("FlowOdonto");
+  });
+
+  it("curinga casa subdomínio e null na regra apaga o do default", () => {
+    const b = brandingFor("https://sp.redeclinicas.com.br/", config);
+    expect(b.logoUrl).toBe("https://cdn.redeclinicas.com.br/logo.png");
+    expect(b.supportUrl).toBeNull();
+    expect(b.productName).toBe("OdontoFlow Lab System");
+  });
+
+  it("host sem regra ou returnTo inválido fica com o default", () => {
+    expect(brandingFor("https://outro.com.br/", config)).toBe(config.default);
+    expect(brandingFor("não é url", config)).toBe(config.default);
+  });
+});
+
+describe("parseBrandingConfig", () => {
+  it.each([
+    ["sem default", { hosts: [] }],
+    ["default sem nome", { default: { productName: null } }],
+    ["cor fora do formato", { default: { productName: "X", primaryColor: "blue" } }],
+    ["logo em http", { default: { productName: "X", logoUrl: "http://cdn.x.com/logo.png" } }],
+    ["imagem que escapa do url()", { default: { productName: "X", backgroundImageUrl: "/a.png\");color:red" } }],
+    ["link em javascript:", { default: { productName: "X", termsUrl: "javascript:alert(1)" } }],
+    ["host inválido", { default: { productName: "X" }, hosts: [{ host: "https://x.com" }] }],
+  ])("recusa %s", (_, raw) => {
+    expect(() => parseBrandingConfig(raw)).toThrow(/config de marca inválida/);
+  });
+
+  it("aceita path do próprio portal como imagem", () => {
+    const c = parseBrandingConfig({ default: { productName: "X", backgroundImageUrl: "/marcas/fundo.jpg" } });
+    expect(c.default.backgroundImageUrl).toBe("/marcas/fundo.jpg");
+  });
+
+  it("VITE_BRANDING inválida é ignorada e o arquivo vale", () => {
+    const c = loadBrandingConfig("{", { default: { productName: "Do arquivo" } });
+    expect(c.default.productName).toBe("Do arquivo");
+  });
+});
+
+describe("brandingCssVariables", () => {
+  it("converte a cor para o formato do index.css", () => {
+    expect(hexToHslTriplet("#2563EB")).toBe("221 83% 53%");
+    expect(hexToHslTriplet("#000000")).toBe("0 0% 0%");
+  });
+
+  it("escolhe o foreground pelo contraste", () => {
+    const dark = brandingCssVariables({ ...config.default, primaryColor: "#2563EB" });
+    expect(dark).toEqual({ "--primary": "221 83% 53%", "--ring": "221 83% 53%", "--primary-foreground": "0 0% 100%" });
+    expect(brandingCssVariables({ ...config.default, primaryColor: "#FACC15" })["--primary-foreground"]).toBe("210 40% 11%");
+  });
+
+  it("sem cor não troca nada", () => {
+    expect(brandingCssVariables(config.default)).toEqual({});
+  });
+});
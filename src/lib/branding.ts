@@ -0,0 +1,198 @@
+import brandingFile from "@/config/branding.json";
+import { hostMatches } from "@/lib/return-to";
+
+/** =========================
+ * Marca do portal por app de destino (white-label)
+ *
+ * A marca sai do host do returnTo JÁ VALIDADO: quem não passou pela allowlist
+ * cai no fallback e ganha a marca dele, nunca a de quem pediu.
+ *
+ * Fonte, em ordem:
+ *  1. VITE_BRANDING — JSON de um BrandingConfig (sobrescreve tudo)
+ *  2. src/config/branding.json
+ *
+ *   {
+ *     "default": { "productName": "OdontoFlow Lab System", "logoUrl": null, ... },
+ *     "hosts": [
+ *       { "host": "agenda.flowodonto.com.br", "productName": "FlowOdonto Agenda", "primaryColor": "#2563EB" },
+ *       { "host": "*.redeclinicas.com.br", "logoUrl": "https://cdn.redeclinicas.com.br/logo.png" }
+ *     ]
+ *   }
+ *
+ * `host` segue a regra da allowlist do returnTo ("*.x" = qualquer subdomínio);
+ * a primeira regra que casar vale e o que ela não disser vem do default.
+ * A cor entra nas variáveis do Tailwind (--primary / --ring do index.css).
+ * ========================= */
+
+export type Branding = {
+  productName: string;
+  /** https:// ou path do próprio portal ("/marcas/x.png"). null = logo padrão */
+  logoUrl: string | null;
+  /** "#RRGGBB". null = cores do index.css */
+  primaryColor: string | null;
+  /** Imagem atrás do card (mesmas regras do logoUrl) */
+  backgroundImageUrl: string | null;
+  supportUrl: string | null;
+  termsUrl: string | null;
+};
+
+/** Entrada de "hosts" já lida (no JSON os campos ficam ao lado do host) */
+export type BrandingRule = { host: string; branding: Partial<Branding> };
+
+export type BrandingConfig = {
+  default: Branding;
+  hosts: BrandingRule[];
+};
+
+const FIELDS = ["productName", "logoUrl", "primaryColor", "backgroundImageUrl", "supportUrl", "termsUrl"] as const;
+const IMAGE_FIELDS = new Set<string>(["logoUrl", "backgroundImageUrl"]);
+const LINK_FIELDS = new Set<string>(["supportUrl", "termsUrl"]);
+
+function fail(msg: string): never {
+  throw new Error(`config de marca inválida: ${msg}`);
+}
+
+// imagem também vai para dentro de url(...) no CSS: nada de aspas, parênteses ou espaço
+function isImageUrl(v: string) {
+  if (/^\/(?!\/)[^\s"'()\\]*$/.test(v)) return true;
+  return isHttpsUrl(v) && !/[\s"'()\\]/.test(v);
+}
+
+function isHttpsUrl(v: string) {
+  try {
+    return new URL(v).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function parseField(key: (typeof FIELDS)[number], value: unknown, where: string) {
+  if (value === null) {
+    if (key === "productName") fail(`${where}.productName não pode ser null`);
+    return null;
+  }
+  if (typeof value !== "string" || !value.trim()) fail(`${where}.${key} precisa ser texto`);
+
+  if (key === "primaryColor" && !/^#[0-9a-f]{6}$/i.test(value)) fail(`${where}.primaryColor precisa ser #RRGGBB`);
+  if (IMAGE_FIELDS.has(key) && !isImageUrl(value)) fail(`${where}.${key} precisa ser https:// ou path do portal`);
+  if (LINK_FIELDS.has(key) && !isHttpsUrl(value)) fail(`${where}.${key} precisa ser https://`);
+  return value.trim();
+}
+
+function parseFields(raw: Record<string, unknown>, where: string): Partial<Branding> {
+  const out: Partial<Branding> = {};
+  for (const key of FIELDS) {
+    if (raw[key] === undefined) continue;
+    (out as Record<string, string | null>)[key] = parseField(key, raw[key], where);
+  }
+  return out;
+}
+
+export function parseBrandingConfig(raw: unknown): BrandingConfig {
+  if (!raw || typeof raw !== "object") fail("esperado objeto { default, hosts }");
+  const r = raw as Record<string, unknown>;
+
+  if (!r.default || typeof r.default !== "object") fail("default ausente");
+  const base = parseFields(r.default as Record<string, unknown>, "default");
+  if (!base.productName) fail("default.productName ausente");
+
+  const defaults: Branding = {
+    productName: base.productName,
+    logoUrl: base.logoUrl ?? null,
+    primaryColor: base.primaryColor ?? null,
+    backgroundImageUrl: base.backgroundImageUrl ?? null,
+    supportUrl: base.supportUrl ?? null,
+    termsUrl: base.termsUrl ?? null,
+  };
+
+  const rawHosts = r.hosts ?? [];
+  if (!Array.isArray(rawHosts)) fail("hosts precisa ser lista");
+
+  const hosts = rawHosts.map((h, i): BrandingRule => {
+    if (!h || typeof h !== "object") fail(`hosts[${i}] precisa ser objeto`);
+    const rule = h as Record<string, unknown>;
+    const host = typeof rule.host === "string" ? rule.host.trim().toLowerCase() : "";
+    if (!host || !/^[a-z0-9*.-]+$/.test(host)) fail(`hosts[${i}].host inválido`);
+    return { host, branding: parseFields(rule, `hosts[${i}]`) };
+  });
+
+  return { default: defaults, hosts };
+}
+
+export function loadBrandingConfig(
+  override = import.meta.env.VITE_BRANDING,
+  file: unknown = brandingFile
+): BrandingConfig {
+  if (override) {
+    try {
+      return parseBrandingConfig(JSON.parse(override));
+    } catch (e) {
+      console.error("[branding] VITE_BRANDING ignorada:", e);
+    }
+  }
+  return parseBrandingConfig(file);
+}
+
+export const brandingConfig = loadBrandingConfig();
+
+/** Marca do app de destino. `returnTo` precisa ser o validado (PortalState.returnTo) */
+export function brandingFor(returnTo: string, config: BrandingConfig = brandingConfig): Branding {
+  let host: string;
+  try {
+    host = new URL(returnTo).hostname.toLowerCase();
+  } catch {
+    return config.default;
+  }
+
+  const rule = config.hosts.find((r) => hostMatches(r.host, host));
+  return rule ? { ...config.default, ...rule.branding } : config.default;
+}
+
+/** "#RRGGBB" no formato das variáveis do index.css ("174 72% 40%") */
+export function hexToHslTriplet(hex: string) {
+  const n = parseInt(hex.slice(1), 16);
+  const r = ((n >> 16) & 255) / 255;
+  const g = ((n >> 8) & 255) / 255;
+  const b = (n & 255) / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  let h = 0;
+  let s = 0;
+  if (d !== 0) {
+    s = d / (1 - Math.abs(2 * l - 1));
+    if (max === r) h = ((g - b) / d) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h = Math.round(h * 60);
+    if (h < 0) h += 360;
+  }
+
+  return `${h} ${Math.round(s * 100)}% ${Math.round(l * 100)}%`;
+}
+
+// luminância relativa (WCAG): acima disso texto escuro contrasta mais que branco
+function prefersDarkText(hex: string) {
+  const n = parseInt(hex.slice(1), 16);
+  const channel = (c: number) => {
+    const v = c / 255;
+    return v <= 0.03928 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  };
+  const lum = 0.2126 * channel((n >> 16) & 255) + 0.7152 * channel((n >> 8) & 255) + 0.0722 * channel(n & 255);
+  return lum > 0.179;
+}
+
+/** Variáveis do Tailwind que a marca troca; vazio = as do index.css */
+export function brandingCssVariables(branding: Branding): Record<string, string> {
+  if (!branding.primaryColor) return {};
+  const primary = hexToHslTriplet(branding.primaryColor);
+  return {
+    "--primary": primary,
+    "--ring": primary,
+    // mesmo par do index.css: branco ou o foreground escuro
+    "--primary-foreground": prefersDarkText(branding.primaryColor) ? "210 40% 11%" : "0 0% 100%",
+  };
+}
@@ -0,0 +1,75 @@
+/** =========================
+ * Senhas vazadas (k-anonimity, formato "range" do Have I Been Pwned)
+ *
+ * Só os 5 primeiros caracteres do SHA-1 saem do navegador; a API devolve os
+ * sufixos conhecidos ("SUFIXO:CONTAGEM" por linha) e a comparação é local.
+ *
+ * VITE_PWNED_RANGE_URL escolhe a API:
+ *  - vazio: api.pwnedpasswords.com
+ *  - "off": desliga a verificação
+ *  - "memory": lista fixa local (desenvolvimento / testes sem rede)
+ *  - outra URL com "{prefix}": serviço próprio com o mesmo formato
+ * ========================= */
+
+/** Recebe o prefixo (5 hex, maiúsculo) e devolve o corpo da resposta no formato range */
+export type PwnedRangeApi = (prefix: string) => Promise<string>;
+
+const HIBP_RANGE_URL = "https://api.pwnedpasswords.com/range/{prefix}";
+
+// o bastante para exercitar a tela sem rede
+const MEMORY_BREACHED = ["123456", "12345678", "password", "senha123", "Senha@123", "qwerty123", "odonto123"];
+
+export async function sha1Hex(value: string) {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("").toUpperCase();
+}
+
+export function createHttpRangeApi(urlTemplate: string = HIBP_RANGE_URL): PwnedRangeApi {
+  return async (prefix) => {
+    // Add-Padding: a resposta sempre tem ~800+ linhas, não dá para inferir o prefixo pelo tamanho
+    const res = await fetch(urlTemplate.replace("{prefix}", prefix), { headers: { "Add-Padding": "true" } });
+    if (!res.ok) throw new Error(`range API respondeu ${res.status}`);
+    return res.text();
+  };
+}
+
+export function createMemoryRangeApi(passwords: string[] = MEMORY_BREACHED): PwnedRangeApi {
+  const hashes = Promise.all(passwords.map(sha1Hex));
+  return async (prefix) =>
+    (await hashes)
+      .filter((h) => h.startsWith(prefix))
+      .map((h) => `${h.slice(5)}:1`)
+      .join("\r\n");
+}
+
+export function rangeApiFromEnv(raw = import.meta.env.VITE_PWNED_RANGE_URL): PwnedRangeApi | null {
+  const value = (raw ?? "").trim();
+  if (value === "off") return null;
+  if (value === "memory") return createMemoryRangeApi();
+  return createHttpRangeApi(value || HIBP_RANGE_URL);
+}
+
+export const defaultRangeApi = rangeApiFromEnv();
+
+/**
+ * Quantas vezes a senha aparece em vazamentos (0 = nenhuma).
+ * null quando a verificação está desligada ou falhou: quem chama não deve bloquear o usuário por isso.
+ */
+export async function breachedPasswordCount(password: string, api: PwnedRangeApi | null = defaultRangeApi) {
+  if (!api || !password) return null;
+
+  try {
+    const hash = await sha1Hex(password);
+    const prefix = hash.slice(0, 5);
+    const suffix = hash.slice(5);
+
+    for (const line of (await api(prefix)).split(/\r?\n/)) {
+      const [s, count] = line.trim().split(":");
+      if (s?.toUpperCase() === suffix) return Number(count) || 0;
+    }
+    return 0;
+  } catch (e) {
+    console.warn("[password] verificação de vazamento indisponível:", e);
+    return null;
+  }
+}
@@ -0,0 +1,149 @@
+/** =========================
+ * CAPTCHA plugável (hCaptcha / Cloudflare Turnstile / teste)
+ *
+ * VITE_CAPTCHA_PROVIDER — "hcaptcha", "turnstile", "test" ou vazio (desligado)
+ * VITE_CAPTCHA_SITE_KEY — site key do provedor
+ * VITE_CAPTCHA_AFTER_ATTEMPTS — tentativas antes de exigir CAPTCHA (default 3).
+ *   Se o CAPTCHA estiver ligado no Supabase Auth, use 0: lá ele vale para toda chamada.
+ *
+ * O token vai no `captchaToken` das chamadas do AuthService; quem valida é o Supabase.
+ * ========================= */
+
+export type CaptchaProviderId = "hcaptcha" | "turnstile" | "test";
+
+export type CaptchaRenderOptions = {
+  siteKey: string;
+  locale: string;
+  onToken: (token: string) => void;
+  onExpire: () => void;
+};
+
+export type CaptchaWidgetHandle = {
+  reset(): void;
+  remove(): void;
+};
+
+export interface CaptchaProvider {
+  id: CaptchaProviderId;
+  render(container: HTMLElement, opts: CaptchaRenderOptions): Promise<CaptchaWidgetHandle>;
+}
+
+export type CaptchaConfig = {
+  provider: CaptchaProvider;
+  siteKey: string;
+  afterAttempts: number;
+};
+
+type WidgetApi = {
+  render(container: HTMLElement, params: Record<string, unknown>): string;
+  reset(id?: string): void;
+  remove(id?: string): void;
+};
+
+declare global {
+  interface Window {
+    hcaptcha?: WidgetApi;
+    turnstile?: WidgetApi;
+  }
+}
+
+const scripts = new Map<string, Promise<void>>();
+
+function loadScript(src: string) {
+  let p = scripts.get(src);
+  if (!p) {
+    p = new Promise<void>((resolve, reject) => {
+      const s = document.createElement("script");
+      s.src = src;
+      s.async = true;
+      s.defer = true;
+      s.onload = () => resolve();
+      s.onerror = () => {
+        scripts.delete(src);
+        reject(new Error(`falha ao carregar ${src}`));
+      };
+      document.head.appendChild(s);
+    });
+    scripts.set(src, p);
+  }
+  return p;
+}
+
+// hCaptcha e Turnstile têm a mesma API de widget (render/reset/remove); muda o script e o nome do idioma
+function widgetProvider(
+  id: CaptchaProviderId,
+  src: string,
+  global: () => WidgetApi | undefined,
+  localeParam: string
+): CaptchaProvider {
+  return {
+    id,
+    async render(container, { siteKey, locale, onToken, onExpire }) {
+      await loadScript(src);
+      const api = global();
+      if (!api) throw new Error(`${id} indisponível`);
+
+      const widgetId = api.render(container, {
+        sitekey: siteKey,
+        [localeParam]: locale,
+        callback: onToken,
+        "expired-callback": onExpire,
+        "error-callback": onExpire,
+      });
+      return { reset: () => api.reset(widgetId), remove: () => api.remove(widgetId) };
+    },
+  };
+}
+
+export const hcaptchaProvider = widgetProvider(
+  "hcaptcha",
+  "https://js.hcaptcha.com/1/api.js?render=explicit",
+  () => window.hcaptcha,
+  "hl"
+);
+
+export const turnstileProvider = widgetProvider(
+  "turnstile",
+  "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit",
+  () => window.turnstile,
+  "language"
+);
+
+/** Sem rede nem widget: entrega um token fixo (desenvolvimento / testes) */
+export const testCaptchaProvider: CaptchaProvider = {
+  id: "test",
+  async render(_container, { onToken }) {
+    onToken("test-captcha-token");
+    return { reset: () => onToken("test-captcha-token"), remove: () => {} };
+  },
+};
+
+const PROVIDERS: Record<CaptchaProviderId, CaptchaProvider> = {
+  hcaptcha: hcaptchaProvider,
+  turnstile: turnstileProvider,
+  test: testCaptchaProvider,
+};
+
+export function captchaConfigFromEnv(
+  providerId = import.meta.env.VITE_CAPTCHA_PROVIDER,
+  siteKey = import.meta.env.VITE_CAPTCHA_SITE_KEY,
+  afterAttempts = import.meta.env.VITE_CAPTCHA_AFTER_ATTEMPTS
+): CaptchaConfig | null {
+  const id = (providerId ?? "").trim() as CaptchaProviderId;
+  if (!id) return null;
+
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    console.error(`[captcha] provedor desconhecido: ${id}`);
+    return null;
+  }
+  if (id !== "test" && !siteKey) {
+    console.error(`[captcha] VITE_CAPTCHA_SITE_KEY ausente para ${id}`);
+    return null;
+  }
+
+  const after = Number(afterAttempts ?? 3);
+  return { provider, siteKey: siteKey ?? "", afterAttempts: Number.isInteger(after) && after >= 0 ? after : 3 };
+}
+
+export const captchaConfig = captchaConfigFromEnv();
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { canTrustDevice, deviceLabel, ensureDeviceToken, readDeviceToken, trustedDeviceDaysFromEnv } from "@/lib/device-trust";
+
+describe("device-trust", () => {
+  it.each([
+    [undefined, 30],
+    ["", 30],
+    ["7", 7],
+    ["7.9", 7],
+    ["0", 0],
+    ["-3", 0],
+    ["abc", 0],
+  ])("VITE_TRUSTED_DEVICE_DAYS=%s → %i dias", (raw, days) => {
+    expect(trustedDeviceDaysFromEnv(raw)).toBe(days);
+  });
+
+  it("computador compartilhado ou validade 0 nunca confiam", () => {
+    expect(canTrustDevice("persistent", 30)).toBe(true);
+    expect(canTrustDevice("session", 30)).toBe(true);
+    expect(canTrustDevice("shared", 30)).toBe(false);
+    expect(canTrustDevice("persistent", 0)).toBe(false);
+  });
+
+  it("o token é criado uma vez e reaproveitado", () => {
+    expect(readDeviceToken()).toBeNull();
+    const token = ensureDeviceToken();
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(ensureDeviceToken()).toBe(token);
+    expect(readDeviceToken()).toBe(token);
+  });
+
+  it("nome do dispositivo pelo user agent", () => {
+    const chromeWindows =
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36";
+    const safariIphone =
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1";
+    expect(deviceLabel(chromeWindows)).toBe("Chrome · Windows");
+    expect(deviceLabel(safariIphone)).toBe("Safari · iOS");
+    expect(deviceLabel("curl/8.0")).toBe("Navegador");
+  });
+});
@@ -0,0 +1,78 @@
+import { readSessionMode, type SessionMode } from "@/lib/session-persistence";
+
+/** =========================
+ * Dispositivo confiável (pula o desafio de MFA)
+ *
+ * Depois de passar pelo TOTP, a pessoa pode marcar "confiar neste dispositivo".
+ * O navegador guarda um token aleatório; o servidor guarda só o sha256 dele,
+ * preso ao usuário e com validade (`trust_device` / `is_trusted_device`, ver
+ * a migration de trusted_devices). Copiar o token não serve para outra conta
+ * e apagar o localStorage desfaz a confiança.
+ *
+ * Só pula o desafio de quem já tem TOTP: o cadastro exigido pela política
+ * continua obrigatório. Computador compartilhado nunca vira confiável.
+ *
+ * VITE_TRUSTED_DEVICE_DAYS — validade (default 30; "0" desliga)
+ * ========================= */
+
+const DEVICE_KEY = "flowodonto.deviceToken";
+
+export function trustedDeviceDaysFromEnv(raw = import.meta.env.VITE_TRUSTED_DEVICE_DAYS) {
+  if (raw === undefined || raw.trim() === "") return 30;
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+export const trustedDeviceDays = trustedDeviceDaysFromEnv();
+
+export function canTrustDevice(mode: SessionMode = readSessionMode(), days = trustedDeviceDays) {
+  return days > 0 && mode !== "shared";
+}
+
+export function readDeviceToken(): string | null {
+  try {
+    return localStorage.getItem(DEVICE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function ensureDeviceToken(): string {
+  const existing = readDeviceToken();
+  if (existing) return existing;
+
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  const token = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  try {
+    localStorage.setItem(DEVICE_KEY, token);
+  } catch {
+    // sem storage o token vale só nesta página (a confiança não sobrevive ao reload)
+  }
+  return token;
+}
+
+/** Nome para a lista de dispositivos ("Chrome · Windows") */
+export function deviceLabel(userAgent = navigator.userAgent) {
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Firefox\//.test(userAgent)
+      ? "Firefox"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Navegador";
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /iPhone|iPad/.test(userAgent)
+        ? "iOS"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "";
+  return os ? `${browser} · ${os}` : browser;
+}
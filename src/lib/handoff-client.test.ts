@@ -0,0 +1,126 @@
+import { http, HttpResponse } from "msw";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { completePortalLogin, pkceChallenge, silentPortalRefresh, startPortalLogin } from "@/lib/handoff-client";
+import { server } from "@/test/msw";
+
+const SUPABASE = "https://supabase.flowodonto.test";
+const OPTS = { supabaseUrl: SUPABASE, supabaseAnonKey: "anon" };
+
+let redeemed: Record<string, unknown>[] = [];
+
+beforeEach(() => {
+  redeemed = [];
+  server.use(
+    http.post(`${SUPABASE}/functions/v1/auth-handoff`, async ({ request }) => {
+      redeemed.push((await request.json()) as Record<string, unknown>);
+      return HttpResponse.json({ access_token: "at", refresh_token: "rt", token_type: "bearer", expires_in: 3600 });
+    })
+  );
+});
+
+// volta do portal para o app com os parâmetros dados
+function returnWith(query: string) {
+  window.history.replaceState(null, "", `/agenda?${query}`);
+}
+
+describe("completePortalLogin", () => {
+  it("resgata o código com o verifier guardado no início do login", async () => {
+    const url = await startPortalLogin({ portalUrl: "https://auth.flowodonto.com.br", navigate: false });
+    const sent = new URL(url).searchParams;
+    returnWith(`code=c1&state=${sent.get("state")}&org=org-1`);
+
+    const session = await completePortalLogin(OPTS);
+
+    expect(session).toMatchObject({ access_token: "at", organization_id: "org-1" });
+    expect(redeemed).toHaveLength(1);
+    expect(await pkceChallenge(String(redeemed[0].code_verifier))).toBe(sent.get("code_challenge"));
+    expect(window.location.search).toBe("");
+  });
+
+  it("sem URL de retorno com código não faz nada", async () => {
+    expect(await completePortalLogin(OPTS)).toBeNull();
+  });
+
+  it("código que este navegador não pediu é recusado sem resgate", async () => {
+    returnWith("code=do-atacante&state=qualquer");
+    await expect(completePortalLogin(OPTS)).rejects.toThrow(/state inválido/);
+
+    returnWith("code=do-atacante");
+    await expect(completePortalLogin(OPTS)).rejects.toThrow(/state inválido/);
+    expect(redeemed).toHaveLength(0);
+  });
+
+  it("state diferente do guardado é recusado e o login guardado é descartado", async () => {
+    await startPortalLogin({ portalUrl: "https://auth.flowodonto.com.br", navigate: false });
+    returnWith("code=c1&state=outro");
+
+    await expect(completePortalLogin(OPTS)).rejects.toThrow(/state inválido/);
+    expect(redeemed).toHaveLength(0);
+    expect(sessionStorage.length).toBe(0);
+  });
+
+  it("erro do prompt=none volta como exceção com o código", async () => {
+    const url = await startPortalLogin({ portalUrl: "https://auth.flowodonto.com.br", prompt: "none", navigate: false });
+    returnWith(`error=login_required&state=${new URL(url).searchParams.get("state")}`);
+
+    await expect(completePortalLogin(OPTS)).rejects.toThrow("login_required");
+  });
+});
+
+describe("silentPortalRefresh", () => {
+  const PORTAL = "https://auth.flowodonto.com.br";
+  const REFRESH = { ...OPTS, portalUrl: PORTAL, returnTo: "https://app.flowodonto.com.br/agenda", timeoutMs: 200 };
+
+  /** Espera o iframe oculto e responde como o portal (ou outra origem) */
+  async function replyFromFrame(data: (state: string) => Record<string, unknown>, origin = PORTAL) {
+    const frame = await vi.waitFor(() => {
+      const f = document.querySelector<HTMLIFrameElement>('iframe[title="silent-auth"]');
+      if (!f) throw new Error("iframe ainda não abriu");
+      return f;
+    });
+    const sent = new URL(frame.src).searchParams;
+    window.dispatchEvent(
+      new MessageEvent("message", { origin, source: frame.contentWindow, data: data(sent.get("state")!) })
+    );
+    return sent;
+  }
+
+  it("código do portal vira sessão, com o verifier do próprio pedido", async () => {
+    const pending = silentPortalRefresh({ ...REFRESH, organizationId: "org-1" });
+    const sent = await replyFromFrame((state) => ({ type: "flowodonto:silent-auth", state, code: "c1", org: "org-1" }));
+
+    expect(await pending).toEqual({ session: expect.objectContaining({ access_token: "at", organization_id: "org-1" }), error: null });
+    expect(sent.get("prompt")).toBe("none");
+    expect(sent.get("org")).toBe("org-1");
+    expect(await pkceChallenge(String(redeemed[0].code_verifier))).toBe(sent.get("code_challenge"));
+    expect(document.querySelector("iframe")).toBeNull();
+  });
+
+  it.each(["login_required", "interaction_required"])("%s chega para o app sem resgate", async (error) => {
+    const pending = silentPortalRefresh(REFRESH);
+    await replyFromFrame((state) => ({ type: "flowodonto:silent-auth", state, code: null, error }));
+
+    expect(await pending).toEqual({ session: null, error });
+    expect(redeemed).toHaveLength(0);
+  });
+
+  it("mensagem de outra origem ou com outro state é ignorada até o timeout", async () => {
+    const pending = silentPortalRefresh(REFRESH);
+    await replyFromFrame((state) => ({ type: "flowodonto:silent-auth", state, code: "c1" }), "https://evil.test");
+    await replyFromFrame(() => ({ type: "flowodonto:silent-auth", state: "outro", code: "c1" }));
+
+    expect(await pending).toEqual({ session: null, error: "timeout" });
+    expect(redeemed).toHaveLength(0);
+  });
+
+  it("erro desconhecido ou resgate recusado viram server_error", async () => {
+    const unknown = silentPortalRefresh(REFRESH);
+    await replyFromFrame((state) => ({ type: "flowodonto:silent-auth", state, error: "qualquer" }));
+    expect(await unknown).toEqual({ session: null, error: "server_error" });
+
+    server.use(http.post(`${SUPABASE}/functions/v1/auth-handoff`, () => HttpResponse.json({ error: "usado" }, { status: 400 })));
+    const refused = silentPortalRefresh(REFRESH);
+    await replyFromFrame((state) => ({ type: "flowodonto:silent-auth", state, code: "c1" }));
+    expect(await refused).toEqual({ session: null, error: "server_error" });
+  });
+});
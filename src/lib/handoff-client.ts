@@ -0,0 +1,282 @@
+/** =========================
+ * Helper para os apps que recebem o login do portal (app.flowodonto.com.br etc.)
+ *
+ * Não depende de nada do portal: só fetch + WebCrypto. Uso típico:
+ *
+ *   // botão "Entrar"
+ *   await startPortalLogin({ portalUrl: "https://auth.flowodonto.com.br" });
+ *
+ *   // na volta (mesma página do returnTo)
+ *   const session = await completePortalLogin({ supabaseUrl, supabaseAnonKey });
+ *   if (session) await supabase.auth.setSession(session);
+ *   // session.organization_id: clínica escolhida no portal (conferir a associação antes de usar)
+ *
+ *   // token perto de expirar: sessão nova sem tela (iframe oculto; só apps em *.flowodonto.com.br)
+ *   const refreshed = await silentPortalRefresh({ portalUrl, supabaseUrl, supabaseAnonKey, organizationId });
+ *   if (refreshed.session) await supabase.auth.setSession(refreshed.session);
+ *   else if (refreshed.error === "login_required") await startPortalLogin({ portalUrl });
+ *   // fora do iframe: startPortalLogin({ portalUrl, prompt: "none" }) e, na volta, completePortalLogin
+ *   // lança Error("login_required") / Error("interaction_required")
+ *
+ *   // botão "Sair" / "Sair de todos os dispositivos"
+ *   window.location.assign(portalLogoutUrl({ portalUrl, allDevices }));
+ *
+ *   // página /auth/logout-frame (registrada em src/config/front-channel-logout.json do portal;
+ *   // precisa aceitar ser carregada em iframe pelo portal: frame-ancestors)
+ *   await handleFrontChannelLogout({ portalUrl, signOut: () => supabase.auth.signOut({ scope: "local" }) });
+ * ========================= */
+
+export type PortalSession = {
+  access_token: string;
+  refresh_token: string;
+  token_type: "bearer";
+  expires_in: number;
+  /** `?org=` do portal: clínica escolhida (null quando o usuário não tem clínica) */
+  organization_id: string | null;
+};
+
+export type StartPortalLoginOptions = {
+  portalUrl: string;
+  /** Default: URL atual sem code/state */
+  returnTo?: string;
+  storage?: Storage;
+  /** Default: true. Com false só devolve a URL (útil em testes / links) */
+  navigate?: boolean;
+  /** "none": ida e volta sem tela; sem sessão no portal volta com `?error=login_required` */
+  prompt?: "none";
+  /** Clínica em uso no app (com prompt "none", o portal mantém se o usuário ainda for membro) */
+  organizationId?: string | null;
+};
+
+export type CompletePortalLoginOptions = {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  storage?: Storage;
+  /** Default: true. Remove ?code=&state= da barra de endereço */
+  cleanUrl?: boolean;
+};
+
+export type SilentPortalRefreshOptions = {
+  portalUrl: string;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  /** Default: URL atual sem code/state (precisa passar pela allowlist do returnTo do portal) */
+  returnTo?: string;
+  /** Clínica em uso no app; mantida se o usuário ainda for membro */
+  organizationId?: string | null;
+  /** Default: 10000 */
+  timeoutMs?: number;
+};
+
+/** Mesmos códigos de SilentAuthError em src/lib/silent-auth.ts, mais o timeout do próprio iframe */
+export type SilentRefreshError = "login_required" | "interaction_required" | "server_error" | "timeout";
+
+export type SilentRefreshResult =
+  | { session: PortalSession; error: null }
+  | { session: null; error: SilentRefreshError };
+
+export type PortalLogoutOptions = {
+  portalUrl: string;
+  /** Default: URL atual */
+  returnTo?: string;
+  /** Revoga as sessões do usuário em todos os dispositivos (o portal pede confirmação antes) */
+  allDevices?: boolean;
+};
+
+export type FrontChannelLogoutOptions = {
+  portalUrl: string;
+  /** Limpa a sessão local do app */
+  signOut: () => Promise<unknown>;
+};
+
+// Mesmo valor de FRONT_CHANNEL_LOGOUT_MESSAGE em src/lib/logout.ts
+const FRONT_CHANNEL_LOGOUT_MESSAGE = "flowodonto:logout";
+// Mesmo valor de SILENT_AUTH_MESSAGE em src/lib/silent-auth.ts
+const SILENT_AUTH_MESSAGE = "flowodonto:silent-auth";
+const SILENT_ERRORS: readonly SilentRefreshError[] = ["login_required", "interaction_required", "server_error"];
+
+const VERIFIER_KEY = "flowodonto.handoff.verifier";
+const STATE_KEY = "flowodonto.handoff.state";
+
+function base64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function randomString(size: number) {
+  const bytes = new Uint8Array(size);
+  crypto.getRandomValues(bytes);
+  return base64Url(bytes);
+}
+
+export async function pkceChallenge(verifier: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+function currentUrlWithoutCode() {
+  const u = new URL(window.location.href);
+  u.searchParams.delete("code");
+  u.searchParams.delete("state");
+  u.searchParams.delete("org");
+  u.searchParams.delete("error");
+  u.hash = "";
+  return u.toString();
+}
+
+export async function startPortalLogin(opts: StartPortalLoginOptions) {
+  const storage = opts.storage ?? sessionStorage;
+  const verifier = randomString(32);
+  const state = randomString(16);
+
+  storage.setItem(VERIFIER_KEY, verifier);
+  storage.setItem(STATE_KEY, state);
+
+  const u = new URL(opts.portalUrl);
+  u.searchParams.set("returnTo", opts.returnTo ?? currentUrlWithoutCode());
+  u.searchParams.set("code_challenge", await pkceChallenge(verifier));
+  u.searchParams.set("code_challenge_method", "S256");
+  u.searchParams.set("state", state);
+  if (opts.prompt) u.searchParams.set("prompt", opts.prompt);
+  if (opts.organizationId) u.searchParams.set("org", opts.organizationId);
+
+  const url = u.toString();
+  if (opts.navigate !== false) window.location.assign(url);
+  return url;
+}
+
+async function redeemCode(
+  opts: { supabaseUrl: string; supabaseAnonKey: string },
+  code: string,
+  verifier: string,
+  organizationId: string | null
+): Promise<PortalSession> {
+  const res = await fetch(`${opts.supabaseUrl.replace(/\/+$/, "")}/functions/v1/auth-handoff`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: opts.supabaseAnonKey,
+      Authorization: `Bearer ${opts.supabaseAnonKey}`,
+    },
+    body: JSON.stringify({ action: "redeem", code, code_verifier: verifier }),
+  });
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok || !body?.access_token) {
+    throw new Error(body?.error || `Falha ao trocar o código (${res.status})`);
+  }
+  return { ...body, organization_id: organizationId } as PortalSession;
+}
+
+/**
+ * Troca o `?code=` recebido do portal pela sessão. Retorna null se não há código na URL.
+ * Lança erro se este navegador não começou o login (sem state/verifier guardados), se o state
+ * não confere ou se o portal recusar o código (expirado, já usado, origem errada).
+ * Na volta de um `prompt: "none"` sem sessão, lança Error com o código (`login_required`, ...).
+ */
+export async function completePortalLogin(opts: CompletePortalLoginOptions): Promise<PortalSession | null> {
+  const storage = opts.storage ?? sessionStorage;
+  const params = new URLSearchParams(window.location.search);
+  const code = params.get("code");
+  // `?error=` só conta como resposta do portal quando vem com o state
+  const silentError = params.has("state") ? params.get("error") : null;
+  if (!code && !silentError) return null;
+
+  const expectedState = storage.getItem(STATE_KEY);
+  const verifier = storage.getItem(VERIFIER_KEY);
+  storage.removeItem(STATE_KEY);
+  storage.removeItem(VERIFIER_KEY);
+
+  if (opts.cleanUrl !== false) {
+    window.history.replaceState(window.history.state, "", currentUrlWithoutCode());
+  }
+
+  // código que não foi pedido daqui (link de terceiro) nunca é resgatado: login CSRF / fixação de sessão
+  if (!expectedState || !verifier || params.get("state") !== expectedState) {
+    throw new Error("state inválido no retorno do portal");
+  }
+  if (!code) throw new Error(silentError ?? "server_error");
+
+  return redeemCode(opts, code, verifier, params.get("org"));
+}
+
+/**
+ * Sessão nova sem tela: abre o portal com `prompt=none` num iframe oculto e espera
+ * o código (postMessage) ou o erro. Nunca lança; `login_required` = mandar para o login.
+ * Só funciona com o app no mesmo site do portal (senão o navegador isola o storage do iframe);
+ * fora disso, usar `startPortalLogin({ prompt: "none" })`.
+ */
+export async function silentPortalRefresh(opts: SilentPortalRefreshOptions): Promise<SilentRefreshResult> {
+  const verifier = randomString(32);
+  const state = randomString(16);
+  const portalOrigin = new URL(opts.portalUrl).origin;
+
+  const u = new URL(opts.portalUrl);
+  u.searchParams.set("prompt", "none");
+  u.searchParams.set("returnTo", opts.returnTo ?? currentUrlWithoutCode());
+  u.searchParams.set("code_challenge", await pkceChallenge(verifier));
+  u.searchParams.set("code_challenge_method", "S256");
+  u.searchParams.set("state", state);
+  if (opts.organizationId) u.searchParams.set("org", opts.organizationId);
+
+  const reply = await new Promise<{ code?: unknown; org?: unknown; error?: unknown } | null>((resolve) => {
+    const frame = document.createElement("iframe");
+
+    const finish = (data: { code?: unknown; org?: unknown; error?: unknown } | null) => {
+      window.removeEventListener("message", onMessage);
+      clearTimeout(timer);
+      frame.remove();
+      resolve(data);
+    };
+
+    const onMessage = (e: MessageEvent) => {
+      if (e.origin !== portalOrigin || e.source !== frame.contentWindow) return;
+      if (!e.data || e.data.type !== SILENT_AUTH_MESSAGE || e.data.state !== state) return;
+      finish(e.data);
+    };
+
+    window.addEventListener("message", onMessage);
+    const timer = setTimeout(() => finish(null), opts.timeoutMs ?? 10_000);
+
+    frame.src = u.toString();
+    frame.title = "silent-auth";
+    frame.setAttribute("aria-hidden", "true");
+    frame.style.display = "none";
+    document.body.appendChild(frame);
+  });
+
+  if (!reply) return { session: null, error: "timeout" };
+  if (typeof reply.code !== "string") {
+    const error = SILENT_ERRORS.find((c) => c === reply.error) ?? "server_error";
+    return { session: null, error };
+  }
+
+  try {
+    const session = await redeemCode(opts, reply.code, verifier, typeof reply.org === "string" ? reply.org : null);
+    return { session, error: null };
+  } catch {
+    return { session: null, error: "server_error" };
+  }
+}
+
+export function portalLogoutUrl(opts: PortalLogoutOptions) {
+  const u = new URL("/logout", opts.portalUrl);
+  u.searchParams.set("returnTo", opts.returnTo ?? window.location.href);
+  if (opts.allDevices) u.searchParams.set("scope", "global");
+  return u.toString();
+}
+
+/**
+ * Roda na página de logout do app, aberta pelo portal num iframe oculto.
+ * Só responde se estiver mesmo dentro do portal; fora de iframe apenas limpa a sessão.
+ */
+export async function handleFrontChannelLogout(opts: FrontChannelLogoutOptions) {
+  try {
+    await opts.signOut();
+  } finally {
+    if (window.parent !== window) {
+      window.parent.postMessage({ type: FRONT_CHANNEL_LOGOUT_MESSAGE }, new URL(opts.portalUrl).origin);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { supabase } from "@/supabaseClient";
+
+/** =========================
+ * Handoff da sessão para os apps (código de uso único)
+ *
+ * O portal não coloca mais access_token/refresh_token na URL. Ele pede à edge
+ * function `auth-handoff` um código curto (60s, uso único, preso à origem do
+ * returnTo e ao code_challenge PKCE) e redireciona com `?code=...&state=...`.
+ * O app troca o código pela sessão com `completePortalLogin` (ver `handoff-client.ts`).
+ * Sem code_challenge não há código: o app não começou o login e não saberia resgatar.
+ * ========================= */
+
+export const HANDOFF_FUNCTION = "auth-handoff";
+
+export type HandoffSession = {
+  access_token: string;
+  refresh_token?: string | null;
+  expires_in?: number | null;
+};
+
+export type HandoffRequest = {
+  codeChallenge: string | null;
+  codeChallengeMethod: "S256" | null;
+  state: string | null;
+  /** App legado pediu o formato antigo (#access_token=...) */
+  legacyHash: boolean;
+};
+
+// Parâmetros que precisam sobreviver a qualquer navegação dentro do portal
+export const HANDOFF_PARAMS = ["code_challenge", "code_challenge_method", "state", "handoff"] as const;
+
+function legacyHashAllowed() {
+  const v = String(import.meta.env.VITE_AUTH_LEGACY_HASH_HANDOFF ?? "").toLowerCase();
+  return v === "1" || v === "true" || v === "yes";
+}
+
+export function readHandoffRequest(params: URLSearchParams): HandoffRequest {
+  const codeChallenge = params.get("code_challenge");
+  const method = params.get("code_challenge_method");
+  const validChallenge = !!codeChallenge && /^[A-Za-z0-9_-]{43,128}$/.test(codeChallenge);
+
+  return {
+    codeChallenge: validChallenge ? codeChallenge : null,
+    // só aceitamos S256; "plain" não protege nada aqui
+    codeChallengeMethod: validChallenge && (method ?? "S256") === "S256" ? "S256" : null,
+    state: params.get("state"),
+    // Opt-in duplo: a implantação precisa liberar e o app precisa pedir (e não pode ter mandado PKCE)
+    legacyHash: legacyHashAllowed() && params.get("handoff") === "hash" && !validChallenge,
+  };
+}
+
+// Copia os parâmetros do handoff para outra URL do portal (OAuth, e-mail de confirmação, links)
+export function withHandoffParams(target: URLSearchParams, req: HandoffRequest) {
+  if (req.codeChallenge) {
+    target.set("code_challenge", req.codeChallenge);
+    target.set("code_challenge_method", req.codeChallengeMethod ?? "S256");
+  }
+  if (req.state) target.set("state", req.state);
+  if (req.legacyHash) target.set("handoff", "hash");
+  return target;
+}
+
+export async function issueHandoffCode(
+  session: HandoffSession,
+  returnTo: string,
+  req: HandoffRequest
+): Promise<{ code: string; error: null } | { code: null; error: { message: string } }> {
+  if (!req.codeChallenge) return { code: null, error: { message: "code_challenge ausente" } };
+
+  let origin: string;
+  try {
+    origin = new URL(returnTo).origin;
+  } catch {
+    return { code: null, error: { message: "returnTo inválido" } };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke<{ code?: string }>(HANDOFF_FUNCTION, {
+      headers: { Authorization: `Bearer ${session.access_token}` },
+      body: {
+        action: "issue",
+        origin,
+        refresh_token: session.refresh_token ?? "",
+        expires_in: session.expires_in ?? 3600,
+        code_challenge: req.codeChallenge,
+        code_challenge_method: req.codeChallengeMethod,
+      },
+    });
+    if (error || !data?.code) {
+      return { code: null, error: { message: error?.message || "Não foi possível gerar o código de acesso" } };
+    }
+    return { code: data.code, error: null };
+  } catch (e) {
+    return { code: null, error: { message: e instanceof Error ? e.message : "Falha no handoff" } };
+  }
+}
+
+export function buildCodeRedirect(base: string, code: string, state: string | null) {
+  const u = new URL(base);
+  u.hash = "";
+  u.searchParams.set("code", code);
+  if (state) u.searchParams.set("state", state);
+  return u.toString();
+}
+
+/** Formato antigo, só para apps ainda não migrados (VITE_AUTH_LEGACY_HASH_HANDOFF + ?handoff=hash) */
+export function buildLegacyHashRedirect(base: string, session: HandoffSession) {
+  return (
+    base +
+    `#access_token=${encodeURIComponent(session.access_token)}` +
+    `&refresh_token=${encodeURIComponent(session.refresh_token ?? "")}` +
+    `&token_type=bearer` +
+    `&expires_in=${encodeURIComponent(String(session.expires_in ?? 3600))}`
+  );
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { readLogoutRequest } from "@/lib/logout";
+
+const APP = "https://app.flowodonto.com.br/";
+const params = (qs: string) => new URLSearchParams(qs);
+
+describe("readLogoutRequest", () => {
+  it("login comum não é logout", () => {
+    expect(readLogoutRequest(params(`returnTo=${encodeURIComponent(APP)}`), "/", APP)).toBeNull();
+  });
+
+  it("?logout=1 e /logout derrubam só este dispositivo", () => {
+    expect(readLogoutRequest(params("logout=1"), "/", APP)).toEqual({ scope: "local" });
+    expect(readLogoutRequest(params("logout=true"), "/", APP)).toEqual({ scope: "local" });
+    expect(readLogoutRequest(params(""), "/logout", APP)).toEqual({ scope: "local" });
+  });
+
+  it("?logout=all e scope=global derrubam todos", () => {
+    expect(readLogoutRequest(params("logout=all"), "/", APP)).toEqual({ scope: "global" });
+    expect(readLogoutRequest(params("logout=1&scope=global"), "/", APP)).toEqual({ scope: "global" });
+  });
+
+  it("logout=1 dentro do returnTo (apps antigos)", () => {
+    const returnTo = `${APP}?logout=1`;
+    expect(readLogoutRequest(params(`returnTo=${encodeURIComponent(returnTo)}`), "/", returnTo)).toEqual({
+      scope: "local",
+    });
+  });
+
+  it("returnTo recusado pela allowlist ainda respeita o logout pedido no bruto", () => {
+    const raw = `https://evil.com/?logout=1`;
+    expect(readLogoutRequest(params(`returnTo=${encodeURIComponent(raw)}`), "/", APP)).toEqual({ scope: "local" });
+  });
+
+  it("valores falsos não disparam logout", () => {
+    expect(readLogoutRequest(params("logout=0"), "/", APP)).toBeNull();
+    expect(readLogoutRequest(params("logout=no"), "/", APP)).toBeNull();
+    expect(readLogoutRequest(params("logout="), "/logoutx", APP)).toBeNull();
+  });
+});
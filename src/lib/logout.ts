@@ -0,0 +1,126 @@
+import frontChannelFile from "@/config/front-channel-logout.json";
+import type { SignOutScope } from "@/auth/types";
+import { isAllowedReturnTo } from "@/lib/return-to";
+import { currentEnvironment } from "@/lib/return-to-config";
+
+/** =========================
+ * Logout único (portal + apps)
+ *
+ * 1. O portal revoga a sessão no servidor: "local" derruba só a deste
+ *    navegador, "global" derruba todos os dispositivos. O "global" só roda
+ *    depois que a pessoa confirma na tela do portal (LogoutConfirmPage): o
+ *    link pode vir de qualquer página.
+ * 2. Front-channel: cada app registrado abre num iframe oculto a sua página
+ *    de logout (ver `handleFrontChannelLogout` em handoff-client.ts), que
+ *    limpa a sessão do app e responde com postMessage.
+ * 3. Volta para o returnTo limpo.
+ *
+ * Apps registrados, em ordem:
+ *  1. VITE_FRONT_CHANNEL_LOGOUT_URLS — URLs separadas por vírgula (sobrescreve tudo)
+ *  2. src/config/front-channel-logout.json — chaveado pelo ambiente
+ * Toda URL precisa passar pela allowlist do returnTo.
+ * ========================= */
+
+export const FRONT_CHANNEL_LOGOUT_MESSAGE = "flowodonto:logout";
+const FRONT_CHANNEL_TIMEOUT_MS = 3000;
+
+export type LogoutRequest = { scope: Extract<SignOutScope, "local" | "global"> };
+
+function truthyParam(v: string | null) {
+  const x = (v ?? "").toLowerCase();
+  return x === "1" || x === "true" || x === "yes";
+}
+
+/**
+ * `?logout=1` ou `/logout` = este dispositivo; `?logout=all` ou `&scope=global` = todos (depois da confirmação).
+ * O `logout=1` também vale dentro do returnTo (apps antigos mandam assim).
+ */
+export function readLogoutRequest(params: URLSearchParams, pathname: string, returnTo: string): LogoutRequest | null {
+  const logout = (params.get("logout") ?? "").toLowerCase();
+  const global = logout === "all" || params.get("scope") === "global";
+
+  let requested = global || truthyParam(logout) || pathname === "/logout";
+  if (!requested) {
+    try {
+      requested = truthyParam(new URL(returnTo).searchParams.get("logout"));
+    } catch {
+      // ignore
+    }
+  }
+  if (!requested) {
+    const raw = params.get("returnTo") ?? "";
+    requested = raw.includes("logout%3D1") || raw.includes("logout=1");
+  }
+
+  return requested ? { scope: global ? "global" : "local" } : null;
+}
+
+export function parseFrontChannelUrls(raw: unknown): string[] {
+  if (!Array.isArray(raw)) throw new Error("front-channel logout: esperada lista de URLs");
+  return raw.filter((u): u is string => {
+    const ok = typeof u === "string" && isAllowedReturnTo(u);
+    if (!ok) console.warn("[logout] URL de front-channel fora da allowlist ignorada:", u);
+    return ok;
+  });
+}
+
+export function loadFrontChannelUrls(
+  env = currentEnvironment(),
+  override = import.meta.env.VITE_FRONT_CHANNEL_LOGOUT_URLS,
+  file: Record<string, unknown> = frontChannelFile
+): string[] {
+  if (override) {
+    return parseFrontChannelUrls(
+      override
+        .split(",")
+        .map((u) => u.trim())
+        .filter(Boolean)
+    );
+  }
+  return parseFrontChannelUrls(file[env] ?? file.production);
+}
+
+export const frontChannelLogoutUrls = loadFrontChannelUrls();
+
+/**
+ * Abre a página de logout de cada app num iframe oculto e espera a confirmação
+ * (postMessage) ou o timeout. Devolve as URLs que não confirmaram.
+ */
+export function frontChannelLogout(
+  urls: string[] = frontChannelLogoutUrls,
+  timeoutMs = FRONT_CHANNEL_TIMEOUT_MS
+): Promise<string[]> {
+  if (urls.length === 0) return Promise.resolve([]);
+
+  return new Promise((resolve) => {
+    const pending = new Map(urls.map((u) => [new URL(u).origin, u]));
+    const frames: HTMLIFrameElement[] = [];
+
+    const finish = () => {
+      window.removeEventListener("message", onMessage);
+      clearTimeout(timer);
+      for (const f of frames) f.remove();
+      resolve([...pending.values()]);
+    };
+
+    const onMessage = (e: MessageEvent) => {
+      if (!pending.has(e.origin)) return;
+      if (!e.data || e.data.type !== FRONT_CHANNEL_LOGOUT_MESSAGE) return;
+      pending.delete(e.origin);
+      if (pending.size === 0) finish();
+    };
+
+    window.addEventListener("message", onMessage);
+    const timer = setTimeout(finish, timeoutMs);
+
+    for (const url of urls) {
+      const f = document.createElement("iframe");
+      f.src = url;
+      f.title = "logout";
+      f.setAttribute("aria-hidden", "true");
+      f.style.display = "none";
+      document.body.appendChild(f);
+      frames.push(f);
+    }
+  });
+}
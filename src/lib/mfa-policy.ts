@@ -0,0 +1,36 @@
+import type { AuthUser, MfaAssurance } from "@/auth/types";
+
+/** =========================
+ * Política de MFA (por deployment)
+ *
+ * VITE_MFA_REQUIRED_ROLES — papéis do app_metadata que só seguem para o app
+ * com TOTP verificado, separados por vírgula ("admin,dentista"). "*" vale
+ * para todo mundo; vazio deixa o MFA só para quem já cadastrou.
+ * ========================= */
+
+export type MfaStep = "challenge" | "enroll";
+
+export function parseRequiredRoles(raw: string | undefined) {
+  return (raw ?? "")
+    .split(",")
+    .map((r) => r.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export const mfaRequiredRoles = parseRequiredRoles(import.meta.env.VITE_MFA_REQUIRED_ROLES);
+
+export function isMfaRequired(user: AuthUser, required: string[] = mfaRequiredRoles) {
+  if (required.includes("*")) return true;
+  return user.roles.some((r) => required.includes(r.toLowerCase()));
+}
+
+/** O que falta antes do handoff: desafio (já tem TOTP), cadastro (política exige) ou nada */
+export function resolveMfaStep(
+  assurance: MfaAssurance,
+  user: AuthUser,
+  required: string[] = mfaRequiredRoles
+): MfaStep | null {
+  if (assurance.current === "aal2") return null;
+  if (assurance.next === "aal2") return "challenge";
+  return isMfaRequired(user, required) ? "enroll" : null;
+}
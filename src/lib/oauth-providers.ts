@@ -0,0 +1,110 @@
+import providersFile from "@/config/oauth-providers.json";
+import type { OAuthOptions, OAuthProvider } from "@/auth/types";
+import { currentEnvironment } from "@/lib/return-to-config";
+
+/** =========================
+ * Registro de provedores OAuth (por ambiente)
+ *
+ * Fonte, em ordem:
+ *  1. VITE_OAUTH_PROVIDERS — JSON de uma lista de OAuthProviderConfig (sobrescreve tudo)
+ *  2. src/config/oauth-providers.json — chaveado pelo ambiente (VITE_APP_ENV ou o mode do Vite)
+ *
+ * Ligar um provedor aqui não basta: ele também precisa estar ativo no Supabase Auth.
+ * ========================= */
+
+export type OAuthProviderConfig = OAuthOptions & {
+  id: OAuthProvider;
+  /** Nome da marca (não traduzido) */
+  label: string;
+  /** Chave do ícone em OAuthButtons. Default: o próprio id */
+  icon: string;
+  enabled: boolean;
+};
+
+export type OAuthProvidersConfigFile = Record<string, unknown[]>;
+
+const KNOWN_PROVIDERS: readonly OAuthProvider[] = [
+  "google",
+  "facebook",
+  "apple",
+  "azure",
+  "github",
+  "gitlab",
+  "linkedin_oidc",
+  "keycloak",
+];
+
+function fail(msg: string): never {
+  throw new Error(`config de provedores OAuth inválida: ${msg}`);
+}
+
+function parseProvider(raw: unknown, i: number): OAuthProviderConfig {
+  if (!raw || typeof raw !== "object") fail(`[${i}] precisa ser objeto`);
+  const r = raw as Record<string, unknown>;
+
+  if (!KNOWN_PROVIDERS.includes(r.id as OAuthProvider)) fail(`[${i}].id desconhecido: ${String(r.id)}`);
+  const id = r.id as OAuthProvider;
+
+  if (typeof r.label !== "string" || !r.label.trim()) fail(`[${i}].label ausente`);
+  if (r.icon !== undefined && typeof r.icon !== "string") fail(`[${i}].icon precisa ser string`);
+  if (r.scopes !== undefined && typeof r.scopes !== "string") fail(`[${i}].scopes precisa ser string`);
+
+  let queryParams: Record<string, string> | undefined;
+  if (r.queryParams !== undefined) {
+    const q = r.queryParams;
+    if (!q || typeof q !== "object" || Object.values(q).some((v) => typeof v !== "string")) {
+      fail(`[${i}].queryParams precisa ser objeto de strings`);
+    }
+    queryParams = q as Record<string, string>;
+  }
+
+  return {
+    id,
+    label: r.label,
+    icon: (r.icon as string | undefined) ?? id,
+    enabled: r.enabled !== false,
+    scopes: r.scopes as string | undefined,
+    queryParams,
+  };
+}
+
+export function parseOAuthProviders(raw: unknown): OAuthProviderConfig[] {
+  if (!Array.isArray(raw)) fail("esperada uma lista de provedores");
+
+  const list = raw.map(parseProvider);
+  const ids = new Set(list.map((p) => p.id));
+  if (ids.size !== list.length) fail("provedor repetido");
+  return list;
+}
+
+export function loadOAuthProviders(
+  env = currentEnvironment(),
+  override = import.meta.env.VITE_OAUTH_PROVIDERS,
+  file: OAuthProvidersConfigFile = providersFile as OAuthProvidersConfigFile
+): OAuthProviderConfig[] {
+  if (override) {
+    try {
+      return parseOAuthProviders(JSON.parse(override));
+    } catch (e) {
+      console.error("[oauth] VITE_OAUTH_PROVIDERS ignorada:", e);
+    }
+  }
+
+  const entry = file[env] ?? file.production;
+  if (!file[env]) console.warn(`[oauth] ambiente "${env}" sem config; usando production`);
+  return parseOAuthProviders(entry);
+}
+
+export const oauthProviders = loadOAuthProviders();
+
+/** Só os ligados, na ordem da config — é isso que login e cadastro mostram */
+export const enabledOAuthProviders = oauthProviders.filter((p) => p.enabled);
+
+export function findOAuthProvider(id: OAuthProvider, list: OAuthProviderConfig[] = enabledOAuthProviders) {
+  return list.find((p) => p.id === id) ?? null;
+}
+
+/** Nome da marca para telas que mostram provedores já ligados (inclusive os desligados no ambiente) */
+export function oauthProviderLabel(id: string) {
+  return oauthProviders.find((p) => p.id === id)?.label ?? id;
+}
@@ -0,0 +1,55 @@
+import type { Organization } from "@/auth/types";
+
+/** =========================
+ * Clínica escolhida depois do login
+ *
+ * Vai para o app como `?org=<id>` ao lado do `?code=` do handoff. É só a
+ * escolha do usuário: o app confere a associação antes de usar.
+ * A última escolhida (por usuário, neste navegador) vem primeiro na lista.
+ * ========================= */
+
+export const ORGANIZATION_PARAM = "org";
+
+const LAST_KEY = "flowodonto.lastOrganization";
+
+function readAll(): Record<string, string> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LAST_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function readLastOrganization(userId: string): string | null {
+  const id = readAll()[userId];
+  return typeof id === "string" ? id : null;
+}
+
+export function saveLastOrganization(userId: string, organizationId: string) {
+  try {
+    localStorage.setItem(LAST_KEY, JSON.stringify({ ...readAll(), [userId]: organizationId }));
+  } catch {
+    // sem storage: a lista só não vem ordenada pela última escolha
+  }
+}
+
+/** Última usada primeiro; o resto em ordem alfabética */
+export function sortByLastUsed(organizations: Organization[], lastId: string | null) {
+  return [...organizations].sort((a, b) => {
+    if (a.id === lastId) return -1;
+    if (b.id === lastId) return 1;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+export function withOrganization(urlStr: string, organizationId: string | null) {
+  if (!organizationId) return urlStr;
+  try {
+    const u = new URL(urlStr);
+    u.searchParams.set(ORGANIZATION_PARAM, organizationId);
+    return u.toString();
+  } catch {
+    return urlStr;
+  }
+}
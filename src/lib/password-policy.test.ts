@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMemoryRangeApi } from "@/lib/breached-password";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  checkPasswordRules,
+  containsPersonalInfo,
+  parsePasswordPolicy,
+  passwordPolicyError,
+  passwordStrength,
+  validateNewPassword,
+  type PasswordPolicy,
+} from "@/lib/password-policy";
+
+const ALL: PasswordPolicy = { ...DEFAULT_PASSWORD_POLICY, requireSymbol: true, checkBreached: false };
+
+function failing(password: string, policy: PasswordPolicy = ALL) {
+  return checkPasswordRules(password, {}, policy)
+    .filter((r) => !r.ok)
+    .map((r) => r.id);
+}
+
+describe("parsePasswordPolicy", () => {
+  it("mescla o JSON parcial sobre o default", () => {
+    expect(parsePasswordPolicy('{"minLength":12,"requireSymbol":true}')).toEqual({
+      ...DEFAULT_PASSWORD_POLICY,
+      minLength: 12,
+      requireSymbol: true,
+    });
+    expect(parsePasswordPolicy(undefined)).toBe(DEFAULT_PASSWORD_POLICY);
+  });
+
+  it.each([
+    ["JSON quebrado", "{"],
+    ["tipo errado", '{"requireDigit":"sim"}'],
+    ["mínimo baixo demais", '{"minLength":4}'],
+  ])("%s volta para o default", (_, raw) => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(parsePasswordPolicy(raw)).toBe(DEFAULT_PASSWORD_POLICY);
+  });
+});
+
+describe("checkPasswordRules", () => {
+  it("senha que cumpre tudo", () => {
+    expect(failing("Odonto!Forte42")).toEqual([]);
+  });
+
+  it("aponta cada regra quebrada", () => {
+    expect(failing("curta")).toEqual(["minLength", "uppercase", "digit", "symbol"]);
+    expect(failing("SOMENTE-MAIUSCULA-1")).toEqual(["lowercase"]);
+  });
+
+  it("acentuadas contam como letra", () => {
+    expect(failing("ção-ÁGUA-1234")).toEqual([]);
+  });
+
+  it("÷ e × não contam como letra minúscula / maiúscula", () => {
+    expect(failing("÷÷÷÷÷÷×××××1")).toEqual(expect.arrayContaining(["lowercase", "uppercase"]));
+    expect(failing("÷÷÷÷÷÷×××××1")).not.toContain("symbol");
+  });
+
+  it("só as regras ligadas entram no checklist", () => {
+    const ids = checkPasswordRules("x", {}, { ...ALL, requireSymbol: false, forbidPersonalInfo: false }).map((r) => r.id);
+    expect(ids).toEqual(["minLength", "lowercase", "uppercase", "digit"]);
+  });
+});
+
+describe("containsPersonalInfo", () => {
+  const ctx = { email: "ana.souza@clinica.com", name: "Ana Souza" };
+
+  it("pega o e-mail e os nomes, sem acento e sem caixa", () => {
+    expect(containsPersonalInfo("xx-SOUZA-2026", ctx)).toBe(true);
+    expect(containsPersonalInfo("anasouza!!99", ctx)).toBe(true);
+    expect(containsPersonalInfo("João!Forte42", { name: "João Lima" })).toBe(true);
+  });
+
+  it("partes com menos de 3 letras não contam", () => {
+    expect(containsPersonalInfo("Odonto!Forte42", { name: "Li Wu" })).toBe(false);
+  });
+});
+
+describe("passwordStrength", () => {
+  it("cresce com tamanho e variedade", () => {
+    expect(passwordStrength("")).toBe(0);
+    expect(passwordStrength("abc")).toBe(0);
+    expect(passwordStrength("Odonto!Forte42")).toBe(4);
+  });
+
+  it("sequências, repetições e dados pessoais derrubam a nota", () => {
+    expect(passwordStrength("Abcd12345678")).toBeLessThan(passwordStrength("Kx7mQ2vR9pLw"));
+    expect(passwordStrength("Souza!Forte42", { name: "Ana Souza" })).toBeLessThan(passwordStrength("Souza!Forte42"));
+  });
+});
+
+describe("validateNewPassword", () => {
+  const breached = createMemoryRangeApi(["Odonto!Forte42"]);
+
+  it("regra quebrada vem antes da consulta de vazamento", async () => {
+    expect(await validateNewPassword("curta", {}, DEFAULT_PASSWORD_POLICY, breached)).toEqual(
+      passwordPolicyError("curta", {}, DEFAULT_PASSWORD_POLICY)
+    );
+  });
+
+  it("senha vazada é recusada; API fora do ar não bloqueia", async () => {
+    expect((await validateNewPassword("Odonto!Forte42", {}, DEFAULT_PASSWORD_POLICY, breached))?.message).toBe(
+      "validation.passwordBreached"
+    );
+
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const down = async () => Promise.reject(new Error("fora do ar"));
+    expect(await validateNewPassword("Odonto!Forte42", {}, DEFAULT_PASSWORD_POLICY, down)).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import type { AuthErrorDescription } from "@/auth/error-catalog";
+import type { MessageKey, MessageValues } from "@/i18n/i18n";
+import { breachedPasswordCount, defaultRangeApi, type PwnedRangeApi } from "@/lib/breached-password";
+
+/** =========================
+ * Política de senha (cadastro e nova senha)
+ *
+ * VITE_PASSWORD_POLICY — JSON parcial de PasswordPolicy, mesclado sobre o
+ * default. O Supabase Auth deve ter uma política igual ou mais fraca: esta
+ * é a que o usuário vê.
+ * ========================= */
+
+export type PasswordPolicy = {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  /** Recusa senha que contenha o e-mail (parte antes do @) ou partes do nome */
+  forbidPersonalInfo: boolean;
+  /** Consulta a API de senhas vazadas (breached-password.ts) antes de enviar */
+  checkBreached: boolean;
+};
+
+export type PasswordContext = {
+  email?: string;
+  name?: string;
+};
+
+export type PasswordRuleId = "minLength" | "lowercase" | "uppercase" | "digit" | "symbol" | "personalInfo";
+
+export type PasswordRuleResult = {
+  id: PasswordRuleId;
+  ok: boolean;
+  /** Texto da regra no checklist */
+  label: MessageKey;
+  /** Mensagem quando é a regra que barrou o envio */
+  error: MessageKey;
+  values?: MessageValues;
+};
+
+/** 0 = muito fraca ... 4 = forte */
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 10,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  forbidPersonalInfo: true,
+  checkBreached: true,
+};
+
+export function parsePasswordPolicy(raw: string | undefined): PasswordPolicy {
+  if (!raw) return DEFAULT_PASSWORD_POLICY;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<Record<keyof PasswordPolicy, unknown>>;
+    const policy = { ...DEFAULT_PASSWORD_POLICY };
+    for (const key of Object.keys(DEFAULT_PASSWORD_POLICY) as (keyof PasswordPolicy)[]) {
+      const v = parsed[key];
+      if (v === undefined) continue;
+      if (typeof v !== typeof DEFAULT_PASSWORD_POLICY[key]) throw new Error(`${key} com tipo inválido`);
+      (policy as Record<string, unknown>)[key] = v;
+    }
+    if (!Number.isInteger(policy.minLength) || policy.minLength < 6) throw new Error("minLength precisa ser inteiro >= 6");
+    return policy;
+  } catch (e) {
+    console.error("[password] VITE_PASSWORD_POLICY ignorada:", e);
+    return DEFAULT_PASSWORD_POLICY;
+  }
+}
+
+export const passwordPolicy = parsePasswordPolicy(import.meta.env.VITE_PASSWORD_POLICY);
+
+// letras com caixa (inclui acentuadas); ÷ e × ficam no meio dos blocos Latin-1 e não contam
+const LOWER = /\p{Ll}/u;
+const UPPER = /\p{Lu}/u;
+const DIGIT = /\d/;
+const SYMBOL = /[^\p{L}\p{N}]/u;
+
+function personalTokens(ctx: PasswordContext) {
+  const local = (ctx.email ?? "").split("@")[0];
+  const names = (ctx.name ?? "").split(/\s+/);
+  return [local, ...names]
+    .map((s) =>
+      s
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, "")
+    )
+    .filter((s) => s.length >= 3);
+}
+
+export function containsPersonalInfo(password: string, ctx: PasswordContext) {
+  const p = password
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+  return personalTokens(ctx).some((token) => p.includes(token));
+}
+
+/** Regras ligadas na política, na ordem do checklist */
+export function checkPasswordRules(
+  password: string,
+  ctx: PasswordContext = {},
+  policy: PasswordPolicy = passwordPolicy
+): PasswordRuleResult[] {
+  const rules: PasswordRuleResult[] = [
+    {
+      id: "minLength",
+      ok: password.length >= policy.minLength,
+      label: "password.rule.minLength",
+      error: "validation.passwordTooShort",
+      values: { min: policy.minLength },
+    },
+  ];
+
+  if (policy.requireLowercase) {
+    rules.push({ id: "lowercase", ok: LOWER.test(password), label: "password.rule.lowercase", error: "validation.passwordLowercase" });
+  }
+  if (policy.requireUppercase) {
+    rules.push({ id: "uppercase", ok: UPPER.test(password), label: "password.rule.uppercase", error: "validation.passwordUppercase" });
+  }
+  if (policy.requireDigit) {
+    rules.push({ id: "digit", ok: DIGIT.test(password), label: "password.rule.digit", error: "validation.passwordDigit" });
+  }
+  if (policy.requireSymbol) {
+    rules.push({ id: "symbol", ok: SYMBOL.test(password), label: "password.rule.symbol", error: "validation.passwordSymbol" });
+  }
+  if (policy.forbidPersonalInfo) {
+    rules.push({
+      id: "personalInfo",
+      ok: !!password && !containsPersonalInfo(password, ctx),
+      label: "password.rule.personalInfo",
+      error: "validation.passwordPersonalInfo",
+    });
+  }
+
+  return rules;
+}
+
+// Estimativa simples de entropia com descontos para padrões óbvios. Só alimenta o medidor
+export function passwordStrength(password: string, ctx: PasswordContext = {}): PasswordStrength {
+  if (!password) return 0;
+
+  let pool = 0;
+  if (LOWER.test(password)) pool += 26;
+  if (UPPER.test(password)) pool += 26;
+  if (DIGIT.test(password)) pool += 10;
+  if (SYMBOL.test(password)) pool += 33;
+
+  let bits = password.length * Math.log2(Math.max(pool, 2));
+  if (/(.)\1{2,}/.test(password)) bits *= 0.7;
+  if (/(?:0123|1234|2345|3456|4567|5678|6789|abcd|qwer|asdf)/i.test(password)) bits *= 0.7;
+  if (containsPersonalInfo(password, ctx)) bits *= 0.5;
+
+  if (bits < 28) return 0;
+  if (bits < 40) return 1;
+  if (bits < 55) return 2;
+  if (bits < 70) return 3;
+  return 4;
+}
+
+/** Primeira regra quebrada, no formato do FormError */
+export function passwordPolicyError(
+  password: string,
+  ctx: PasswordContext = {},
+  policy: PasswordPolicy = passwordPolicy
+): AuthErrorDescription | null {
+  const broken = checkPasswordRules(password, ctx, policy).find((r) => !r.ok);
+  return broken ? { message: broken.error, values: broken.values } : null;
+}
+
+/** Regras locais + senha vazada. Falha da API de vazamentos não bloqueia o envio */
+export async function validateNewPassword(
+  password: string,
+  ctx: PasswordContext = {},
+  policy: PasswordPolicy = passwordPolicy,
+  rangeApi: PwnedRangeApi | null = defaultRangeApi
+): Promise<AuthErrorDescription | null> {
+  const ruleError = passwordPolicyError(password, ctx, policy);
+  if (ruleError) return ruleError;
+
+  if (policy.checkBreached) {
+    const count = await breachedPasswordCount(password, rangeApi);
+    if (count) return { message: "validation.passwordBreached", hint: "validation.passwordBreached.hint" };
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import returnToFile from "@/config/return-to.json";
+import { parseReturnToConfig, type ReturnToConfigFile } from "@/lib/return-to-config";
+
+const FALLBACK = "https://www.flowodonto.com.br/account";
+
+function withHost(host: string) {
+  return () => parseReturnToConfig({ fallback: FALLBACK, allow: [{ host }] });
+}
+
+describe("parseReturnToConfig", () => {
+  it.each([
+    "app.flowodonto.com.br",
+    "*.flowodonto.com.br",
+    "app-*.flowodonto.com.br",
+    "flowodonto-*-flowodonto.vercel.app",
+    "localhost",
+  ])("aceita %s", (host) => {
+    expect(withHost(host)().allow[0].host).toBe(host);
+  });
+
+  it.each([
+    "*",
+    "*.com",
+    "*.br",
+    "*.com.br",
+    "*.vercel.app",
+    "*.github.io",
+    "*-flowodonto.vercel.app",
+    "flowodonto-*.vercel.app",
+    "*.*.com.br",
+  ])("recusa curinga sobre sufixo público: %s", (host) => {
+    expect(withHost(host)).toThrow(/genérico demais/);
+  });
+
+  it("todos os ambientes do return-to.json carregam", () => {
+    for (const [env, entry] of Object.entries(returnToFile as ReturnToConfigFile)) {
+      expect(() => parseReturnToConfig(entry), env).not.toThrow();
+    }
+  });
+
+  it("recusa fallback relativo e allow vazio", () => {
+    expect(() => parseReturnToConfig({ fallback: "/account", allow: [{ host: "flowodonto.com.br" }] })).toThrow(/fallback/);
+    expect(() => parseReturnToConfig({ fallback: FALLBACK, allow: [] })).toThrow(/allow/);
+  });
+});
@@ -0,0 +1,139 @@
+import returnToFile from "@/config/return-to.json";
+
+/** =========================
+ * Allowlist de destinos do returnTo (por ambiente)
+ *
+ * Fonte, em ordem:
+ *  1. VITE_RETURN_TO_ALLOWLIST — JSON de um ReturnToEnvironmentConfig (sobrescreve tudo)
+ *  2. src/config/return-to.json — chaveado pelo ambiente (VITE_APP_ENV ou o mode do Vite)
+ * ========================= */
+
+export type ReturnToScheme = "https" | "http";
+
+export type ReturnToHostRule = {
+  /**
+   * "app.flowodonto.com.br" exato, "*.flowodonto.com.br" (qualquer subdomínio) ou
+   * "flowodonto-*-flowodonto.vercel.app" (um label). Preview da Vercel sempre preso ao time
+   * (`<projeto>-<hash>-<time>.vercel.app`): "*-flowodonto.vercel.app" casaria o projeto de qualquer um
+   */
+  host: string;
+  /** Prefixos de path aceitos. Sem isso, qualquer path */
+  paths?: string[];
+  /** Default: ["https"] */
+  schemes?: ReturnToScheme[];
+  /** Portas explícitas aceitas, ou "*" para qualquer. Default: só a porta padrão do esquema */
+  ports?: number[] | "*";
+};
+
+export type ReturnToEnvironmentConfig = {
+  fallback: string;
+  allow: ReturnToHostRule[];
+};
+
+export type ReturnToConfigFile = Record<string, ReturnToEnvironmentConfig>;
+
+function fail(msg: string): never {
+  throw new Error(`returnTo config inválida: ${msg}`);
+}
+
+// Sufixos em que qualquer pessoa registra o label de baixo (recorte da Public Suffix List com o
+// que aparece em deploy de app); além deles, todo TLD sozinho
+const PUBLIC_SUFFIXES = new Set([
+  "com.br", "net.br", "org.br", "app.br", "dev.br", "gov.br", "edu.br",
+  "co.uk", "org.uk", "com.au", "com.mx", "com.ar", "com.pt",
+  "vercel.app", "netlify.app", "github.io", "gitlab.io", "pages.dev", "workers.dev", "web.app",
+  "firebaseapp.com", "herokuapp.com", "onrender.com", "fly.dev", "azurewebsites.net", "azurestaticapps.net",
+  "cloudfront.net", "amazonaws.com", "appspot.com", "ngrok.io", "ngrok-free.app", "ngrok.app", "trycloudflare.com",
+]);
+
+/**
+ * Curinga que liberaria host de terceiros: "*", "*.com.br", "*.vercel.app", "*-x.github.io".
+ * A parte fixa depois do último label com "*" precisa ter ao menos um label antes do sufixo
+ * público; sem isso, só passa label ancorado dos dois lados ("projeto-*-time.vercel.app")
+ */
+function tooGeneric(host: string) {
+  const labels = host.split(".");
+  const last = labels.map((l) => l.includes("*")).lastIndexOf(true);
+  if (last < 0) return false;
+
+  const fixed = labels.slice(last + 1);
+  const suffix = fixed.length >= 2 && PUBLIC_SUFFIXES.has(fixed.slice(-2).join(".")) ? 2 : 1;
+  if (fixed.length > suffix) return false;
+  return fixed.length < suffix || !/^[a-z0-9]+-[a-z0-9*-]*\*[a-z0-9*-]*-[a-z0-9]+$/.test(labels[last]);
+}
+
+function parseHostRule(raw: unknown, i: number): ReturnToHostRule {
+  if (!raw || typeof raw !== "object") fail(`allow[${i}] precisa ser objeto`);
+  const r = raw as Record<string, unknown>;
+
+  const host = typeof r.host === "string" ? r.host.trim().toLowerCase() : "";
+  if (!host || !/^[a-z0-9*.-]+$/.test(host)) fail(`allow[${i}].host inválido`);
+  // host exato de um rótulo ("localhost") é ok; curinga precisa de um domínio que seja nosso
+  if (tooGeneric(host)) fail(`allow[${i}].host genérico demais`);
+
+  const rule: ReturnToHostRule = { host };
+
+  if (r.paths !== undefined) {
+    if (!Array.isArray(r.paths) || r.paths.some((p) => typeof p !== "string" || !p.startsWith("/"))) {
+      fail(`allow[${i}].paths precisa ser lista de paths começando com "/"`);
+    }
+    rule.paths = r.paths as string[];
+  }
+
+  if (r.schemes !== undefined) {
+    if (!Array.isArray(r.schemes) || r.schemes.some((s) => s !== "https" && s !== "http")) {
+      fail(`allow[${i}].schemes só aceita "https" e "http"`);
+    }
+    rule.schemes = r.schemes as ReturnToScheme[];
+  }
+
+  if (r.ports !== undefined) {
+    const ok =
+      r.ports === "*" ||
+      (Array.isArray(r.ports) && r.ports.every((p) => Number.isInteger(p) && p > 0 && p < 65536));
+    if (!ok) fail(`allow[${i}].ports precisa ser "*" ou lista de portas`);
+    rule.ports = r.ports as number[] | "*";
+  }
+
+  return rule;
+}
+
+export function parseReturnToConfig(raw: unknown): ReturnToEnvironmentConfig {
+  if (!raw || typeof raw !== "object") fail("esperado objeto { fallback, allow }");
+  const r = raw as Record<string, unknown>;
+
+  if (typeof r.fallback !== "string") fail("fallback ausente");
+  try {
+    new URL(r.fallback);
+  } catch {
+    fail("fallback precisa ser URL absoluta");
+  }
+
+  if (!Array.isArray(r.allow) || r.allow.length === 0) fail("allow precisa ter ao menos uma regra");
+
+  return { fallback: r.fallback, allow: r.allow.map(parseHostRule) };
+}
+
+export function currentEnvironment() {
+  return import.meta.env.VITE_APP_ENV || import.meta.env.MODE || "production";
+}
+
+export function loadReturnToConfig(
+  env = currentEnvironment(),
+  override = import.meta.env.VITE_RETURN_TO_ALLOWLIST,
+  file: ReturnToConfigFile = returnToFile as ReturnToConfigFile
+): ReturnToEnvironmentConfig {
+  if (override) {
+    try {
+      return parseReturnToConfig(JSON.parse(override));
+    } catch (e) {
+      console.error("[returnTo] VITE_RETURN_TO_ALLOWLIST ignorada:", e);
+    }
+  }
+
+  const entry = file[env] ?? file.production;
+  if (!file[env]) console.warn(`[returnTo] ambiente "${env}" sem config; usando production`);
+  return parseReturnToConfig(entry);
+}
+
+export const returnToConfig = loadReturnToConfig();
@@ -0,0 +1,116 @@
+import { returnToConfig, type ReturnToEnvironmentConfig, type ReturnToHostRule } from "@/lib/return-to-config";
+
+/** =========================
+ * helpers (returnTo seguro)
+ * ========================= */
+export function stripTokenHash(urlStr: string) {
+  try {
+    const u = new URL(urlStr);
+    const h = (u.hash || "").toLowerCase();
+    if (h.includes("access_token=") || h.includes("refresh_token=") || h.includes("token_type=")) {
+      u.hash = "";
+    }
+    return u.toString();
+  } catch {
+    return urlStr;
+  }
+}
+
+export function stripHash(urlStr: string) {
+  try {
+    const u = new URL(urlStr);
+    u.hash = "";
+    return u.toString();
+  } catch {
+    return urlStr;
+  }
+}
+
+export function stripLogoutParam(urlStr: string) {
+  try {
+    const u = new URL(urlStr);
+    u.searchParams.delete("logout");
+    return u.toString();
+  } catch {
+    return urlStr;
+  }
+}
+
+function escapeRegex(s: string) {
+  return s.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "*.x" = qualquer subdomínio de x (qualquer profundidade, mas não o próprio x); "*" no meio = um label
+export function hostMatches(pattern: string, host: string) {
+  if (!pattern.includes("*")) return host === pattern;
+
+  let source = escapeRegex(pattern);
+  if (source.startsWith("*\\.")) source = "(?:[a-z0-9-]+\\.)+" + source.slice(3);
+  source = source.replace(/\*/g, "[a-z0-9-]+");
+  return new RegExp(`^${source}$`).test(host);
+}
+
+function pathMatches(paths: string[] | undefined, pathname: string) {
+  if (!paths) return true;
+  return paths.some((p) => {
+    const prefix = p.endsWith("/") ? p : `${p}/`;
+    return pathname === p || pathname.startsWith(prefix);
+  });
+}
+
+function ruleAllows(rule: ReturnToHostRule, url: URL) {
+  const scheme = url.protocol.replace(/:$/, "");
+  if (!(rule.schemes ?? ["https"]).includes(scheme as "https" | "http")) return false;
+
+  if (url.port) {
+    if (rule.ports !== "*" && !(rule.ports ?? []).includes(Number(url.port))) return false;
+  }
+
+  return hostMatches(rule.host, url.hostname.toLowerCase()) && pathMatches(rule.paths, url.pathname);
+}
+
+export function isAllowedReturnTo(raw: string, config: ReturnToEnvironmentConfig = returnToConfig) {
+  try {
+    const url = new URL(raw);
+    // credenciais na URL (https://x.flowodonto.com.br@evil.com) nunca
+    if (url.username || url.password) return false;
+    return config.allow.some((rule) => ruleAllows(rule, url));
+  } catch {
+    return false;
+  }
+}
+
+export function safeReturnTo(raw: string | null, config: ReturnToEnvironmentConfig = returnToConfig) {
+  const fallback = config.fallback;
+  if (!raw) return fallback;
+  if (!isAllowedReturnTo(raw, config)) return fallback;
+
+  return stripTokenHash(new URL(raw).toString());
+}
+
+const MAX_NESTED_RETURN_TO = 5;
+
+// Se vier returnTo dentro do returnTo, pega o mais interno (cada nível passa pela mesma allowlist)
+export function normalizeReturnTo(rawReturnTo: string | null, config: ReturnToEnvironmentConfig = returnToConfig) {
+  let current = safeReturnTo(rawReturnTo, config);
+
+  for (let i = 0; i < MAX_NESTED_RETURN_TO; i++) {
+    let nested: string | null;
+    try {
+      nested = new URL(current).searchParams.get("returnTo");
+    } catch {
+      return current;
+    }
+    if (!nested) return current;
+
+    let decoded = nested;
+    try {
+      decoded = decodeURIComponent(nested);
+    } catch {
+      // ignore
+    }
+    current = safeReturnTo(decoded, config);
+  }
+
+  return current;
+}
@@ -0,0 +1,139 @@
+/** =========================
+ * Onde a sessão do portal fica guardada ("manter conectado" / computador compartilhado)
+ *
+ *  - "persistent": localStorage; vale por VITE_SESSION_REMEMBER_DAYS (default 30) desde o login
+ *  - "session":    sessionStorage; some ao fechar a aba
+ *  - "shared":     sessionStorage e no máximo VITE_SHARED_SESSION_MINUTES (default 60);
+ *                  o dispositivo nunca vira confiável (ver device-trust.ts)
+ *
+ * A escolha fica no localStorage porque é do computador, não da pessoa: a
+ * recepção marcada como compartilhada continua assim para quem vier depois.
+ * O cliente do Supabase grava a sessão por `authStorage`, que segue a escolha atual.
+ * Com sessionStorage cada aba tem a sua sessão (o aviso entre abas só chega às persistentes).
+ *
+ * Quem garante o prazo é o servidor: no login o portal grava `sessionLimitMinutes` com
+ * `auth.sessions.limit` (supabase/migrations/*_session_limits.sql), o banco revoga a sessão
+ * quando vence e o auth-handoff deixa de emitir código para ela. A marca local abaixo é só a
+ * cópia para a tela: evita mostrar o app como logado até o servidor recusar.
+ * ========================= */
+
+export type SessionMode = "persistent" | "session" | "shared";
+
+export type SessionLimits = {
+  rememberDays: number;
+  sharedMinutes: number;
+};
+
+const MODE_KEY = "flowodonto.sessionMode";
+// vai junto com a sessão (mesmo storage): some com ela. Não é prova de nada, só atalho da tela
+const STARTED_KEY = "flowodonto.sessionStartedAt";
+const SESSION_KEY_PREFIX = "sb-";
+
+function positiveNumber(raw: string | undefined, fallback: number) {
+  const n = Number(raw);
+  return raw && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function sessionLimitsFromEnv(env: Partial<ImportMetaEnv> = import.meta.env): SessionLimits {
+  return {
+    rememberDays: positiveNumber(env.VITE_SESSION_REMEMBER_DAYS, 30),
+    sharedMinutes: positiveNumber(env.VITE_SHARED_SESSION_MINUTES, 60),
+  };
+}
+
+export const sessionLimits = sessionLimitsFromEnv();
+
+function storageFor(mode: SessionMode): Storage {
+  return mode === "persistent" ? localStorage : sessionStorage;
+}
+
+export function readSessionMode(): SessionMode {
+  try {
+    const v = localStorage.getItem(MODE_KEY);
+    return v === "session" || v === "shared" ? v : "persistent";
+  } catch {
+    return "persistent";
+  }
+}
+
+/** Troca o modo e leva a sessão atual (se houver) para o storage novo */
+export function setSessionMode(mode: SessionMode) {
+  const from = readSessionMode();
+  try {
+    localStorage.setItem(MODE_KEY, mode);
+    const source = storageFor(from);
+    const target = storageFor(mode);
+    if (source === target) return;
+    for (const k of Object.keys(source)) {
+      if (!k.startsWith(SESSION_KEY_PREFIX) && k !== STARTED_KEY) continue;
+      target.setItem(k, source.getItem(k) ?? "");
+      source.removeItem(k);
+    }
+  } catch {
+    // storage indisponível: o supabase-js cai na memória de qualquer jeito
+  }
+}
+
+/** Storage do supabase-js (`createClient(..., { auth: { storage } })`) */
+export const authStorage = {
+  getItem(key: string) {
+    try {
+      return storageFor(readSessionMode()).getItem(key);
+    } catch {
+      return null;
+    }
+  },
+  setItem(key: string, value: string) {
+    try {
+      const mode = readSessionMode();
+      storageFor(mode).setItem(key, value);
+      // nunca sobra cópia no outro storage (troca de modo no meio, versão antiga do portal)
+      (mode === "persistent" ? sessionStorage : localStorage).removeItem(key);
+    } catch {
+      // ignore
+    }
+  },
+  removeItem(key: string) {
+    try {
+      localStorage.removeItem(key);
+      sessionStorage.removeItem(key);
+    } catch {
+      // ignore
+    }
+  },
+};
+
+/**
+ * Chamado no SIGNED_IN: só a primeira vez conta (o supabase-js repete o evento ao voltar para a aba).
+ * `true` quando marcou agora, ou seja, quando é hora de gravar o prazo no servidor
+ */
+export function markSessionStart(now = Date.now()) {
+  try {
+    const storage = storageFor(readSessionMode());
+    if (storage.getItem(STARTED_KEY)) return false;
+    storage.setItem(STARTED_KEY, String(now));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Prazo do modo para o servidor; `null` = sem prazo próprio (só a aba, fica com o do projeto) */
+export function sessionLimitMinutes(mode = readSessionMode(), limits = sessionLimits) {
+  if (mode === "shared") return limits.sharedMinutes;
+  if (mode === "persistent") return limits.rememberDays * 24 * 60;
+  return null;
+}
+
+export function clearSessionStart() {
+  authStorage.removeItem(STARTED_KEY);
+}
+
+/** Sessão mais velha que o limite do modo. Sem marca (sessão de antes desta versão) não expira */
+export function sessionExpired(now = Date.now(), mode = readSessionMode(), limits = sessionLimits) {
+  const started = Number(authStorage.getItem(STARTED_KEY));
+  if (!started) return false;
+  if (mode === "shared") return now - started > limits.sharedMinutes * 60_000;
+  if (mode === "persistent") return now - started > limits.rememberDays * 86_400_000;
+  return false;
+}
@@ -0,0 +1,41 @@
+/** =========================
+ * Rascunho do cadastro (sem senha) para o "e-mail errado? corrigir"
+ *
+ * Fica no sessionStorage: só esta aba, some ao fechar.
+ * ========================= */
+
+const DRAFT_KEY = "flowodonto.signupDraft";
+
+export type SignupDraft = {
+  nome: string;
+  telefone: string;
+  cpf: string;
+  cro: string;
+  croUf: string;
+};
+
+export function saveSignupDraft(draft: SignupDraft) {
+  try {
+    sessionStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+  } catch {
+    // storage indisponível: o usuário só digita de novo
+  }
+}
+
+export function readSignupDraft(): Partial<SignupDraft> {
+  try {
+    const raw = sessionStorage.getItem(DRAFT_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function clearSignupDraft() {
+  try {
+    sessionStorage.removeItem(DRAFT_KEY);
+  } catch {
+    // ignore
+  }
+}
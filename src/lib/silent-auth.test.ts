@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Organization } from "@/auth/types";
+import {
+  SILENT_AUTH_MESSAGE,
+  buildSilentRedirect,
+  postSilentResult,
+  readSilentRequest,
+  silentError,
+  silentOrganization,
+} from "@/lib/silent-auth";
+
+const APP = "https://app.flowodonto.com.br/agenda";
+const orgs = (...ids: string[]): Organization[] => ids.map((id) => ({ id, name: id, role: "dentist", logoUrl: null }));
+
+describe("readSilentRequest", () => {
+  it("só prompt=none é renovação silenciosa", () => {
+    expect(readSilentRequest(new URLSearchParams("returnTo=x"), false)).toBeNull();
+    expect(readSilentRequest(new URLSearchParams("prompt=login"), false)).toBeNull();
+  });
+
+  it("iframe responde por postMessage; página inteira volta pela query", () => {
+    expect(readSilentRequest(new URLSearchParams("prompt=none&org=org-1"), true)).toEqual({
+      responseMode: "web_message",
+      organizationId: "org-1",
+    });
+    expect(readSilentRequest(new URLSearchParams("prompt=none"), false)).toEqual({
+      responseMode: "query",
+      organizationId: null,
+    });
+  });
+});
+
+describe("silentOrganization", () => {
+  it("mantém a clínica do app se a pessoa ainda for membro", () => {
+    expect(silentOrganization(orgs("a", "b"), "b", "a")).toBe("b");
+    expect(silentOrganization(orgs("a", "b"), "c", "a")).toBeUndefined();
+  });
+
+  it("sem pedido do app: a única, nenhuma ou a última usada", () => {
+    expect(silentOrganization(orgs("a"), null, null)).toBe("a");
+    expect(silentOrganization([], null, null)).toBeNull();
+    expect(silentOrganization(orgs("a", "b"), null, "b")).toBe("b");
+  });
+
+  it("várias clínicas sem a última usada precisariam da tela de escolha", () => {
+    expect(silentOrganization(orgs("a", "b"), null, null)).toBeUndefined();
+    expect(silentOrganization(orgs("a", "b"), null, "saiu")).toBeUndefined();
+  });
+});
+
+describe("buildSilentRedirect", () => {
+  it("código, clínica e state na query; sem o hash", () => {
+    const url = new URL(
+      buildSilentRedirect(`${APP}#access_token=velho`, { code: "c1", organizationId: "org-1", error: null }, "s1")
+    );
+    expect(url.hash).toBe("");
+    expect(Object.fromEntries(url.searchParams)).toEqual({ code: "c1", org: "org-1", state: "s1" });
+  });
+
+  it.each(["login_required", "interaction_required", "server_error"] as const)("erro %s volta com o state", (error) => {
+    const url = new URL(buildSilentRedirect(APP, silentError(error), "s1"));
+    expect(Object.fromEntries(url.searchParams)).toEqual({ error, state: "s1" });
+  });
+});
+
+describe("postSilentResult", () => {
+  it("só a origem do returnTo recebe a mensagem", () => {
+    const postMessage = vi.spyOn(window.parent, "postMessage").mockImplementation(() => {});
+
+    postSilentResult(APP, { code: "c1", organizationId: null, error: null }, "s1");
+    expect(postMessage).toHaveBeenCalledWith(
+      { type: SILENT_AUTH_MESSAGE, state: "s1", code: "c1", org: null, error: null },
+      "https://app.flowodonto.com.br"
+    );
+    postMessage.mockRestore();
+  });
+});
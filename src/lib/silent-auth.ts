@@ -0,0 +1,91 @@
+import type { Organization } from "@/auth/types";
+
+/** =========================
+ * Renovação silenciosa para os apps (`?prompt=none`)
+ *
+ * O app abre `/?prompt=none&returnTo=...&code_challenge=...&state=...` num iframe
+ * oculto ou como ida e volta de página inteira. O portal nunca mostra tela nesse
+ * modo: com sessão válida emite um código de handoff novo (o mesmo do login);
+ * sem sessão responde `login_required`. Ver `silentPortalRefresh` em handoff-client.ts.
+ *
+ * Resposta:
+ *  - iframe: postMessage para a origem do returnTo (o app só aceita da origem do portal)
+ *  - página inteira: volta para o returnTo com `?code=&state=` ou `?error=&state=`
+ *
+ * O iframe só enxerga a sessão do portal quando o app é do mesmo site
+ * (*.flowodonto.com.br): em outro site o navegador particiona o storage e a
+ * resposta é sempre `login_required` — aí o app usa a ida e volta.
+ * ========================= */
+
+// Mesmo valor de SILENT_AUTH_MESSAGE em handoff-client.ts
+export const SILENT_AUTH_MESSAGE = "flowodonto:silent-auth";
+
+/**
+ * login_required: não há sessão válida no portal
+ * interaction_required: há sessão, mas falta um passo com tela (MFA, escolha da clínica)
+ * server_error: não deu para decidir (rede, handoff)
+ */
+export type SilentAuthError = "login_required" | "interaction_required" | "server_error";
+
+export type SilentAuthRequest = {
+  responseMode: "web_message" | "query";
+  /** `?org=` do app: a clínica em uso, mantida se o usuário ainda for membro */
+  organizationId: string | null;
+};
+
+export type SilentAuthResult =
+  | { code: string; organizationId: string | null; error: null }
+  | { code: null; organizationId: null; error: SilentAuthError };
+
+export function silentError(error: SilentAuthError): SilentAuthResult {
+  return { code: null, organizationId: null, error };
+}
+
+/**
+ * Clínica sem perguntar: a que o app já usa, a única ou a última escolhida.
+ * `undefined` = precisaria da tela de escolha (ou o usuário saiu da clínica do app)
+ */
+export function silentOrganization(
+  memberships: Organization[],
+  requested: string | null,
+  lastUsed: string | null
+): string | null | undefined {
+  const ids = memberships.map((o) => o.id);
+  if (requested) return ids.includes(requested) ? requested : undefined;
+  if (ids.length <= 1) return ids[0] ?? null;
+  return lastUsed && ids.includes(lastUsed) ? lastUsed : undefined;
+}
+
+export function readSilentRequest(params: URLSearchParams, inFrame = window.parent !== window): SilentAuthRequest | null {
+  if (params.get("prompt") !== "none") return null;
+  return {
+    responseMode: inFrame ? "web_message" : "query",
+    organizationId: params.get("org"),
+  };
+}
+
+export function buildSilentRedirect(base: string, result: SilentAuthResult, state: string | null) {
+  const u = new URL(base);
+  u.hash = "";
+  if (result.error) u.searchParams.set("error", result.error);
+  else {
+    u.searchParams.set("code", result.code);
+    if (result.organizationId) u.searchParams.set("org", result.organizationId);
+  }
+  if (state) u.searchParams.set("state", state);
+  return u.toString();
+}
+
+/** Só a origem do returnTo (já validado pela allowlist) recebe a mensagem */
+export function postSilentResult(returnTo: string, result: SilentAuthResult, state: string | null) {
+  window.parent.postMessage(
+    {
+      type: SILENT_AUTH_MESSAGE,
+      state,
+      code: result.code,
+      org: result.organizationId,
+      error: result.error,
+    },
+    new URL(returnTo).origin
+  );
+}
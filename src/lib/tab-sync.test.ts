@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import { createTabSync, type TabSyncEvent } from "@/lib/tab-sync";
+
+// cada teste no seu canal: as instâncias dos testes anteriores continuam abertas
+let seq = 0;
+const channel = () => `flowodonto.test.${++seq}`;
+
+describe("createTabSync (BroadcastChannel)", () => {
+  it("avisa as outras abas, não a própria", async () => {
+    const name = channel();
+    const here = createTabSync(name);
+    const there = createTabSync(name);
+    const received: TabSyncEvent[] = [];
+    const own = vi.fn();
+    there.subscribe((e) => received.push(e));
+    here.subscribe(own);
+
+    here.post("signed-in");
+    here.post("signed-out");
+
+    await vi.waitFor(() => expect(received).toEqual(["signed-in", "signed-out"]));
+    expect(own).not.toHaveBeenCalled();
+  });
+
+  it("ignora mensagem desconhecida e para depois do unsubscribe", async () => {
+    const name = channel();
+    const there = createTabSync(name);
+    const cb = vi.fn();
+    const unsubscribe = there.subscribe(cb);
+
+    const raw = new BroadcastChannel(name);
+    raw.postMessage({ access_token: "nunca" });
+    raw.postMessage("signed-out");
+    await vi.waitFor(() => expect(cb).toHaveBeenCalledTimes(1));
+    expect(cb).toHaveBeenCalledWith("signed-out");
+
+    unsubscribe();
+    raw.postMessage("signed-in");
+    await new Promise((r) => setTimeout(r, 20));
+    expect(cb).toHaveBeenCalledTimes(1);
+    raw.close();
+  });
+});
+
+describe("createTabSync (sem BroadcastChannel)", () => {
+  /** O evento `storage` só chega nas outras abas: aqui ele é disparado à mão */
+  function storageEvent(key: string, newValue: string | null) {
+    window.dispatchEvent(new StorageEvent("storage", { key, newValue }));
+  }
+
+  it("cai no evento storage do localStorage", () => {
+    vi.stubGlobal("BroadcastChannel", undefined);
+    const name = channel();
+    const sync = createTabSync(name);
+    const cb = vi.fn();
+    sync.subscribe(cb);
+
+    storageEvent(`flowodonto.auth.sync.${name}`, JSON.stringify({ event: "signed-out", at: 1 }));
+    expect(cb).toHaveBeenCalledWith("signed-out");
+
+    // outra chave, remoção (newValue null), JSON quebrado e evento desconhecido não contam
+    storageEvent("outra", JSON.stringify({ event: "signed-in", at: 2 }));
+    storageEvent(`flowodonto.auth.sync.${name}`, null);
+    storageEvent(`flowodonto.auth.sync.${name}`, "{quebrado");
+    storageEvent(`flowodonto.auth.sync.${name}`, JSON.stringify({ event: "token", at: 3 }));
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it("post grava e apaga a chave na hora (só o evento importa)", () => {
+    vi.stubGlobal("BroadcastChannel", undefined);
+    const name = channel();
+    const setItem = vi.spyOn(Storage.prototype, "setItem");
+
+    createTabSync(name).post("signed-in");
+
+    expect(setItem).toHaveBeenCalledWith(`flowodonto.auth.sync.${name}`, expect.stringContaining('"event":"signed-in"'));
+    expect(localStorage.getItem(`flowodonto.auth.sync.${name}`)).toBeNull();
+    setItem.mockRestore();
+  });
+});
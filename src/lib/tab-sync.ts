@@ -0,0 +1,70 @@
+/** =========================
+ * Sincronização entre abas do portal
+ *
+ * BroadcastChannel quando existe; senão, evento `storage` do localStorage
+ * (Safari antigo). Só avisa que algo mudou: quem recebe relê a sessão do
+ * storage compartilhado, nunca confia em token vindo pela mensagem.
+ * ========================= */
+
+export type TabSyncEvent = "signed-in" | "signed-out";
+
+export type TabSync = {
+  post(event: TabSyncEvent): void;
+  subscribe(cb: (event: TabSyncEvent) => void): () => void;
+};
+
+const CHANNEL_NAME = "flowodonto.auth";
+const STORAGE_KEY = "flowodonto.auth.sync";
+
+function isTabSyncEvent(v: unknown): v is TabSyncEvent {
+  return v === "signed-in" || v === "signed-out";
+}
+
+export function createTabSync(name = CHANNEL_NAME): TabSync {
+  const listeners = new Set<(event: TabSyncEvent) => void>();
+  const dispatch = (event: unknown) => {
+    if (!isTabSyncEvent(event)) return;
+    for (const cb of [...listeners]) cb(event);
+  };
+
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (e) => dispatch(e.data);
+    return {
+      post: (event) => channel.postMessage(event),
+      subscribe(cb) {
+        listeners.add(cb);
+        return () => listeners.delete(cb);
+      },
+    };
+  }
+
+  const key = `${STORAGE_KEY}.${name}`;
+  window.addEventListener("storage", (e) => {
+    if (e.key !== key || !e.newValue) return;
+    try {
+      dispatch(JSON.parse(e.newValue).event);
+    } catch {
+      // ignore
+    }
+  });
+
+  return {
+    post(event) {
+      try {
+        // `at` garante um valor novo (e um evento) mesmo repetindo a mensagem
+        localStorage.setItem(key, JSON.stringify({ event, at: Date.now() }));
+        localStorage.removeItem(key);
+      } catch {
+        // storage indisponível: as outras abas não ficam sabendo
+      }
+    },
+    subscribe(cb) {
+      listeners.add(cb);
+      return () => listeners.delete(cb);
+    },
+  };
+}
+
+/** Uma instância por página (o portal é uma SPA só) */
+export const tabSync = createTabSync();
@@ -0,0 +1,45 @@
+import { screen, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { rememberOAuthAttempt } from "@/lib/account-linking";
+import { renderPortal, t } from "@/test/render";
+
+const ANA = { email: "ana@clinica.com", password: "Odonto!Forte42" };
+// retorno do GoTrue quando o e-mail do Google já tem conta com senha
+const CONFLICT = "#error=server_error&error_code=email_exists&error_description=Multiple+accounts+with+the+same+email";
+
+describe("AccountLinkPage", () => {
+  it("conflito de e-mail no login com Google pede a senha e liga o provedor", async () => {
+    rememberOAuthAttempt("google", "sign_in");
+    const auth = createMemoryAuthService({ users: [ANA] });
+    const { user } = renderPortal(`/${CONFLICT}`, auth);
+
+    const label = t("accountLink.submit", { provider: "Google" });
+    await user.type(await screen.findByLabelText(t("common.email")), ANA.email);
+    await user.type(screen.getByLabelText(t("common.password")), ANA.password);
+    await user.click(screen.getByRole("button", { name: label }));
+
+    await waitFor(async () =>
+      expect((await auth.identities.list()).data?.map((i) => i.provider)).toContain("google")
+    );
+  });
+
+  it("senha errada não liga nada", async () => {
+    rememberOAuthAttempt("google", "sign_in");
+    const auth = createMemoryAuthService({ users: [ANA] });
+    const { user } = renderPortal(`/${CONFLICT}`, auth);
+
+    await user.type(await screen.findByLabelText(t("common.email")), ANA.email);
+    await user.type(screen.getByLabelText(t("common.password")), "Errada!12345");
+    await user.click(screen.getByRole("button", { name: t("accountLink.submit", { provider: "Google" }) }));
+
+    expect(await screen.findByRole("alert")).toBeInTheDocument();
+    expect(await auth.getSession()).toBeNull();
+  });
+
+  it("mesmo erro sem tentativa de login OAuth anotada não abre a vinculação", async () => {
+    renderPortal(`/${CONFLICT}`, createMemoryAuthService({ users: [ANA] }));
+
+    expect(await screen.findByRole("button", { name: t("login.submit") })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { CaptchaWidget } from "@/components/auth/CaptchaWidget";
+import { FormError } from "@/components/auth/FormError";
+import { PasswordInput } from "@/components/auth/PasswordInput";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import type { AuthError } from "@/auth/types";
+import { useAttemptGuard } from "@/hooks/use-attempt-guard";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { oauthProviderLabel } from "@/lib/oauth-providers";
+import { usePortal } from "@/portal/portal-context";
+import { useRouter } from "@/router/router-context";
+
+// Esta tela fica no lugar da rota: o link de ação do catálogo (ex.: "ver instruções") não sairia dela
+function withoutAction(error: AuthError, ctx: { email: string }): AuthErrorDescription {
+  const d = describeAuthError(error, "accountLink.error.fallback", ctx);
+  return { message: d.message, values: d.values, hint: d.hint };
+}
+
+export default function AccountLinkPage() {
+  const auth = useAuthService();
+  const { accountLink, linkProvider, dismissAccountLink } = usePortal();
+  const { navigate } = useRouter();
+  const { t } = useI18n();
+
+  const [formData, setFormData] = useState({ email: "", password: "" });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AuthErrorDescription | null>(null);
+  const guard = useAttemptGuard("login", formData.email);
+
+  const provider = accountLink?.provider;
+  const label = provider ? oauthProviderLabel(provider) : "";
+
+  /** Senha confirma que a conta é da pessoa; só então o provedor é ligado */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!provider) return;
+
+    if (!formData.email || !formData.password) {
+      setError({ message: "validation.required" });
+      return;
+    }
+
+    const blocked = guard.check();
+    if (blocked) {
+      auditLog.emit("sign_in", { email: formData.email, outcome: "blocked", detail: { via: "account_link" } });
+      setError(blocked);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error: signInError } = await auth.signInWithPassword(
+      formData.email,
+      formData.password,
+      guard.captchaToken
+    );
+    auditLog.emit("sign_in", { email: formData.email, user: data?.user, error: signInError, detail: { via: "account_link" } });
+
+    if (signInError) {
+      if (signInError.code !== "network_error" && signInError.code !== "timeout") guard.record();
+      setLoading(false);
+      setError(withoutAction(signInError, { email: formData.email }));
+      return;
+    }
+    guard.reset();
+
+    // sem erro o navegador sai para o provedor e volta já com as duas formas de entrar
+    const { error: linkError } = await linkProvider(provider, "/");
+    if (linkError) {
+      setLoading(false);
+      setError(withoutAction(linkError, { email: formData.email }));
+    }
+  };
+
+  const handleForgotPassword = async () => {
+    await dismissAccountLink();
+    navigate("/recuperar-senha");
+  };
+
+  return (
+    <AuthLayout
+      title={t("accountLink.title", { provider: label })}
+      description={t("accountLink.description", { provider: label })}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="linkEmail">{t("common.email")}</Label>
+          <Input
+            id="linkEmail"
+            type="email"
+            placeholder={t("common.emailPlaceholder")}
+            value={formData.email}
+            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+            disabled={loading}
+            autoComplete="email"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="linkPassword">{t("common.password")}</Label>
+          <PasswordInput
+            id="linkPassword"
+            value={formData.password}
+            onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+            disabled={loading}
+            autoComplete="current-password"
+          />
+        </div>
+
+        <div className="flex items-center justify-end">
+          <button
+            type="button"
+            className="text-sm text-primary hover:underline"
+            onClick={handleForgotPassword}
+            disabled={loading}
+          >
+            {t("login.forgotPassword")}
+          </button>
+        </div>
+
+        {guard.captchaRequired && (
+          <CaptchaWidget onToken={guard.setCaptchaToken} resetKey={guard.captchaResetKey} />
+        )}
+
+        <Button type="submit" className="w-full" size="lg" disabled={loading || guard.waitSeconds > 0}>
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t("accountLink.submitting")}
+            </>
+          ) : guard.waitSeconds > 0 ? (
+            t("throttle.retryIn", { seconds: guard.waitSeconds })
+          ) : (
+            t("accountLink.submit")
+          )}
+        </Button>
+
+        <FormError error={error} />
+      </form>
+
+      <div className="text-center text-sm">
+        <button
+          type="button"
+          className="text-primary hover:underline disabled:text-muted-foreground disabled:no-underline"
+          onClick={dismissAccountLink}
+          disabled={loading}
+        >
+          {t("accountLink.cancel")}
+        </button>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,65 @@
+import { screen, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { renderPortal, t } from "@/test/render";
+
+const APP = "https://app.flowodonto.com.br/";
+const CADASTRO = `/cadastro?returnTo=${encodeURIComponent(APP)}`;
+
+async function fill(user: ReturnType<typeof renderPortal>["user"], data: { nome: string; email: string; password: string; confirm?: string }) {
+  await user.type(screen.getByLabelText(t("signup.name")), data.nome);
+  await user.type(screen.getByLabelText(t("common.email")), data.email);
+  await user.type(screen.getByLabelText(t("common.password")), data.password);
+  await user.type(screen.getByLabelText(t("common.confirmPassword")), data.confirm ?? data.password);
+  await user.click(screen.getByRole("button", { name: t("signup.submit") }));
+}
+
+describe("CadastroPage", () => {
+  it("cria a conta e leva para a confirmação do e-mail", async () => {
+    const auth = createMemoryAuthService();
+    const { user } = renderPortal(CADASTRO, auth);
+
+    await fill(user, { nome: "Ana Souza", email: "ana@clinica.com", password: "Odonto!Forte42" });
+
+    await waitFor(() => expect(window.location.pathname).toBe("/check-email"));
+    expect(new URLSearchParams(window.location.search).get("email")).toBe("ana@clinica.com");
+    expect(auth.sentEmails).toEqual([expect.objectContaining({ kind: "confirmation", email: "ana@clinica.com" })]);
+    // o link do e-mail volta para o portal com o mesmo returnTo
+    expect(new URL(auth.sentEmails[0].redirectTo).searchParams.get("returnTo")).toBe(APP);
+  });
+
+  it("senhas diferentes não enviam nada", async () => {
+    const auth = createMemoryAuthService();
+    const { user } = renderPortal(CADASTRO, auth);
+
+    await fill(user, { nome: "Ana Souza", email: "ana@clinica.com", password: "Odonto!Forte42", confirm: "Outra!Senha42" });
+
+    expect(await screen.findByText(t("validation.passwordMismatch"))).toBeInTheDocument();
+    expect(auth.sentEmails).toHaveLength(0);
+  });
+
+  it("nome sem sobrenome é recusado", async () => {
+    const { user } = renderPortal(CADASTRO, createMemoryAuthService());
+    await fill(user, { nome: "Ana", email: "ana@clinica.com", password: "Odonto!Forte42" });
+    expect(await screen.findByText(t("validation.nameFull"))).toBeInTheDocument();
+  });
+
+  it("senha fora da política é recusada antes do cadastro", async () => {
+    const auth = createMemoryAuthService();
+    const { user } = renderPortal(CADASTRO, auth);
+
+    await fill(user, { nome: "Ana Souza", email: "ana@clinica.com", password: "Curta1A" });
+
+    expect(await screen.findByText(t("validation.passwordTooShort", { min: 10 }))).toBeInTheDocument();
+    expect(auth.users.size).toBe(0);
+  });
+
+  it("e-mail já cadastrado mostra o erro do catálogo", async () => {
+    const auth = createMemoryAuthService({ users: [{ email: "ana@clinica.com", password: "Odonto!Forte42" }] });
+    const { user } = renderPortal(CADASTRO, auth);
+
+    await fill(user, { nome: "Ana Souza", email: "ana@clinica.com", password: "Odonto!Forte42" });
+
+    expect(await screen.findByText(t("error.userExists"))).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { CaptchaWidget } from "@/components/auth/CaptchaWidget";
+import { FormError } from "@/components/auth/FormError";
+import { AuthDivider, OAuthButtons } from "@/components/auth/OAuthButtons";
+import { PasswordInput } from "@/components/auth/PasswordInput";
+import { PasswordStrengthMeter } from "@/components/auth/PasswordStrengthMeter";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import type { OAuthProvider } from "@/auth/types";
+import { useAttemptGuard } from "@/hooks/use-attempt-guard";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import {
+  UFS,
+  formatBrPhone,
+  formatCpf,
+  isValidBrPhone,
+  isValidCpf,
+  isValidCro,
+  isValidFullName,
+  onlyDigits,
+  toE164BrPhone,
+} from "@/lib/br-validation";
+import { enabledOAuthProviders } from "@/lib/oauth-providers";
+import { validateNewPassword } from "@/lib/password-policy";
+import { clearSignupDraft, readSignupDraft, saveSignupDraft } from "@/lib/signup-draft";
+import { usePortal } from "@/portal/portal-context";
+import { Link } from "@/router/Link";
+import { useRouter } from "@/router/router-context";
+
+export default function CadastroPage() {
+  const auth = useAuthService();
+  const { loginOAuth, portalUrl, redirectToAppWithSession } = usePortal();
+  const { navigate, searchParams } = useRouter();
+  const { t, locale } = useI18n();
+
+  const [oauthLoading, setOauthLoading] = useState(false);
+  const [signupLoading, setSignupLoading] = useState(false);
+  const [signupError, setSignupError] = useState<AuthErrorDescription | null>(null);
+  // "?email=" vem do "e-mail errado? corrigir" da tela de confirmação: reabre com o rascunho
+  const [signupData, setSignupData] = useState(() => {
+    const email = searchParams.get("email") ?? "";
+    return {
+      nome: "",
+      telefone: "",
+      cpf: "",
+      cro: "",
+      croUf: "",
+      ...(email ? readSignupDraft() : {}),
+      email,
+      password: "",
+      confirmPassword: "",
+    };
+  });
+  const guard = useAttemptGuard("signup", signupData.email);
+
+  const handleOAuth = async (provider: OAuthProvider) => {
+    setOauthLoading(true);
+    setSignupError(null);
+
+    const { error } = await loginOAuth(provider);
+    if (error) {
+      setSignupError(describeAuthError(error, "signup.error.oauthFallback"));
+      setOauthLoading(false);
+    }
+  };
+
+  /** Cadastro */
+  const handleSubmitCadastro = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSignupError(null);
+
+    const nome = (signupData.nome || "").trim();
+    const email = (signupData.email || "").trim();
+    const telefone = (signupData.telefone || "").trim();
+    const cpf = onlyDigits(signupData.cpf || "");
+    const cro = onlyDigits(signupData.cro || "");
+    const croUf = signupData.croUf;
+    const password = signupData.password || "";
+    const confirm = signupData.confirmPassword || "";
+
+    if (nome.length < 2) return setSignupError({ message: "validation.nameTooShort" });
+    if (!isValidFullName(nome)) return setSignupError({ message: "validation.nameFull" });
+    if (!email.includes("@")) return setSignupError({ message: "validation.emailInvalid" });
+    if (telefone && !isValidBrPhone(telefone)) return setSignupError({ message: "validation.phoneInvalid" });
+    if (cpf && !isValidCpf(cpf)) return setSignupError({ message: "validation.cpfInvalid" });
+    // CRO é opcional, mas número e UF andam juntos
+    if ((cro || croUf) && !isValidCro(cro, croUf)) return setSignupError({ message: "validation.croInvalid" });
+    if (password !== confirm) return setSignupError({ message: "validation.passwordMismatch" });
+
+    const blocked = guard.check();
+    if (blocked) {
+      auditLog.emit("sign_up", { email, outcome: "blocked" });
+      return setSignupError(blocked);
+    }
+
+    setSignupLoading(true);
+
+    const passwordError = await validateNewPassword(password, { email, name: nome });
+    if (passwordError) {
+      setSignupLoading(false);
+      setSignupError(passwordError);
+      return;
+    }
+
+    const { data, error } = await auth.signUp({
+      email,
+      password,
+      metadata: {
+        nome,
+        telefone: telefone ? toE164BrPhone(telefone) : undefined,
+        cpf: cpf || undefined,
+        cro: cro || undefined,
+        cro_uf: cro ? croUf : undefined,
+        locale,
+      },
+      emailRedirectTo: portalUrl("/"),
+      captchaToken: guard.captchaToken,
+    });
+
+    setSignupLoading(false);
+    auditLog.emit("sign_up", { email, user: data?.user, error });
+    // cadastro conta sempre, mesmo com sucesso: é o que um robô criando contas repete
+    if (error?.code !== "network_error" && error?.code !== "timeout") guard.record();
+
+    if (error) {
+      setSignupError(describeAuthError(error, "signup.error.fallback", { email }));
+      return;
+    }
+
+    const session = data.session;
+
+    // se por algum motivo já vier sessão (quando confirmação está desligada), segue fluxo normal
+    if (session) {
+      clearSignupDraft();
+      redirectToAppWithSession(session);
+      return;
+    }
+
+    // confirmação por e-mail -> manda pra tela de check-email
+    saveSignupDraft({ nome, telefone, cpf: signupData.cpf, cro, croUf });
+    navigate("/check-email", { params: { email } });
+  };
+
+  return (
+    <AuthLayout title={t("signup.title")} description={t("signup.description")} showBooting contentClassName="">
+      {enabledOAuthProviders.length > 0 && (
+        <>
+          <OAuthButtons className="grid grid-cols-2 gap-3 mb-6" disabled={oauthLoading || signupLoading} onSelect={handleOAuth} />
+          <AuthDivider label={t("signup.orWithEmail")} />
+        </>
+      )}
+
+      <form onSubmit={handleSubmitCadastro} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="nome">{t("signup.name")}</Label>
+          <Input
+            id="nome"
+            placeholder={t("signup.namePlaceholder")}
+            value={signupData.nome}
+            onChange={(e) => setSignupData((p) => ({ ...p, nome: e.target.value }))}
+            disabled={signupLoading}
+            autoComplete="name"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="emailCadastro">{t("common.email")}</Label>
+          <Input
+            id="emailCadastro"
+            type="email"
+            placeholder={t("common.emailPlaceholder")}
+            value={signupData.email}
+            onChange={(e) => setSignupData((p) => ({ ...p, email: e.target.value }))}
+            disabled={signupLoading}
+            autoComplete="email"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="telefone">{t("signup.phone")}</Label>
+          <Input
+            id="telefone"
+            type="tel"
+            inputMode="numeric"
+            placeholder="(11) 91234-5678"
+            value={signupData.telefone}
+            onChange={(e) => setSignupData((p) => ({ ...p, telefone: formatBrPhone(e.target.value) }))}
+            disabled={signupLoading}
+            autoComplete="tel-national"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="cpf">{t("signup.cpf")}</Label>
+          <Input
+            id="cpf"
+            inputMode="numeric"
+            placeholder="000.000.000-00"
+            value={signupData.cpf}
+            onChange={(e) => setSignupData((p) => ({ ...p, cpf: formatCpf(e.target.value) }))}
+            disabled={signupLoading}
+            autoComplete="off"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="cro">{t("signup.cro")}</Label>
+          <div className="flex gap-2">
+            <Input
+              id="cro"
+              inputMode="numeric"
+              placeholder={t("signup.croPlaceholder")}
+              value={signupData.cro}
+              onChange={(e) => setSignupData((p) => ({ ...p, cro: onlyDigits(e.target.value).slice(0, 6) }))}
+              disabled={signupLoading}
+              autoComplete="off"
+            />
+            <select
+              aria-label={t("signup.croUf")}
+              value={signupData.croUf}
+              onChange={(e) => setSignupData((p) => ({ ...p, croUf: e.target.value }))}
+              disabled={signupLoading}
+              className="h-9 w-24 rounded-md border border-input bg-transparent px-2 text-base shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+            >
+              <option value="">{t("signup.croUf")}</option>
+              {UFS.map((uf) => (
+                <option key={uf} value={uf}>
+                  {uf}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="senhaCadastro">{t("common.password")}</Label>
+          <PasswordInput
+            id="senhaCadastro"
+            value={signupData.password}
+            onChange={(e) => setSignupData((p) => ({ ...p, password: e.target.value }))}
+            disabled={signupLoading}
+            autoComplete="new-password"
+          />
+          <PasswordStrengthMeter
+            password={signupData.password}
+            context={{ email: signupData.email, name: signupData.nome }}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="confirmSenha">{t("common.confirmPassword")}</Label>
+          <PasswordInput
+            id="confirmSenha"
+            value={signupData.confirmPassword}
+            onChange={(e) => setSignupData((p) => ({ ...p, confirmPassword: e.target.value }))}
+            disabled={signupLoading}
+            autoComplete="new-password"
+          />
+        </div>
+
+        {guard.captchaRequired && (
+          <CaptchaWidget onToken={guard.setCaptchaToken} resetKey={guard.captchaResetKey} />
+        )}
+
+        <Button type="submit" className="w-full" size="lg" disabled={signupLoading || guard.waitSeconds > 0}>
+          {signupLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t("signup.submitting")}
+            </>
+          ) : guard.waitSeconds > 0 ? (
+            t("throttle.retryIn", { seconds: guard.waitSeconds })
+          ) : (
+            t("signup.submit")
+          )}
+        </Button>
+
+        <FormError error={signupError} />
+      </form>
+
+      <div className="mt-6 text-center text-sm">
+        <span className="text-muted-foreground">{t("signup.haveAccount")} </span>
+        <Link to="/" className="text-primary hover:underline font-medium">
+          {t("signup.signIn")}
+        </Link>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,29 @@
+import { screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { renderPortal, t } from "@/test/render";
+
+describe("CheckEmailPage", () => {
+  it("mostra o e-mail e segura o reenvio logo depois do cadastro", () => {
+    renderPortal("/check-email?email=ana%40clinica.com", createMemoryAuthService());
+
+    expect(screen.getByText("ana@clinica.com")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: t("checkEmail.resendIn", { seconds: 60 }) })).toBeDisabled();
+  });
+
+  it("sem e-mail não oferece reenvio", () => {
+    renderPortal("/check-email", createMemoryAuthService());
+
+    expect(screen.getByText(t("checkEmail.yourEmail"))).toBeInTheDocument();
+    expect(screen.queryByText(t("checkEmail.notReceived"))).not.toBeInTheDocument();
+  });
+
+  it("'corrigir' volta ao cadastro com o e-mail", async () => {
+    const { user } = renderPortal("/check-email?email=ana%40clinica.com", createMemoryAuthService());
+
+    await user.click(screen.getByRole("link", { name: t("checkEmail.changeEmail") }));
+
+    expect(window.location.pathname).toBe("/cadastro");
+    expect(await screen.findByLabelText(t("common.email"))).toHaveValue("ana@clinica.com");
+  });
+});
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormError } from "@/components/auth/FormError";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import { useCooldown } from "@/hooks/use-cooldown";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { usePortal } from "@/portal/portal-context";
+import { Link } from "@/router/Link";
+import { useRouter } from "@/router/router-context";
+
+const RESEND_COOLDOWN_SECONDS = 60;
+const SESSION_POLL_MS = 5000;
+
+export default function CheckEmailPage() {
+  const auth = useAuthService();
+  const { portalUrl, redirectToAppWithSession } = usePortal();
+  const { searchParams, navigate } = useRouter();
+  const { t } = useI18n();
+  const email = searchParams.get("email") || "";
+  // a tela abre logo depois do envio do cadastro
+  const cooldown = useCooldown(RESEND_COOLDOWN_SECONDS, true);
+
+  const [resending, setResending] = useState(false);
+  const [resent, setResent] = useState(false);
+  const [error, setError] = useState<AuthErrorDescription | null>(null);
+
+  /**
+   * Confirmou em outra aba: o Supabase propaga a sessão entre abas (onAuthStateChange
+   * do PortalProvider). A checagem periódica e no foco cobre navegadores sem BroadcastChannel.
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    const check = async () => {
+      const session = await auth.getSession();
+      if (cancelled || !session) return;
+      if (await auth.validateSession()) redirectToAppWithSession(session);
+    };
+
+    const timer = setInterval(check, SESSION_POLL_MS);
+    const onVisible = () => {
+      if (document.visibilityState === "visible") check();
+    };
+    document.addEventListener("visibilitychange", onVisible);
+    window.addEventListener("focus", check);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisible);
+      window.removeEventListener("focus", check);
+    };
+    // redirectToAppWithSession muda a cada render do provider; o watcher vale pela vida da tela
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [auth]);
+
+  const handleResend = async () => {
+    setError(null);
+    setResent(false);
+    setResending(true);
+    const res = await auth.resendSignupConfirmation(email, portalUrl("/"));
+    setResending(false);
+    auditLog.emit("signup_confirmation_resend", { email, error: res.error });
+
+    if (res.error) {
+      setError(describeAuthError(res.error, "checkEmail.error.resendFallback", { email }));
+      return;
+    }
+    setResent(true);
+    cooldown.start();
+  };
+
+  return (
+    <AuthLayout
+      title={t("checkEmail.title")}
+      description={
+        <>
+          {t("checkEmail.sentTo")}{" "}
+          <span className="font-medium text-foreground">{email || t("checkEmail.yourEmail")}</span>.
+        </>
+      }
+    >
+      <div className="text-sm text-muted-foreground leading-relaxed">
+        {t("checkEmail.instructions")}
+        <br />
+        {t("checkEmail.afterConfirm")}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        {t("checkEmail.waiting")}
+      </div>
+
+      {email && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">{t("checkEmail.notReceived")}</p>
+          <Button className="w-full" variant="secondary" onClick={handleResend} disabled={resending || cooldown.active}>
+            {resending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t("checkEmail.resending")}
+              </>
+            ) : cooldown.active ? (
+              t("checkEmail.resendIn", { seconds: cooldown.remaining })
+            ) : (
+              t("checkEmail.resend")
+            )}
+          </Button>
+          <FormError error={error} />
+          {resent && !error && <p className="text-sm text-muted-foreground">{t("checkEmail.resent")}</p>}
+        </div>
+      )}
+
+      <div className="text-center text-sm">
+        <span className="text-muted-foreground">{t("checkEmail.wrongEmail")} </span>
+        <Link to="/cadastro" params={email ? { email } : undefined} className="text-primary hover:underline font-medium">
+          {t("checkEmail.changeEmail")}
+        </Link>
+      </div>
+
+      <Button className="w-full" variant="outline" onClick={() => navigate("/")}>
+        {t("common.backToLogin")}
+      </Button>
+    </AuthLayout>
+  );
+}
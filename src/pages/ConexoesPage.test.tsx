@@ -0,0 +1,43 @@
+import { screen, waitFor, within } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { renderPortal, t } from "@/test/render";
+
+const ANA = { email: "ana@clinica.com", password: "Odonto!Forte42", identities: ["google" as const] };
+
+async function signedIn() {
+  const auth = createMemoryAuthService({ users: [ANA] });
+  await auth.signInWithPassword(ANA.email, ANA.password);
+  return auth;
+}
+
+describe("ConexoesPage", () => {
+  it("lista a senha e os provedores ligados", async () => {
+    renderPortal("/conexoes", await signedIn());
+
+    expect(await screen.findByText(t("identities.password"))).toBeInTheDocument();
+    expect(screen.getAllByRole("listitem").map((li) => li.textContent)).toEqual([
+      expect.stringContaining(t("identities.password")),
+      expect.stringContaining("Google"),
+    ]);
+  });
+
+  it("desconectar pede confirmação antes", async () => {
+    const auth = await signedIn();
+    const { user } = renderPortal("/conexoes", auth);
+
+    const google = (await screen.findAllByRole("listitem"))[1];
+    await user.click(within(google).getByRole("button", { name: t("identities.unlink") }));
+    expect((await auth.identities.list()).data).toHaveLength(2);
+
+    await user.click(within(google).getByRole("button", { name: t("identities.unlinkConfirm") }));
+    await waitFor(() => expect(screen.getAllByRole("listitem")).toHaveLength(1));
+    expect((await auth.identities.list()).data?.map((i) => i.provider)).toEqual(["email"]);
+  });
+
+  it("sem sessão manda para o login", async () => {
+    renderPortal("/conexoes", createMemoryAuthService({ users: [ANA] }));
+
+    expect(await screen.findByText(t("identities.signedOut"))).toBeInTheDocument();
+  });
+});
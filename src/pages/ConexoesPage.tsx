@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { Loader2, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormError } from "@/components/auth/FormError";
+import { AuthDivider, OAuthButtons, ProviderIcon } from "@/components/auth/OAuthButtons";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import type { AuthSession, LinkedIdentity, OAuthProvider } from "@/auth/types";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { enabledOAuthProviders, oauthProviderLabel } from "@/lib/oauth-providers";
+import { usePortal } from "@/portal/portal-context";
+import { useRouter } from "@/router/router-context";
+
+/** Formas de entrar da conta: lista, desconecta e conecta outro provedor */
+export default function ConexoesPage() {
+  const auth = useAuthService();
+  const { linkProvider, redirectToAppWithSession, sessionEnded } = usePortal();
+  const { navigate } = useRouter();
+  const { t } = useI18n();
+
+  // undefined = ainda carregando
+  const [session, setSession] = useState<AuthSession | null | undefined>(undefined);
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [error, setError] = useState<AuthErrorDescription | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const current = await auth.getSession();
+      const listed = current ? await auth.identities.list() : null;
+      if (cancelled) return;
+      if (listed?.error) setError(describeAuthError(listed.error, "identities.error.loadFallback"));
+      else if (listed) setIdentities(listed.data);
+      setSession(current);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [auth]);
+
+  const handleUnlink = async (identity: LinkedIdentity) => {
+    if (confirmingId !== identity.id) {
+      setConfirmingId(identity.id);
+      return;
+    }
+
+    setError(null);
+    setBusy(true);
+    const { error: unlinkError } = await auth.identities.unlink(identity.id);
+    auditLog.emit("identity_unlink", { user: session?.user, error: unlinkError, detail: { provider: identity.provider } });
+    setConfirmingId(null);
+
+    if (unlinkError) {
+      setBusy(false);
+      setError(describeAuthError(unlinkError, "identities.error.unlinkFallback"));
+      return;
+    }
+    const listed = await auth.identities.list();
+    if (listed.data) setIdentities(listed.data);
+    setBusy(false);
+  };
+
+  const handleLink = async (provider: OAuthProvider) => {
+    setError(null);
+    setBusy(true);
+    // sem erro o navegador sai para o provedor e volta nesta tela
+    const { error: linkError } = await linkProvider(provider, "/conexoes");
+    if (linkError) {
+      setBusy(false);
+      setError(describeAuthError(linkError, "identities.error.linkFallback"));
+    }
+  };
+
+  if (session === undefined) {
+    return (
+      <AuthLayout title={t("identities.title")}>
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  if (!session || sessionEnded) {
+    return (
+      <AuthLayout title={t("identities.title")}>
+        <p className="text-sm text-muted-foreground">{t("identities.signedOut")}</p>
+        <Button className="w-full" variant="outline" onClick={() => navigate("/")}>
+          {t("common.goToLogin")}
+        </Button>
+      </AuthLayout>
+    );
+  }
+
+  const linkable = enabledOAuthProviders.filter((p) => !identities.some((i) => i.provider === p.id));
+  const lastOne = identities.length < 2;
+
+  return (
+    <AuthLayout title={t("identities.title")} description={t("identities.description")}>
+      <ul className="space-y-2">
+        {identities.map((identity) => (
+          <li key={identity.id} className="flex items-center gap-3 rounded-md border border-input px-3 py-3">
+            {identity.provider === "email" ? (
+              <Mail className="h-4 w-4" aria-hidden="true" />
+            ) : (
+              <ProviderIcon provider={identity.provider} />
+            )}
+            <span className="flex-1 min-w-0">
+              <span className="block font-medium truncate">
+                {identity.provider === "email" ? t("identities.password") : oauthProviderLabel(identity.provider)}
+              </span>
+              {identity.email && (
+                <span className="block text-xs text-muted-foreground truncate">{identity.email}</span>
+              )}
+            </span>
+            <Button
+              type="button"
+              variant={confirmingId === identity.id ? "destructive" : "outline"}
+              size="sm"
+              onClick={() => handleUnlink(identity)}
+              disabled={busy || lastOne}
+            >
+              {confirmingId === identity.id ? t("identities.unlinkConfirm") : t("identities.unlink")}
+            </Button>
+          </li>
+        ))}
+      </ul>
+      {lastOne && <p className="text-xs text-muted-foreground">{t("identities.lastOne")}</p>}
+
+      <FormError error={error} />
+
+      {linkable.length > 0 && (
+        <>
+          <AuthDivider label={t("identities.connect")} />
+          <OAuthButtons providers={linkable} disabled={busy} onSelect={handleLink} />
+        </>
+      )}
+
+      <Button className="w-full" variant="outline" onClick={() => navigate("/seguranca")} disabled={busy}>
+        {t("identities.mfa")}
+      </Button>
+
+      <Button className="w-full" variant="outline" onClick={() => redirectToAppWithSession(session)} disabled={busy}>
+        {t("identities.backToApp")}
+      </Button>
+    </AuthLayout>
+  );
+}
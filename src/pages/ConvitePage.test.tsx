@@ -0,0 +1,80 @@
+import { screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { server } from "@/test/msw";
+import { renderPortal, t } from "@/test/render";
+import { handoffFunctionHandler } from "@/test/supabase-auth-server";
+
+const INVITE = {
+  token: "tok-1",
+  organizationId: "org-centro",
+  organizationName: "Clínica Centro",
+  email: "nova@clinica.com",
+};
+
+describe("ConvitePage", () => {
+  beforeEach(() => {
+    server.use(handoffFunctionHandler("code-invite"));
+  });
+
+  it("cria a conta com o e-mail travado, aceita e entra na clínica do convite", async () => {
+    const auth = createMemoryAuthService({ invitations: [INVITE], requireEmailConfirmation: false });
+    const { user, replace } = renderPortal(`/convite?token=${INVITE.token}`, auth);
+
+    const email = await screen.findByLabelText(t("common.email"));
+    expect(email).toHaveValue(INVITE.email);
+    expect(email).toHaveAttribute("readonly");
+
+    await user.type(screen.getByLabelText(t("signup.name")), "Nova Dentista");
+    await user.type(screen.getByLabelText(t("common.password")), "Odonto!Forte42");
+    await user.type(screen.getByLabelText(t("common.confirmPassword")), "Odonto!Forte42");
+    await user.click(screen.getByRole("button", { name: t("invite.signupSubmit") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(new URL(String(replace.mock.calls[0][0])).searchParams.get("org")).toBe(INVITE.organizationId);
+  });
+
+  it("quem já tem conta entra com a senha e aceita", async () => {
+    const auth = createMemoryAuthService({
+      invitations: [INVITE],
+      users: [{ email: INVITE.email, password: "Odonto!Forte42" }],
+    });
+    const { user, replace } = renderPortal(`/convite?token=${INVITE.token}`, auth);
+
+    await user.click(await screen.findByRole("button", { name: t("signup.signIn") }));
+    await user.type(screen.getByLabelText(t("common.password")), "Odonto!Forte42");
+    await user.click(screen.getByRole("button", { name: t("invite.loginSubmit") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(new URL(String(replace.mock.calls[0][0])).searchParams.get("org")).toBe(INVITE.organizationId);
+  });
+
+  it("quem já é membro não tem o papel trocado pelo convite", async () => {
+    const auth = createMemoryAuthService({
+      invitations: [INVITE],
+      users: [
+        {
+          email: INVITE.email,
+          password: "Odonto!Forte42",
+          organizations: [{ id: INVITE.organizationId, name: INVITE.organizationName, role: "owner" }],
+        },
+      ],
+    });
+    const { user, replace } = renderPortal(`/convite?token=${INVITE.token}`, auth);
+
+    await user.click(await screen.findByRole("button", { name: t("signup.signIn") }));
+    await user.type(screen.getByLabelText(t("common.password")), "Odonto!Forte42");
+    await user.click(screen.getByRole("button", { name: t("invite.loginSubmit") }));
+
+    expect(await screen.findByText(t("error.invitationAlreadyMember"))).toBeInTheDocument();
+    expect(replace).not.toHaveBeenCalled();
+    expect((await auth.organizations.listMine()).data).toEqual([expect.objectContaining({ role: "owner" })]);
+  });
+
+  it("token desconhecido mostra convite inválido", async () => {
+    renderPortal("/convite?token=nao-existe", createMemoryAuthService({ invitations: [INVITE] }));
+
+    expect(await screen.findByText(t("invite.invalidTitle"))).toBeInTheDocument();
+    expect(screen.getByText(t("error.invitationNotFound"))).toBeInTheDocument();
+  });
+});
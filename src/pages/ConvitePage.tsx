@@ -0,0 +1,367 @@
+import { useEffect, useState } from "react";
+import { Building2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { CaptchaWidget } from "@/components/auth/CaptchaWidget";
+import { FormError } from "@/components/auth/FormError";
+import { PasswordInput } from "@/components/auth/PasswordInput";
+import { PasswordStrengthMeter } from "@/components/auth/PasswordStrengthMeter";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import type { AuthSession, Invitation } from "@/auth/types";
+import { useAttemptGuard } from "@/hooks/use-attempt-guard";
+import type { MessageKey } from "@/i18n/i18n";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { isValidFullName } from "@/lib/br-validation";
+import { validateNewPassword } from "@/lib/password-policy";
+import { tabSync } from "@/lib/tab-sync";
+import { usePortal } from "@/portal/portal-context";
+import { useRouter } from "@/router/router-context";
+
+// papéis conhecidos; outro valor aparece como veio do banco
+const ROLE_LABELS: Record<string, MessageKey> = {
+  owner: "invite.role.owner",
+  admin: "invite.role.admin",
+  dentist: "invite.role.dentist",
+  receptionist: "invite.role.receptionist",
+  member: "invite.role.member",
+};
+
+const MISSING_TOKEN = describeAuthError({ code: "invitation_not_found", message: "" }, "invite.error.loadFallback");
+
+const isTransient = (code?: string) => code === "network_error" || code === "timeout";
+
+export default function ConvitePage() {
+  const auth = useAuthService();
+  const { portalUrl, redirectToAppWithSession } = usePortal();
+  const { searchParams, navigate } = useRouter();
+  const { t, locale } = useI18n();
+  const token = searchParams.get("token") ?? "";
+
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [loadError, setLoadError] = useState<AuthErrorDescription | null>(token ? null : MISSING_TOKEN);
+  // undefined = ainda lendo a sessão
+  const [session, setSession] = useState<AuthSession | null | undefined>(undefined);
+  const [mode, setMode] = useState<"signup" | "login">("signup");
+  const [inviteData, setInviteData] = useState({ nome: "", password: "", confirmPassword: "" });
+  const [inviteLoading, setInviteLoading] = useState(false);
+  const [inviteError, setInviteError] = useState<AuthErrorDescription | null>(null);
+  const [confirmationSent, setConfirmationSent] = useState(false);
+
+  const email = invitation?.email ?? "";
+  const loginGuard = useAttemptGuard("login", email);
+  const signupGuard = useAttemptGuard("signup", email);
+  const guard = mode === "login" ? loginGuard : signupGuard;
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    (async () => {
+      const [inv, current] = await Promise.all([auth.organizations.getInvitation(token), auth.getSession()]);
+      if (cancelled) return;
+      if (inv.error) setLoadError(describeAuthError(inv.error, "invite.error.loadFallback"));
+      else setInvitation(inv.data);
+      setSession(current);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [auth, token]);
+
+  /** Aceita e segue para o app já na clínica do convite */
+  const acceptWith = async (s: AuthSession) => {
+    const res = await auth.organizations.acceptInvitation(token);
+    auditLog.emit("invitation_accept", {
+      user: s.user,
+      error: res.error,
+      detail: invitation ? { organization: invitation.organizationId } : {},
+    });
+    if (res.error) {
+      setInviteError(describeAuthError(res.error, "invite.error.acceptFallback", { email }));
+      return;
+    }
+    await redirectToAppWithSession(s, res.data.organizationId);
+  };
+
+  const handleAccept = async () => {
+    if (!session) return;
+    setInviteError(null);
+    setInviteLoading(true);
+    await acceptWith(session);
+    setInviteLoading(false);
+  };
+
+  /** Logado com outra conta: sai e mostra o formulário do e-mail convidado */
+  const handleSwitchAccount = async () => {
+    setInviteError(null);
+    setInviteLoading(true);
+    const { error } = await auth.signOut("local");
+    auditLog.emit("sign_out", { user: session?.user, error, detail: { scope: "local", reason: "invitation_other_account" } });
+    tabSync.post("signed-out");
+    setSession(null);
+    setInviteLoading(false);
+  };
+
+  /** Conta nova com o e-mail do convite */
+  const handleSubmitConviteCadastro = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviteError(null);
+
+    const nome = inviteData.nome.trim();
+    if (!isValidFullName(nome)) return setInviteError({ message: "validation.nameFull" });
+    if (inviteData.password !== inviteData.confirmPassword) {
+      return setInviteError({ message: "validation.passwordMismatch" });
+    }
+
+    const blocked = signupGuard.check();
+    if (blocked) {
+      auditLog.emit("sign_up", { email, outcome: "blocked", detail: { via: "invitation" } });
+      return setInviteError(blocked);
+    }
+
+    setInviteLoading(true);
+
+    const passwordError = await validateNewPassword(inviteData.password, { email, name: nome });
+    if (passwordError) {
+      setInviteLoading(false);
+      setInviteError(passwordError);
+      return;
+    }
+
+    const { data, error } = await auth.signUp({
+      email,
+      password: inviteData.password,
+      metadata: { nome, locale },
+      // o link de confirmação volta para o convite, que ainda precisa ser aceito
+      emailRedirectTo: portalUrl("/convite", { token }),
+      captchaToken: signupGuard.captchaToken,
+    });
+    auditLog.emit("sign_up", { email, user: data?.user, error, detail: { via: "invitation" } });
+    if (!isTransient(error?.code)) signupGuard.record();
+
+    if (error) {
+      setInviteLoading(false);
+      setInviteError(describeAuthError(error, "signup.error.fallback", { email }));
+      return;
+    }
+    if (!data.session) {
+      setInviteLoading(false);
+      setConfirmationSent(true);
+      return;
+    }
+
+    setSession(data.session);
+    await acceptWith(data.session);
+    setInviteLoading(false);
+  };
+
+  /** Conta que já existe */
+  const handleSubmitConviteLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviteError(null);
+
+    if (!inviteData.password) return setInviteError({ message: "validation.required" });
+
+    const blocked = loginGuard.check();
+    if (blocked) {
+      auditLog.emit("sign_in", { email, outcome: "blocked", detail: { via: "invitation" } });
+      return setInviteError(blocked);
+    }
+
+    setInviteLoading(true);
+    const { data, error } = await auth.signInWithPassword(email, inviteData.password, loginGuard.captchaToken);
+    auditLog.emit("sign_in", { email, user: data?.user, error, detail: { via: "invitation" } });
+
+    if (error) {
+      if (!isTransient(error.code)) loginGuard.record();
+      setInviteLoading(false);
+      setInviteError(describeAuthError(error, "login.error.fallback", { email }));
+      return;
+    }
+    loginGuard.reset();
+
+    setSession(data);
+    await acceptWith(data);
+    setInviteLoading(false);
+  };
+
+  const switchMode = (next: "signup" | "login") => {
+    setMode(next);
+    setInviteError(null);
+    setInviteData((p) => ({ ...p, password: "", confirmPassword: "" }));
+  };
+
+  if (loadError) {
+    return (
+      <AuthLayout title={t("invite.invalidTitle")}>
+        <FormError error={loadError} />
+        <Button className="w-full" variant="outline" onClick={() => navigate("/")}>
+          {t("common.backToLogin")}
+        </Button>
+      </AuthLayout>
+    );
+  }
+
+  if (!invitation || session === undefined) {
+    return (
+      <AuthLayout title={t("invite.title")}>
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  const roleKey = ROLE_LABELS[invitation.role];
+  const clinicCard = (
+    <div className="flex items-center gap-3 rounded-md border border-input bg-muted/40 p-3">
+      <Building2 className="h-8 w-8 p-1.5 rounded bg-muted text-muted-foreground" />
+      <div className="min-w-0">
+        <p className="font-medium truncate">{invitation.organizationName}</p>
+        <p className="text-xs text-muted-foreground">
+          {t("invite.role", { role: roleKey ? t(roleKey) : invitation.role })}
+        </p>
+      </div>
+    </div>
+  );
+
+  if (confirmationSent) {
+    return (
+      <AuthLayout title={t("invite.title")} description={t("invite.description")}>
+        {clinicCard}
+        <p className="text-sm text-muted-foreground leading-relaxed">
+          {t("invite.confirmationSent", { email })}
+          <br />
+          {t("invite.confirmationHint")}
+        </p>
+      </AuthLayout>
+    );
+  }
+
+  if (session) {
+    const sameAccount = (session.user.email ?? "").toLowerCase() === email.toLowerCase();
+    return (
+      <AuthLayout title={t("invite.title")} description={t("invite.description")}>
+        {clinicCard}
+        <p className="text-sm text-muted-foreground">
+          {sameAccount
+            ? t("invite.signedInAs", { email })
+            : t("invite.otherAccount", { current: session.user.email ?? "", email })}
+        </p>
+        <Button
+          className="w-full"
+          size="lg"
+          onClick={sameAccount ? handleAccept : handleSwitchAccount}
+          disabled={inviteLoading}
+        >
+          {inviteLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t("invite.accepting")}
+            </>
+          ) : sameAccount ? (
+            t("invite.accept")
+          ) : (
+            t("invite.switchAccount")
+          )}
+        </Button>
+        <FormError error={inviteError} />
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title={t("invite.title")} description={t("invite.description")}>
+      {clinicCard}
+
+      <form onSubmit={mode === "signup" ? handleSubmitConviteCadastro : handleSubmitConviteLogin} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="inviteEmail">{t("common.email")}</Label>
+          <Input id="inviteEmail" type="email" value={email} readOnly disabled />
+          <p className="text-xs text-muted-foreground">{t("invite.emailLocked")}</p>
+        </div>
+
+        {mode === "signup" && (
+          <div className="space-y-2">
+            <Label htmlFor="inviteNome">{t("signup.name")}</Label>
+            <Input
+              id="inviteNome"
+              placeholder={t("signup.namePlaceholder")}
+              value={inviteData.nome}
+              onChange={(e) => setInviteData((p) => ({ ...p, nome: e.target.value }))}
+              disabled={inviteLoading}
+              autoComplete="name"
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="invitePassword">{t("common.password")}</Label>
+          <PasswordInput
+            id="invitePassword"
+            value={inviteData.password}
+            onChange={(e) => setInviteData((p) => ({ ...p, password: e.target.value }))}
+            disabled={inviteLoading}
+            autoComplete={mode === "signup" ? "new-password" : "current-password"}
+          />
+          {mode === "signup" && (
+            <PasswordStrengthMeter password={inviteData.password} context={{ email, name: inviteData.nome }} />
+          )}
+        </div>
+
+        {mode === "signup" && (
+          <div className="space-y-2">
+            <Label htmlFor="inviteConfirmPassword">{t("common.confirmPassword")}</Label>
+            <PasswordInput
+              id="inviteConfirmPassword"
+              value={inviteData.confirmPassword}
+              onChange={(e) => setInviteData((p) => ({ ...p, confirmPassword: e.target.value }))}
+              disabled={inviteLoading}
+              autoComplete="new-password"
+            />
+          </div>
+        )}
+
+        {guard.captchaRequired && (
+          <CaptchaWidget key={mode} onToken={guard.setCaptchaToken} resetKey={guard.captchaResetKey} />
+        )}
+
+        <Button type="submit" className="w-full" size="lg" disabled={inviteLoading || guard.waitSeconds > 0}>
+          {inviteLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {mode === "signup" ? t("signup.submitting") : t("login.submitting")}
+            </>
+          ) : guard.waitSeconds > 0 ? (
+            t("throttle.retryIn", { seconds: guard.waitSeconds })
+          ) : mode === "signup" ? (
+            t("invite.signupSubmit")
+          ) : (
+            t("invite.loginSubmit")
+          )}
+        </Button>
+
+        <FormError error={inviteError} />
+      </form>
+
+      <div className="text-center text-sm">
+        <span className="text-muted-foreground">
+          {mode === "signup" ? t("invite.haveAccount") : t("invite.noAccount")}{" "}
+        </span>
+        <button
+          type="button"
+          className="text-primary hover:underline font-medium"
+          onClick={() => switchMode(mode === "signup" ? "login" : "signup")}
+          disabled={inviteLoading}
+        >
+          {mode === "signup" ? t("signup.signIn") : t("invite.createAccount")}
+        </button>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,44 @@
+import { screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { server } from "@/test/msw";
+import { PKCE_PARAMS, renderPortal, t } from "@/test/render";
+import { handoffFunctionHandler } from "@/test/supabase-auth-server";
+
+const APP = "https://app.flowodonto.com.br/";
+
+describe("EntrarSemSenhaPage", () => {
+  beforeEach(() => {
+    server.use(handoffFunctionHandler("code-otp"));
+  });
+
+  it("envia o código e entra com ele", async () => {
+    const auth = createMemoryAuthService({ users: [{ email: "ana@clinica.com", password: "Odonto!Forte42" }] });
+    const { user, replace } = renderPortal(`/entrar-sem-senha?email=ana%40clinica.com&returnTo=${encodeURIComponent(APP)}&${PKCE_PARAMS}`, auth);
+
+    // o e-mail digitado no login vem junto
+    expect(screen.getByLabelText(t("common.email"))).toHaveValue("ana@clinica.com");
+    await user.click(screen.getByRole("button", { name: t("passwordless.submit") }));
+
+    const code = auth.sentEmails.find((e) => e.kind === "otp")?.code;
+    expect(code).toMatch(/^\d{6}$/);
+    await user.type(await screen.findByLabelText(t("passwordless.code")), code!);
+    await user.click(screen.getByRole("button", { name: t("passwordless.verify") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(new URL(String(replace.mock.calls[0][0])).searchParams.get("code")).toBe("code-otp");
+  });
+
+  it("código errado mostra erro e continua na tela", async () => {
+    const auth = createMemoryAuthService({ users: [{ email: "ana@clinica.com", password: "Odonto!Forte42" }] });
+    const { user, replace } = renderPortal("/entrar-sem-senha?email=ana%40clinica.com", auth);
+
+    await user.click(screen.getByRole("button", { name: t("passwordless.submit") }));
+    const wrong = auth.sentEmails[0].code === "000000" ? "111111" : "000000";
+    await user.type(await screen.findByLabelText(t("passwordless.code")), wrong);
+    await user.click(screen.getByRole("button", { name: t("passwordless.verify") }));
+
+    expect(await screen.findByRole("alert")).toBeInTheDocument();
+    expect(replace).not.toHaveBeenCalled();
+  });
+});
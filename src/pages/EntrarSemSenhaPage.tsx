@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormError } from "@/components/auth/FormError";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import { useCooldown } from "@/hooks/use-cooldown";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { usePortal } from "@/portal/portal-context";
+import { Link } from "@/router/Link";
+import { useRouter } from "@/router/router-context";
+
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export default function EntrarSemSenhaPage() {
+  const auth = useAuthService();
+  const { portalUrl } = usePortal();
+  const { t } = useI18n();
+  const { searchParams } = useRouter();
+  const cooldown = useCooldown(RESEND_COOLDOWN_SECONDS);
+
+  const [step, setStep] = useState<"email" | "code">("email");
+  const [email, setEmail] = useState(() => searchParams.get("email") ?? "");
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AuthErrorDescription | null>(null);
+  const [resent, setResent] = useState(false);
+
+  const sendCode = async () => {
+    setLoading(true);
+    // o link mágico volta para o login, que conclui pelo redirectToAppWithSession com o returnTo
+    const res = await auth.signInWithOtp(email.trim(), portalUrl("/"));
+    setLoading(false);
+    auditLog.emit("otp_request", { email, error: res.error });
+
+    if (res.error) {
+      setError(describeAuthError(res.error, "passwordless.error.fallback", { email, flow: "otp" }));
+      return false;
+    }
+    cooldown.start();
+    return true;
+  };
+
+  /** Passo 1 – pedir link + código */
+  const handleSubmitEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!email.trim().includes("@")) {
+      setError({ message: "validation.emailInvalid" });
+      return;
+    }
+
+    if (await sendCode()) {
+      setResent(false);
+      setStep("code");
+    }
+  };
+
+  const handleResend = async () => {
+    setError(null);
+    setResent(await sendCode());
+  };
+
+  /** Passo 2 – validar o código (SIGNED_IN leva ao returnTo pelo PortalProvider) */
+  const handleSubmitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!/^\d{6}$/.test(code)) {
+      setError({ message: "validation.codeInvalid" });
+      return;
+    }
+
+    setLoading(true);
+    const res = await auth.verifyEmailOtp(email.trim(), code);
+    setLoading(false);
+    auditLog.emit("otp_verify", { email, user: res.data?.user, error: res.error });
+
+    if (res.error) {
+      setError(describeAuthError(res.error, "passwordless.error.verifyFallback", { email, flow: "otp" }));
+    }
+  };
+
+  if (step === "code") {
+    return (
+      <AuthLayout
+        title={t("passwordless.codeTitle")}
+        description={
+          <>
+            {t("passwordless.codeSentTo")} <span className="font-medium text-foreground">{email.trim()}</span>
+          </>
+        }
+      >
+        <form onSubmit={handleSubmitCode} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="otpCode">{t("passwordless.code")}</Label>
+            <Input
+              id="otpCode"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="000000"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              disabled={loading}
+              className="text-center text-lg tracking-[0.5em]"
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">{t("passwordless.codeHint")}</p>
+          </div>
+
+          <Button type="submit" className="w-full" size="lg" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t("passwordless.verifying")}
+              </>
+            ) : (
+              t("passwordless.verify")
+            )}
+          </Button>
+
+          <FormError error={error} />
+          {resent && !error && <p className="text-sm text-muted-foreground">{t("passwordless.resent")}</p>}
+
+          <div className="flex items-center justify-between text-sm">
+            <button
+              type="button"
+              className="text-primary hover:underline disabled:text-muted-foreground disabled:no-underline"
+              onClick={() => {
+                setStep("email");
+                setCode("");
+                setError(null);
+              }}
+              disabled={loading}
+            >
+              {t("passwordless.changeEmail")}
+            </button>
+            <button
+              type="button"
+              className="text-primary hover:underline disabled:text-muted-foreground disabled:no-underline"
+              onClick={handleResend}
+              disabled={loading || cooldown.active}
+            >
+              {cooldown.active ? t("passwordless.resendIn", { seconds: cooldown.remaining }) : t("passwordless.resend")}
+            </button>
+          </div>
+        </form>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title={t("passwordless.title")} description={t("passwordless.description")}>
+      <form onSubmit={handleSubmitEmail} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="passwordlessEmail">{t("common.email")}</Label>
+          <Input
+            id="passwordlessEmail"
+            type="email"
+            placeholder={t("common.emailPlaceholder")}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={loading}
+            autoComplete="email"
+          />
+        </div>
+
+        <Button type="submit" className="w-full" size="lg" disabled={loading}>
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t("passwordless.submitting")}
+            </>
+          ) : (
+            t("passwordless.submit")
+          )}
+        </Button>
+
+        <FormError error={error} />
+
+        <div className="text-center text-sm">
+          <Link to="/" className="text-primary hover:underline">
+            {t("passwordless.usePassword")}
+          </Link>
+        </div>
+      </form>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,162 @@
+import { screen, waitFor } from "@testing-library/react";
+import { http, HttpResponse } from "msw";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import type { CaptchaProvider } from "@/lib/captcha";
+import { server } from "@/test/msw";
+import { PKCE_PARAMS, renderPortal, t } from "@/test/render";
+import { handoffFunctionHandler } from "@/test/supabase-auth-server";
+
+/** Widget de mentira: um botão que entrega o token quando clicado */
+const fakeCaptcha = vi.hoisted<CaptchaProvider>(() => ({
+  id: "test",
+  async render(container, { onToken }) {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = "Não sou um robô";
+    button.onclick = () => onToken("captcha-ok");
+    container.append(button);
+    return { reset: () => {}, remove: () => button.remove() };
+  },
+}));
+
+// CAPTCHA a partir da 2ª falha: abaixo do limite da espera progressiva (3), o teste não precisa esperar
+vi.mock("@/lib/captcha", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/captcha")>()),
+  captchaConfig: { provider: fakeCaptcha, siteKey: "site-key", afterAttempts: 2 },
+}));
+
+const APP = "https://app.flowodonto.com.br/agenda";
+const LOGIN = `/?returnTo=${encodeURIComponent(APP)}&state=xyz&${PKCE_PARAMS}`;
+
+function setup() {
+  const auth = createMemoryAuthService({ users: [{ email: "ana@clinica.com", password: "Senha@forte1" }] });
+  return { auth, ...renderPortal(LOGIN, auth) };
+}
+
+describe("LoginPage", () => {
+  beforeEach(() => {
+    server.use(handoffFunctionHandler("code-1"));
+  });
+
+  it("entra e volta para o app com o código do handoff", async () => {
+    const { user, replace } = setup();
+
+    await user.type(screen.getByLabelText(t("common.email")), "ana@clinica.com");
+    await user.type(screen.getByLabelText(t("common.password")), "Senha@forte1");
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    const target = new URL(String(replace.mock.calls[0][0]));
+    expect(target.origin + target.pathname).toBe(APP);
+    expect(target.searchParams.get("code")).toBe("code-1");
+    expect(target.searchParams.get("state")).toBe("xyz");
+  });
+
+  it("app que não começou o login com PKCE recebe a pessoa de volta sem código", async () => {
+    const auth = createMemoryAuthService({ users: [{ email: "ana@clinica.com", password: "Senha@forte1" }] });
+    const { user, replace } = renderPortal(`/?returnTo=${encodeURIComponent(APP)}`, auth);
+
+    await user.type(screen.getByLabelText(t("common.email")), "ana@clinica.com");
+    await user.type(screen.getByLabelText(t("common.password")), "Senha@forte1");
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    const target = new URL(String(replace.mock.calls[0][0]));
+    expect(target.origin + target.pathname).toBe(APP);
+    expect(target.searchParams.has("code")).toBe(false);
+  });
+
+  it("handoff que falhou deixa entrar de novo para tentar outra vez", async () => {
+    const down = () => HttpResponse.json({ error: "fora do ar" }, { status: 500 });
+    server.use(http.post(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/auth-handoff`, down, { once: true }));
+    const { user, replace } = setup();
+
+    await user.type(screen.getByLabelText(t("common.email")), "ana@clinica.com");
+    await user.type(screen.getByLabelText(t("common.password")), "Senha@forte1");
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+    expect(await screen.findByText(t("error.handoffFailed"))).toBeInTheDocument();
+    expect(replace).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(new URL(String(replace.mock.calls[0][0])).searchParams.get("code")).toBe("code-1");
+  });
+
+  it("senha errada mostra o erro do catálogo e não sai da página", async () => {
+    const { user, replace } = setup();
+
+    await user.type(screen.getByLabelText(t("common.email")), "ana@clinica.com");
+    await user.type(screen.getByLabelText(t("common.password")), "errada");
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+
+    expect(await screen.findByText(t("error.invalidCredentials"))).toBeInTheDocument();
+    expect(replace).not.toHaveBeenCalled();
+  });
+
+  it("campos vazios não chamam o auth", async () => {
+    const { user } = setup();
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+    expect(await screen.findByText(t("validation.required"))).toBeInTheDocument();
+  });
+
+  it("links levam ao cadastro mantendo o returnTo", async () => {
+    const { user } = setup();
+    await user.click(screen.getByRole("link", { name: t("login.signUp") }));
+
+    expect(await screen.findByLabelText(t("signup.name"))).toBeInTheDocument();
+    expect(window.location.pathname).toBe("/cadastro");
+    expect(new URLSearchParams(window.location.search).get("returnTo")).toBe(APP);
+  });
+
+  it("computador compartilhado mostra o aviso de duração", async () => {
+    const { user } = setup();
+    await user.click(screen.getByLabelText(t("login.sharedComputer")));
+    expect(screen.getByText(t("login.sharedComputerHint", { minutes: 60 }))).toBeInTheDocument();
+  });
+
+  it("computador compartilhado grava o prazo da sessão no servidor", async () => {
+    const { auth, user, replace } = setup();
+    await user.click(screen.getByLabelText(t("login.sharedComputer")));
+    await user.type(screen.getByLabelText(t("common.email")), "ana@clinica.com");
+    await user.type(screen.getByLabelText(t("common.password")), "Senha@forte1");
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    await waitFor(() => expect(auth.sessionLimits.size).toBe(1));
+    const [notAfter] = [...auth.sessionLimits.values()];
+    expect(notAfter - Date.now()).toBeGreaterThan(59 * 60_000);
+    expect(notAfter - Date.now()).toBeLessThanOrEqual(60 * 60_000);
+  });
+
+  it("depois do limite de falhas pede o CAPTCHA e envia o token no login", async () => {
+    const { auth, user, replace } = setup();
+    const signIn = vi.spyOn(auth, "signInWithPassword");
+    const email = screen.getByLabelText(t("common.email"));
+    const password = screen.getByLabelText(t("common.password"));
+    const submit = screen.getByRole("button", { name: t("login.submit") });
+
+    expect(screen.queryByRole("button", { name: "Não sou um robô" })).not.toBeInTheDocument();
+    await user.type(email, "ana@clinica.com");
+    for (let n = 0; n < 2; n++) {
+      await user.clear(password);
+      await user.type(password, "errada");
+      await user.click(submit);
+      await waitFor(() => expect(signIn).toHaveBeenCalledTimes(n + 1));
+    }
+    expect(signIn).toHaveBeenLastCalledWith("ana@clinica.com", "errada", undefined);
+    const captcha = await screen.findByRole("button", { name: "Não sou um robô" });
+
+    // sem resolver o desafio o envio nem chega no auth
+    await user.clear(password);
+    await user.type(password, "Senha@forte1");
+    await user.click(submit);
+    expect(await screen.findByText(t("validation.captchaRequired"))).toBeInTheDocument();
+    expect(signIn).toHaveBeenCalledTimes(2);
+
+    await user.click(captcha);
+    await user.click(submit);
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(signIn).toHaveBeenLastCalledWith("ana@clinica.com", "Senha@forte1", "captcha-ok");
+  });
+});
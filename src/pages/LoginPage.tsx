@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { CaptchaWidget } from "@/components/auth/CaptchaWidget";
+import { FormError } from "@/components/auth/FormError";
+import { AuthDivider, OAuthButtons } from "@/components/auth/OAuthButtons";
+import { PasswordInput } from "@/components/auth/PasswordInput";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import type { OAuthProvider } from "@/auth/types";
+import { useAttemptGuard } from "@/hooks/use-attempt-guard";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { enabledOAuthProviders } from "@/lib/oauth-providers";
+import { readSessionMode, sessionLimits, setSessionMode, type SessionMode } from "@/lib/session-persistence";
+import { usePortal } from "@/portal/portal-context";
+import { Link } from "@/router/Link";
+
+export default function LoginPage() {
+  const auth = useAuthService();
+  const { loginOAuth } = usePortal();
+  const { t } = useI18n();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<AuthErrorDescription | null>(null);
+  const [formData, setFormData] = useState({ email: "", password: "" });
+  const guard = useAttemptGuard("login", formData.email);
+  // vale para qualquer forma de entrar (senha, OAuth, link): o storage da sessão segue a escolha
+  const [sessionMode, setSessionModeState] = useState<SessionMode>(readSessionMode);
+
+  const changeSessionMode = (mode: SessionMode) => {
+    setSessionMode(mode);
+    setSessionModeState(mode);
+  };
+
+  const handleOAuth = async (provider: OAuthProvider) => {
+    setIsLoading(true);
+    setErrorMsg(null);
+
+    const { error } = await loginOAuth(provider);
+    if (error) {
+      setErrorMsg(describeAuthError(error, "login.error.oauthFallback"));
+      setIsLoading(false);
+    }
+  };
+
+  /** Email + senha (login) */
+  const handleSubmitLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMsg(null);
+
+    if (!formData.email || !formData.password) {
+      setErrorMsg({ message: "validation.required" });
+      return;
+    }
+
+    const blocked = guard.check();
+    if (blocked) {
+      auditLog.emit("sign_in", { email: formData.email, outcome: "blocked" });
+      setErrorMsg(blocked);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await auth.signInWithPassword(formData.email, formData.password, guard.captchaToken);
+    setIsLoading(false);
+    auditLog.emit("sign_in", { email: formData.email, user: data?.user, error });
+
+    if (error) {
+      // queda de rede não é tentativa de senha
+      if (error.code !== "network_error" && error.code !== "timeout") guard.record();
+      setErrorMsg(describeAuthError(error, "login.error.fallback", { email: formData.email }));
+      return;
+    }
+    guard.reset();
+  };
+
+  return (
+    <AuthLayout title={t("login.title")} description={t("login.description")} showBooting contentClassName="">
+      <form onSubmit={handleSubmitLogin} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="email">{t("common.email")}</Label>
+          <Input
+            id="email"
+            type="email"
+            placeholder={t("common.emailPlaceholder")}
+            value={formData.email}
+            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="password">{t("common.password")}</Label>
+          <PasswordInput
+            id="password"
+            value={formData.password}
+            onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={sessionMode === "persistent"}
+              onChange={(e) => changeSessionMode(e.target.checked ? "persistent" : "session")}
+              disabled={isLoading || sessionMode === "shared"}
+            />
+            {t("login.keepSignedIn")}
+          </label>
+          <Link to="/recuperar-senha" className="text-sm text-primary hover:underline">
+            {t("login.forgotPassword")}
+          </Link>
+        </div>
+
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={sessionMode === "shared"}
+              onChange={(e) => changeSessionMode(e.target.checked ? "shared" : "session")}
+              disabled={isLoading}
+            />
+            {t("login.sharedComputer")}
+          </label>
+          {sessionMode === "shared" && (
+            <p className="text-xs text-muted-foreground">
+              {t("login.sharedComputerHint", { minutes: sessionLimits.sharedMinutes })}
+            </p>
+          )}
+        </div>
+
+        {guard.captchaRequired && (
+          <CaptchaWidget onToken={guard.setCaptchaToken} resetKey={guard.captchaResetKey} />
+        )}
+
+        <Button type="submit" className="w-full" size="lg" disabled={isLoading || guard.waitSeconds > 0}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t("login.submitting")}
+            </>
+          ) : guard.waitSeconds > 0 ? (
+            t("throttle.retryIn", { seconds: guard.waitSeconds })
+          ) : (
+            t("login.submit")
+          )}
+        </Button>
+
+        <FormError error={errorMsg} />
+      </form>
+
+      <div className="mt-4 text-center text-sm">
+        <Link
+          to="/entrar-sem-senha"
+          params={formData.email ? { email: formData.email } : undefined}
+          className="text-primary hover:underline"
+        >
+          {t("login.passwordless")}
+        </Link>
+      </div>
+
+      {enabledOAuthProviders.length > 0 && (
+        <>
+          <AuthDivider label={t("login.orContinueWith")} />
+          <OAuthButtons disabled={isLoading} onSelect={handleOAuth} />
+        </>
+      )}
+
+      <div className="mt-6 text-center text-sm">
+        <span className="text-muted-foreground">{t("login.noAccount")} </span>
+        <Link to="/cadastro" className="text-primary hover:underline font-medium">
+          {t("login.signUp")}
+        </Link>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,24 @@
+import { Button } from "@/components/ui/button";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { useI18n } from "@/i18n/i18n-context";
+import { usePortal } from "@/portal/portal-context";
+
+/** `/logout?scope=global` pode vir de qualquer página: só derruba todos os dispositivos com o clique aqui */
+export default function LogoutConfirmPage() {
+  const { confirmLogout } = usePortal();
+  const { t } = useI18n();
+
+  return (
+    <AuthLayout title={t("logout.title")} description={t("logout.description")}>
+      <Button type="button" className="w-full" size="lg" onClick={() => confirmLogout("global")}>
+        {t("logout.confirmAll")}
+      </Button>
+
+      <div className="text-center text-sm">
+        <button type="button" className="text-primary hover:underline" onClick={() => confirmLogout("local")}>
+          {t("logout.thisDevice")}
+        </button>
+      </div>
+    </AuthLayout>
+  );
+}
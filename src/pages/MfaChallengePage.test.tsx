@@ -0,0 +1,122 @@
+import { screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { server } from "@/test/msw";
+import { PKCE_PARAMS, renderPortal, t } from "@/test/render";
+import { handoffFunctionHandler } from "@/test/supabase-auth-server";
+
+const ANA = { email: "ana@clinica.com", password: "Odonto!Forte42", totp: true };
+
+async function signIn(user: ReturnType<typeof renderPortal>["user"]) {
+  await user.type(screen.getByLabelText(t("common.email")), ANA.email);
+  await user.type(screen.getByLabelText(t("common.password")), ANA.password);
+  await user.click(screen.getByRole("button", { name: t("login.submit") }));
+  return screen.findByLabelText(t("mfa.code"));
+}
+
+describe("MfaChallengePage", () => {
+  beforeEach(() => {
+    server.use(handoffFunctionHandler("code-mfa"));
+  });
+
+  it("quem tem TOTP só segue para o app depois do código", async () => {
+    const auth = createMemoryAuthService({ users: [ANA] });
+    const { user, replace } = renderPortal(`/?${PKCE_PARAMS}`, auth);
+
+    await user.type(await signIn(user), "123456");
+    expect(replace).not.toHaveBeenCalled();
+    await user.click(screen.getByRole("button", { name: t("mfa.verify") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(new URL(String(replace.mock.calls[0][0])).searchParams.get("code")).toBe("code-mfa");
+  });
+
+  it("código errado mostra erro", async () => {
+    const { user, replace } = renderPortal("/", createMemoryAuthService({ users: [ANA] }));
+
+    await user.type(await signIn(user), "999999");
+    await user.click(screen.getByRole("button", { name: t("mfa.verify") }));
+
+    expect(await screen.findByRole("alert")).toBeInTheDocument();
+    expect(replace).not.toHaveBeenCalled();
+  });
+
+  it("'entrar com outra conta' encerra a sessão e volta ao login", async () => {
+    const auth = createMemoryAuthService({ users: [ANA] });
+    const { user } = renderPortal("/", auth);
+
+    await signIn(user);
+    await user.click(screen.getByRole("button", { name: t("mfa.signOut") }));
+
+    expect(await screen.findByRole("button", { name: t("login.submit") })).toBeInTheDocument();
+    expect(await auth.getSession()).toBeNull();
+  });
+
+  it("computador compartilhado não oferece confiar no dispositivo", async () => {
+    localStorage.setItem("flowodonto.sessionMode", "shared");
+    const { user } = renderPortal("/", createMemoryAuthService({ users: [ANA] }));
+
+    await signIn(user);
+    expect(screen.queryByText(t("mfa.trustDevice", { days: 30 }))).not.toBeInTheDocument();
+  });
+
+  describe("dispositivo confiável", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    /** Primeiro login: TOTP com "confiar neste dispositivo" marcado; depois sai */
+    async function trustThisDevice(auth: ReturnType<typeof createMemoryAuthService>) {
+      const { user, replace, unmount } = renderPortal(`/?${PKCE_PARAMS}`, auth);
+      await user.type(await signIn(user), "123456");
+      await user.click(screen.getByLabelText(t("mfa.trustDevice", { days: 30 })));
+      await user.click(screen.getByRole("button", { name: t("mfa.verify") }));
+      await waitFor(() => expect(replace).toHaveBeenCalled());
+
+      await auth.signOut("local");
+      unmount();
+    }
+
+    async function signInAgain(auth: ReturnType<typeof createMemoryAuthService>) {
+      const { user, replace } = renderPortal(`/?${PKCE_PARAMS}`, auth);
+      await user.type(screen.getByLabelText(t("common.email")), ANA.email);
+      await user.type(screen.getByLabelText(t("common.password")), ANA.password);
+      await user.click(screen.getByRole("button", { name: t("login.submit") }));
+      return replace;
+    }
+
+    it("confiável e dentro da validade pula o desafio", async () => {
+      const auth = createMemoryAuthService({ users: [ANA] });
+      await trustThisDevice(auth);
+
+      const replace = await signInAgain(auth);
+
+      await waitFor(() => expect(replace).toHaveBeenCalled());
+      expect(new URL(String(replace.mock.calls[0][0])).searchParams.get("code")).toBe("code-mfa");
+      expect(screen.queryByLabelText(t("mfa.code"))).not.toBeInTheDocument();
+    });
+
+    it("confiança vencida volta a pedir o código", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      const auth = createMemoryAuthService({ users: [ANA] });
+      await trustThisDevice(auth);
+
+      vi.setSystemTime(Date.now() + 31 * 86_400_000);
+      const replace = await signInAgain(auth);
+
+      expect(await screen.findByLabelText(t("mfa.code"))).toBeInTheDocument();
+      expect(replace).not.toHaveBeenCalled();
+    });
+
+    it("dispositivo revogado volta a pedir o código", async () => {
+      const auth = createMemoryAuthService({ users: [ANA] });
+      await trustThisDevice(auth);
+
+      auth.revokeTrustedDevices(ANA.email);
+      const replace = await signInAgain(auth);
+
+      expect(await screen.findByLabelText(t("mfa.code"))).toBeInTheDocument();
+      expect(replace).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormError } from "@/components/auth/FormError";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { canTrustDevice, deviceLabel, ensureDeviceToken, trustedDeviceDays } from "@/lib/device-trust";
+import { usePortal } from "@/portal/portal-context";
+
+export default function MfaChallengePage() {
+  const auth = useAuthService();
+  const { redirectToAppWithSession, cancelPendingLogin } = usePortal();
+  const { t } = useI18n();
+
+  const [mode, setMode] = useState<"totp" | "recovery">("totp");
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AuthErrorDescription | null>(null);
+  const [trustDevice, setTrustDevice] = useState(false);
+
+  const switchMode = (next: "totp" | "recovery") => {
+    setMode(next);
+    setCode("");
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (mode === "totp" && !/^\d{6}$/.test(code)) {
+      setError({ message: "validation.codeInvalid" });
+      return;
+    }
+    if (mode === "recovery" && !code.trim()) {
+      setError({ message: "validation.required" });
+      return;
+    }
+
+    setLoading(true);
+    const res = mode === "totp" ? await auth.mfa.verifyTotp(code) : await auth.mfa.redeemRecoveryCode(code.trim());
+    auditLog.emit(mode === "totp" ? "mfa_verify" : "mfa_recovery_code", { user: res.data?.user, error: res.error });
+
+    if (res.error) {
+      setLoading(false);
+      setError(describeAuthError(res.error, "mfa.error.fallback"));
+      return;
+    }
+
+    // a sessão já é aal2; se não der para marcar o dispositivo, só pede o código de novo na próxima vez
+    if (mode === "totp" && trustDevice) {
+      const trusted = await auth.devices.trust(ensureDeviceToken(), deviceLabel(), trustedDeviceDays);
+      auditLog.emit("device_trust", { user: res.data.user, error: trusted.error, detail: { days: String(trustedDeviceDays) } });
+    }
+
+    // com código de recuperação o TOTP sai da conta: se a política exigir, cai no cadastro de novo
+    await redirectToAppWithSession(res.data);
+    setLoading(false);
+  };
+
+  return (
+    <AuthLayout
+      title={mode === "totp" ? t("mfa.challenge.title") : t("mfa.recovery.title")}
+      description={mode === "totp" ? t("mfa.challenge.description") : t("mfa.recovery.description")}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {mode === "totp" ? (
+          <div className="space-y-2">
+            <Label htmlFor="mfaCode">{t("mfa.code")}</Label>
+            <Input
+              id="mfaCode"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="000000"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              disabled={loading}
+              className="text-center text-lg tracking-[0.5em]"
+              autoFocus
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="mfaRecoveryCode">{t("mfa.recovery.code")}</Label>
+            <Input
+              id="mfaRecoveryCode"
+              autoComplete="off"
+              autoCapitalize="none"
+              spellCheck={false}
+              placeholder="xxxxx-xxxxx"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              disabled={loading}
+              className="font-mono"
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">{t("mfa.recovery.hint")}</p>
+          </div>
+        )}
+
+        {mode === "totp" && canTrustDevice() && (
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="mt-0.5 h-4 w-4 accent-primary"
+              checked={trustDevice}
+              onChange={(e) => setTrustDevice(e.target.checked)}
+              disabled={loading}
+            />
+            {t("mfa.trustDevice", { days: trustedDeviceDays })}
+          </label>
+        )}
+
+        <Button type="submit" className="w-full" size="lg" disabled={loading}>
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t("mfa.verifying")}
+            </>
+          ) : mode === "totp" ? (
+            t("mfa.verify")
+          ) : (
+            t("mfa.recovery.submit")
+          )}
+        </Button>
+
+        <FormError error={error} />
+
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            className="text-primary hover:underline disabled:text-muted-foreground disabled:no-underline"
+            onClick={() => switchMode(mode === "totp" ? "recovery" : "totp")}
+            disabled={loading}
+          >
+            {mode === "totp" ? t("mfa.useRecoveryCode") : t("mfa.useAuthenticator")}
+          </button>
+          <button
+            type="button"
+            className="text-primary hover:underline disabled:text-muted-foreground disabled:no-underline"
+            onClick={cancelPendingLogin}
+            disabled={loading}
+          >
+            {t("mfa.signOut")}
+          </button>
+        </div>
+      </form>
+    </AuthLayout>
+  );
+}
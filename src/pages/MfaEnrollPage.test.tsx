@@ -0,0 +1,49 @@
+import { screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { server } from "@/test/msw";
+import { renderPortal, t } from "@/test/render";
+import { handoffFunctionHandler } from "@/test/supabase-auth-server";
+
+// o setup dos testes exige MFA do papel "admin" (VITE_MFA_REQUIRED_ROLES em vite.config.ts)
+const ADMIN = { email: "admin@clinica.com", password: "Odonto!Forte42", roles: ["admin"] };
+
+describe("MfaEnrollPage", () => {
+  beforeEach(() => {
+    server.use(handoffFunctionHandler("code-enroll"));
+  });
+
+  it("papel que exige MFA cadastra o TOTP, guarda os códigos e segue para o app", async () => {
+    const auth = createMemoryAuthService({ users: [ADMIN] });
+    const { user, replace } = renderPortal("/", auth);
+
+    await user.type(screen.getByLabelText(t("common.email")), ADMIN.email);
+    await user.type(screen.getByLabelText(t("common.password")), ADMIN.password);
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+
+    expect(await screen.findByText("MEMORYSECRET")).toBeInTheDocument();
+    await user.type(screen.getByLabelText(t("mfa.code")), "123456");
+    await user.click(screen.getByRole("button", { name: t("mfa.enroll.submit") }));
+
+    // códigos de recuperação: só continua depois de confirmar que guardou
+    expect(await screen.findByText("memory-00000")).toBeInTheDocument();
+    const next = screen.getByRole("button", { name: t("mfa.codes.continue") });
+    expect(next).toBeDisabled();
+    await user.click(screen.getByLabelText(t("mfa.codes.confirm")));
+    await user.click(next);
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+  });
+
+  it("sem o papel entra direto", async () => {
+    const auth = createMemoryAuthService({ users: [{ ...ADMIN, roles: [] }] });
+    const { user, replace } = renderPortal("/", auth);
+
+    await user.type(screen.getByLabelText(t("common.email")), ADMIN.email);
+    await user.type(screen.getByLabelText(t("common.password")), ADMIN.password);
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(screen.queryByText(t("mfa.enroll.title"))).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormError } from "@/components/auth/FormError";
+import { RecoveryCodes } from "@/components/auth/RecoveryCodes";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import type { AuthResult, AuthSession, TotpEnrollment } from "@/auth/types";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { usePortal } from "@/portal/portal-context";
+import { useRouter } from "@/router/router-context";
+
+/**
+ * Cadastro do TOTP. Exigido pela política: passo entre o login e o app (sair = entrar com outra conta).
+ * `optIn`: a pessoa veio ativar por conta própria pela /seguranca e pode desistir
+ */
+export default function MfaEnrollPage({ optIn = false }: { optIn?: boolean }) {
+  const auth = useAuthService();
+  const { redirectToAppWithSession, cancelPendingLogin } = usePortal();
+  const { navigate } = useRouter();
+  const { t } = useI18n();
+
+  const [attempt, setAttempt] = useState(0);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AuthErrorDescription | null>(null);
+
+  // StrictMode roda o efeito duas vezes: um segundo enroll descartaria o QR que está na tela
+  const pending = useRef<{ attempt: number; promise: Promise<AuthResult<TotpEnrollment>> } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (pending.current?.attempt !== attempt) {
+      pending.current = { attempt, promise: auth.mfa.enrollTotp() };
+    }
+    pending.current.promise.then((res) => {
+      if (cancelled) return;
+      if (res.error) setError(describeAuthError(res.error, "mfa.error.enrollFallback"));
+      else setEnrollment(res.data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [auth, attempt]);
+
+  const generateCodes = async () => {
+    setError(null);
+    setLoading(true);
+    const res = await auth.mfa.generateRecoveryCodes();
+    setLoading(false);
+
+    if (res.error) setError(describeAuthError(res.error, "mfa.error.codesFallback"));
+    else setRecoveryCodes(res.data);
+  };
+
+  /** Passo 1 – confirmar o primeiro código do app (eleva a sessão para aal2) */
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!enrollment) return;
+
+    if (!/^\d{6}$/.test(code)) {
+      setError({ message: "validation.codeInvalid" });
+      return;
+    }
+
+    setLoading(true);
+    const res = await auth.mfa.verifyTotp(code, enrollment.factorId);
+    setLoading(false);
+    auditLog.emit("mfa_enroll", { user: res.data?.user, error: res.error });
+
+    if (res.error) {
+      setError(describeAuthError(res.error, "mfa.error.fallback"));
+      return;
+    }
+
+    setSession(res.data);
+    await generateCodes();
+  };
+
+  /** Passo 2 – só segue para o app depois de o usuário guardar os códigos */
+  const handleContinue = async () => {
+    setLoading(true);
+    await redirectToAppWithSession(session);
+    setLoading(false);
+  };
+
+  if (session) {
+    return (
+      <AuthLayout title={t("mfa.codes.title")} description={t("mfa.codes.description")}>
+        {recoveryCodes ? (
+          <>
+            <RecoveryCodes codes={recoveryCodes} />
+
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="mt-0.5 h-4 w-4 accent-primary"
+                checked={saved}
+                onChange={(e) => setSaved(e.target.checked)}
+              />
+              {t("mfa.codes.confirm")}
+            </label>
+
+            <Button className="w-full" size="lg" onClick={handleContinue} disabled={!saved || loading}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : t("mfa.codes.continue")}
+            </Button>
+          </>
+        ) : (
+          <>
+            <FormError error={error} />
+            <Button className="w-full" variant="outline" onClick={generateCodes} disabled={loading}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : t("mfa.enroll.retry")}
+            </Button>
+          </>
+        )}
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout
+      title={t("mfa.enroll.title")}
+      description={t(optIn ? "mfa.enroll.optInDescription" : "mfa.enroll.description")}
+    >
+      {enrollment ? (
+        <form onSubmit={handleVerify} className="space-y-4">
+          <p className="text-sm text-muted-foreground">{t("mfa.enroll.scan")}</p>
+          <img src={enrollment.qrCode} alt={t("mfa.enroll.qrAlt")} className="mx-auto h-44 w-44 rounded-md bg-white p-2" />
+
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>{t("mfa.enroll.manual")}</p>
+            <code className="block break-all rounded bg-muted px-2 py-1 text-center font-mono text-sm text-foreground">
+              {enrollment.secret}
+            </code>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="mfaEnrollCode">{t("mfa.code")}</Label>
+            <Input
+              id="mfaEnrollCode"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="000000"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              disabled={loading}
+              className="text-center text-lg tracking-[0.5em]"
+            />
+          </div>
+
+          <Button type="submit" className="w-full" size="lg" disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t("mfa.verifying")}
+              </>
+            ) : (
+              t("mfa.enroll.submit")
+            )}
+          </Button>
+
+          <FormError error={error} />
+        </form>
+      ) : error ? (
+        <>
+          <FormError error={error} />
+          <Button
+            className="w-full"
+            variant="outline"
+            onClick={() => {
+              setError(null);
+              setAttempt((n) => n + 1);
+            }}
+          >
+            {t("mfa.enroll.retry")}
+          </Button>
+        </>
+      ) : (
+        <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {t("mfa.enroll.loading")}
+        </div>
+      )}
+
+      <div className="text-center text-sm">
+        {optIn ? (
+          <button
+            type="button"
+            className="text-primary hover:underline"
+            onClick={() => navigate("/conexoes")}
+            disabled={loading}
+          >
+            {t("mfa.enroll.notNow")}
+          </button>
+        ) : (
+          <button type="button" className="text-primary hover:underline" onClick={cancelPendingLogin} disabled={loading}>
+            {t("mfa.signOut")}
+          </button>
+        )}
+      </div>
+    </AuthLayout>
+  );
+}
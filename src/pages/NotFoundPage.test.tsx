@@ -0,0 +1,16 @@
+import { screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { renderPortal, t } from "@/test/render";
+
+describe("NotFoundPage", () => {
+  it("rota desconhecida mostra a página e volta ao login", async () => {
+    const { user } = renderPortal("/nao-existe", createMemoryAuthService());
+
+    expect(screen.getByText(t("notFound.title"))).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: t("common.goToLogin") }));
+
+    expect(window.location.pathname).toBe("/");
+    expect(await screen.findByRole("button", { name: t("login.submit") })).toBeInTheDocument();
+  });
+});
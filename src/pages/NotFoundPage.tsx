@@ -0,0 +1,17 @@
+import { Button } from "@/components/ui/button";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { useI18n } from "@/i18n/i18n-context";
+import { useRouter } from "@/router/router-context";
+
+export default function NotFoundPage() {
+  const { navigate } = useRouter();
+  const { t } = useI18n();
+
+  return (
+    <AuthLayout title={t("notFound.title")} description={t("notFound.description")}>
+      <Button className="w-full" variant="outline" onClick={() => navigate("/", { replace: true })}>
+        {t("common.goToLogin")}
+      </Button>
+    </AuthLayout>
+  );
+}
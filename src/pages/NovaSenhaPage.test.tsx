@@ -0,0 +1,64 @@
+import { act, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { renderPortal, t } from "@/test/render";
+
+const ANA = { email: "ana@clinica.com", password: "Odonto!Forte42", metadata: { nome: "Ana Souza" } };
+
+describe("NovaSenhaPage", () => {
+  // "/nova-senha/" é a mesma rota: também não pode seguir sozinha para o app
+  it.each(["/nova-senha", "/nova-senha/"])("com a sessão do link troca a senha sem sair para o app (%s)", async (path) => {
+    const auth = createMemoryAuthService({ users: [ANA] });
+    auth.simulateRecovery(ANA.email);
+    const { user, replace } = renderPortal(path, auth);
+
+    await user.type(screen.getByLabelText(t("newPassword.password")), "Nova!Senha2026");
+    await user.type(screen.getByLabelText(t("newPassword.confirm")), "Nova!Senha2026");
+    await user.click(screen.getByRole("button", { name: t("newPassword.submit") }));
+
+    expect(await screen.findByText(t("newPassword.doneBody"))).toBeInTheDocument();
+    expect(replace).not.toHaveBeenCalled();
+
+    await auth.signOut("local");
+    expect((await auth.signInWithPassword(ANA.email, "Nova!Senha2026")).error).toBeNull();
+  });
+
+  it.each(["/nova-senha", "/nova-senha/"])("link de recuperação aberto com a página já montada fica nela (%s)", async (path) => {
+    const auth = createMemoryAuthService({ users: [ANA] });
+    const { replace } = renderPortal(path, auth);
+    expect(await screen.findByText(t("error.recoverySessionMissing"))).toBeInTheDocument();
+
+    act(() => auth.simulateRecovery(ANA.email));
+
+    expect(await screen.findByLabelText(t("newPassword.password"))).toBeInTheDocument();
+    expect(replace).not.toHaveBeenCalled();
+  });
+
+  it("recuperação fora de /nova-senha leva para lá", async () => {
+    const auth = createMemoryAuthService({ users: [ANA] });
+    const { replace } = renderPortal("/", auth);
+
+    act(() => auth.simulateRecovery(ANA.email));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(new URL(String(replace.mock.calls[0][0]), window.location.origin).pathname).toBe("/nova-senha");
+  });
+
+  it("sem sessão avisa que o link expirou", async () => {
+    renderPortal("/nova-senha", createMemoryAuthService({ users: [ANA] }));
+    expect(await screen.findByText(t("error.recoverySessionMissing"))).toBeInTheDocument();
+  });
+
+  it("senha com o nome da pessoa é recusada", async () => {
+    const auth = createMemoryAuthService({ users: [ANA] });
+    auth.simulateRecovery(ANA.email);
+    const { user } = renderPortal("/nova-senha", auth);
+
+    // o contexto (nome/e-mail) vem da sessão de recuperação
+    await user.type(screen.getByLabelText(t("newPassword.password")), "Souza!2026xy");
+    await user.type(screen.getByLabelText(t("newPassword.confirm")), "Souza!2026xy");
+    await user.click(screen.getByRole("button", { name: t("newPassword.submit") }));
+
+    expect(await screen.findByText(t("validation.passwordPersonalInfo"))).toBeInTheDocument();
+  });
+});
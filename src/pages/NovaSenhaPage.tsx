@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormError } from "@/components/auth/FormError";
+import { PasswordInput } from "@/components/auth/PasswordInput";
+import { PasswordStrengthMeter } from "@/components/auth/PasswordStrengthMeter";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { validateNewPassword, type PasswordContext } from "@/lib/password-policy";
+import { usePortal } from "@/portal/portal-context";
+import { useRouter } from "@/router/router-context";
+
+// logout em outra aba / sessão de recuperação expirada: avisa antes de o usuário digitar a senha à toa
+const RECOVERY_SESSION_ENDED = describeAuthError({ code: "session_not_found", message: "" }, "newPassword.error.fallback");
+
+export default function NovaSenhaPage() {
+  const auth = useAuthService();
+  const { navigate } = useRouter();
+  const { sessionEnded } = usePortal();
+  const { t } = useI18n();
+
+  const [newPassword, setNewPassword] = useState("");
+  const [newPasswordConfirm, setNewPasswordConfirm] = useState("");
+  const [newPasswordLoading, setNewPasswordLoading] = useState(false);
+  const [newPasswordError, setNewPasswordError] = useState<AuthErrorDescription | null>(null);
+  const [newPasswordDone, setNewPasswordDone] = useState(false);
+  const [passwordContext, setPasswordContext] = useState<PasswordContext>({});
+
+  // sessão de recuperação: e-mail e nome alimentam a regra de "não usar dados pessoais"
+  useEffect(() => {
+    let cancelled = false;
+    auth.getSession().then((session) => {
+      if (cancelled || !session) return;
+      const nome = session.user.metadata.nome;
+      setPasswordContext({ email: session.user.email ?? undefined, name: typeof nome === "string" ? nome : undefined });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [auth]);
+
+  /** Nova senha – atualizar senha */
+  const handleSubmitNovaSenha = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setNewPasswordError(null);
+
+    if (newPassword !== newPasswordConfirm) {
+      setNewPasswordError({ message: "validation.passwordMismatch" });
+      return;
+    }
+
+    setNewPasswordLoading(true);
+
+    const passwordError = await validateNewPassword(newPassword, passwordContext);
+    if (passwordError) {
+      setNewPasswordLoading(false);
+      setNewPasswordError(passwordError);
+      return;
+    }
+    const { data, error } = await auth.updateUser({ password: newPassword });
+    setNewPasswordLoading(false);
+    auditLog.emit("password_change", { user: data, error });
+
+    if (error) {
+      setNewPasswordError(describeAuthError(error, "newPassword.error.fallback"));
+      return;
+    }
+
+    setNewPasswordDone(true);
+  };
+
+  return (
+    <AuthLayout
+      title={t("newPassword.title")}
+      description={newPasswordDone ? t("newPassword.doneDescription") : t("newPassword.description")}
+    >
+      {newPasswordDone ? (
+        <>
+          <p className="text-sm text-muted-foreground leading-relaxed">
+            {t("newPassword.doneBody")}
+          </p>
+          <Button className="w-full" onClick={() => navigate("/")}>
+            {t("common.goToLogin")}
+          </Button>
+        </>
+      ) : (
+        <form onSubmit={handleSubmitNovaSenha} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="newPassword">{t("newPassword.password")}</Label>
+            <PasswordInput
+              id="newPassword"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              disabled={newPasswordLoading}
+              autoComplete="new-password"
+            />
+            <PasswordStrengthMeter password={newPassword} context={passwordContext} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="newPasswordConfirm">{t("newPassword.confirm")}</Label>
+            <PasswordInput
+              id="newPasswordConfirm"
+              value={newPasswordConfirm}
+              onChange={(e) => setNewPasswordConfirm(e.target.value)}
+              disabled={newPasswordLoading}
+              autoComplete="new-password"
+            />
+          </div>
+
+          <Button type="submit" className="w-full" size="lg" disabled={newPasswordLoading}>
+            {newPasswordLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t("newPassword.submitting")}
+              </>
+            ) : (
+              t("newPassword.submit")
+            )}
+          </Button>
+
+          <FormError error={newPasswordError ?? (sessionEnded ? RECOVERY_SESSION_ENDED : null)} />
+        </form>
+      )}
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,64 @@
+import { screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { server } from "@/test/msw";
+import { PKCE_PARAMS, renderPortal, t } from "@/test/render";
+import { handoffFunctionHandler } from "@/test/supabase-auth-server";
+
+const ANA = {
+  email: "ana@clinica.com",
+  password: "Odonto!Forte42",
+  organizations: [
+    { id: "org-centro", name: "Clínica Centro" },
+    { id: "org-norte", name: "Clínica Norte" },
+  ],
+};
+
+async function signIn(user: ReturnType<typeof renderPortal>["user"]) {
+  await user.type(screen.getByLabelText(t("common.email")), ANA.email);
+  await user.type(screen.getByLabelText(t("common.password")), ANA.password);
+  await user.click(screen.getByRole("button", { name: t("login.submit") }));
+}
+
+describe("OrganizationPickerPage", () => {
+  beforeEach(() => {
+    server.use(handoffFunctionHandler("code-org"));
+  });
+
+  it("mais de uma clínica: a escolhida vai como ?org= ao lado do code", async () => {
+    const { user, replace } = renderPortal(`/?${PKCE_PARAMS}`, createMemoryAuthService({ users: [ANA] }));
+
+    await signIn(user);
+    await user.click(await screen.findByRole("button", { name: /Clínica Norte/ }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    const target = new URL(String(replace.mock.calls[0][0]));
+    expect(target.searchParams.get("org")).toBe("org-norte");
+    expect(target.searchParams.get("code")).toBe("code-org");
+  });
+
+  it("a última clínica usada vem marcada no próximo login", async () => {
+    const auth = createMemoryAuthService({ users: [ANA] });
+    const first = renderPortal("/", auth);
+    await signIn(first.user);
+    await first.user.click(await screen.findByRole("button", { name: /Clínica Norte/ }));
+    await waitFor(() => expect(first.replace).toHaveBeenCalled());
+    first.unmount();
+    await auth.signOut("local");
+
+    const second = renderPortal("/", auth);
+    await signIn(second.user);
+    const norte = await screen.findByRole("button", { name: /Clínica Norte/ });
+    expect(norte).toHaveTextContent(t("organization.lastUsed"));
+  });
+
+  it("uma clínica só não mostra a escolha", async () => {
+    const auth = createMemoryAuthService({ users: [{ ...ANA, organizations: [ANA.organizations[0]] }] });
+    const { user, replace } = renderPortal("/", auth);
+
+    await signIn(user);
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(new URL(String(replace.mock.calls[0][0])).searchParams.get("org")).toBe("org-centro");
+  });
+});
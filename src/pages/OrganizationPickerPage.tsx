@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { Building2, ChevronRight, Loader2 } from "lucide-react";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { useI18n } from "@/i18n/i18n-context";
+import { usePortal } from "@/portal/portal-context";
+
+export default function OrganizationPickerPage() {
+  const { organizationChoice, selectOrganization, cancelPendingLogin } = usePortal();
+  const { t } = useI18n();
+  const [selecting, setSelecting] = useState<string | null>(null);
+
+  const list = organizationChoice?.organizations ?? [];
+  const lastUsedId = organizationChoice?.lastUsedId;
+
+  const handleSelect = async (id: string) => {
+    setSelecting(id);
+    await selectOrganization(id);
+    // em caso de sucesso a página já saiu para o app; se falhar, o erro aparece no AuthLayout
+    setSelecting(null);
+  };
+
+  return (
+    <AuthLayout title={t("organization.title")} description={t("organization.description")}>
+      <ul className="space-y-2">
+        {list.map((org) => (
+          <li key={org.id}>
+            <button
+              type="button"
+              onClick={() => handleSelect(org.id)}
+              disabled={!!selecting}
+              className="w-full flex items-center gap-3 rounded-md border border-input bg-background px-3 py-3 text-left hover:bg-accent disabled:opacity-60"
+            >
+              {org.logoUrl ? (
+                <img src={org.logoUrl} alt="" className="h-8 w-8 rounded object-cover" />
+              ) : (
+                <Building2 className="h-8 w-8 p-1.5 rounded bg-muted text-muted-foreground" />
+              )}
+              <span className="flex-1 min-w-0">
+                <span className="block font-medium truncate">{org.name}</span>
+                {org.id === lastUsedId && (
+                  <span className="block text-xs text-muted-foreground">{t("organization.lastUsed")}</span>
+                )}
+              </span>
+              {selecting === org.id ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="text-center text-sm">
+        <button
+          type="button"
+          className="text-primary hover:underline disabled:text-muted-foreground disabled:no-underline"
+          onClick={cancelPendingLogin}
+          disabled={!!selecting}
+        >
+          {t("organization.signOut")}
+        </button>
+      </div>
+    </AuthLayout>
+  );
+}
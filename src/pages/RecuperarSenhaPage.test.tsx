@@ -0,0 +1,33 @@
+import { fireEvent, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { renderPortal, t } from "@/test/render";
+
+const APP = "https://app.flowodonto.com.br/";
+
+describe("RecuperarSenhaPage", () => {
+  it("envia o link para /nova-senha mantendo o returnTo", async () => {
+    const auth = createMemoryAuthService({ users: [{ email: "ana@clinica.com", password: "Odonto!Forte42" }] });
+    const { user } = renderPortal(`/recuperar-senha?returnTo=${encodeURIComponent(APP)}`, auth);
+
+    await user.type(screen.getByLabelText(t("common.email")), "ana@clinica.com");
+    await user.click(screen.getByRole("button", { name: t("recovery.submit") }));
+
+    expect(await screen.findByText(t("recovery.sentBody"))).toBeInTheDocument();
+    const link = new URL(auth.sentEmails[0].redirectTo);
+    expect(link.pathname).toBe("/nova-senha");
+    expect(link.searchParams.get("returnTo")).toBe(APP);
+  });
+
+  it("e-mail inválido não chama o auth", async () => {
+    const auth = createMemoryAuthService();
+    const { user } = renderPortal("/recuperar-senha", auth);
+
+    await user.type(screen.getByLabelText(t("common.email")), "ana");
+    // o type="email" já barraria no navegador; o submit direto testa a validação da própria tela
+    fireEvent.submit(screen.getByRole("button", { name: t("recovery.submit") }).closest("form")!);
+
+    expect(await screen.findByText(t("validation.emailInvalid"))).toBeInTheDocument();
+    expect(auth.sentEmails).toHaveLength(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { CaptchaWidget } from "@/components/auth/CaptchaWidget";
+import { FormError } from "@/components/auth/FormError";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import { useAttemptGuard } from "@/hooks/use-attempt-guard";
+import { useI18n } from "@/i18n/i18n-context";
+import { auditLog } from "@/lib/audit-log";
+import { usePortal } from "@/portal/portal-context";
+import { Link } from "@/router/Link";
+import { useRouter } from "@/router/router-context";
+
+export default function RecuperarSenhaPage() {
+  const auth = useAuthService();
+  const { portalUrl } = usePortal();
+  const { navigate } = useRouter();
+  const { t } = useI18n();
+
+  const [recoveryEmail, setRecoveryEmail] = useState("");
+  const [recoveryLoading, setRecoveryLoading] = useState(false);
+  const [recoveryError, setRecoveryError] = useState<AuthErrorDescription | null>(null);
+  const [recoverySent, setRecoverySent] = useState(false);
+  const guard = useAttemptGuard("recovery", recoveryEmail);
+
+  /** Recuperar senha – enviar e-mail */
+  const handleSubmitRecovery = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRecoveryError(null);
+
+    const email = (recoveryEmail || "").trim();
+    if (!email.includes("@")) {
+      setRecoveryError({ message: "validation.emailInvalid" });
+      return;
+    }
+
+    const blocked = guard.check();
+    if (blocked) {
+      auditLog.emit("recovery_request", { email, outcome: "blocked" });
+      setRecoveryError(blocked);
+      return;
+    }
+
+    setRecoveryLoading(true);
+    const { error } = await auth.resetPasswordForEmail(email, portalUrl("/nova-senha"), guard.captchaToken);
+    setRecoveryLoading(false);
+    auditLog.emit("recovery_request", { email, error });
+
+    // cada envio conta, mesmo com sucesso (cada um dispara um e-mail)
+    if (error?.code !== "network_error" && error?.code !== "timeout") guard.record();
+
+    if (error) {
+      setRecoveryError(describeAuthError(error, "recovery.error.fallback", { email }));
+      return;
+    }
+
+    setRecoverySent(true);
+  };
+
+  return (
+    <AuthLayout
+      title={t("recovery.title")}
+      description={
+        recoverySent ? t("recovery.sentDescription") : t("recovery.description")
+      }
+    >
+      {recoverySent ? (
+        <>
+          <p className="text-sm text-muted-foreground leading-relaxed">
+            {t("recovery.sentBody")}
+          </p>
+          <Button className="w-full" variant="outline" onClick={() => navigate("/")}>
+            {t("common.backToLogin")}
+          </Button>
+        </>
+      ) : (
+        <form onSubmit={handleSubmitRecovery} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recoveryEmail">{t("common.email")}</Label>
+            <Input
+              id="recoveryEmail"
+              type="email"
+              placeholder={t("common.emailPlaceholder")}
+              value={recoveryEmail}
+              onChange={(e) => setRecoveryEmail(e.target.value)}
+              disabled={recoveryLoading}
+              autoComplete="email"
+            />
+          </div>
+
+          {guard.captchaRequired && (
+            <CaptchaWidget onToken={guard.setCaptchaToken} resetKey={guard.captchaResetKey} />
+          )}
+
+          <Button type="submit" className="w-full" size="lg" disabled={recoveryLoading || guard.waitSeconds > 0}>
+            {recoveryLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t("recovery.submitting")}
+              </>
+            ) : guard.waitSeconds > 0 ? (
+              t("throttle.retryIn", { seconds: guard.waitSeconds })
+            ) : (
+              t("recovery.submit")
+            )}
+          </Button>
+
+          <FormError error={recoveryError} />
+
+          <div className="text-center text-sm">
+            <Link to="/" className="text-primary hover:underline">
+              {t("common.backToLogin")}
+            </Link>
+          </div>
+        </form>
+      )}
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,72 @@
+import { screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryAuthService } from "@/auth/memory-auth-service";
+import { server } from "@/test/msw";
+import { PKCE_PARAMS, renderPortal, t } from "@/test/render";
+import { handoffFunctionHandler } from "@/test/supabase-auth-server";
+
+const APP = "https://app.flowodonto.com.br/agenda";
+const CONEXOES = `/conexoes?returnTo=${encodeURIComponent(APP)}&state=s1&${PKCE_PARAMS}`;
+// sem o papel "admin": o MFA não é exigido no login (VITE_MFA_REQUIRED_ROLES em vite.config.ts)
+const ANA = { email: "ana@clinica.com", password: "Odonto!Forte42" };
+
+async function signedIn(user: { email: string; password: string; totp?: boolean } = ANA) {
+  const auth = createMemoryAuthService({ users: [user] });
+  await auth.signInWithPassword(user.email, user.password);
+  return auth;
+}
+
+describe("SegurancaPage", () => {
+  beforeEach(() => {
+    server.use(handoffFunctionHandler("code-optin"));
+  });
+
+  it("ativa o TOTP a partir das conexões e volta para o app", async () => {
+    const auth = await signedIn();
+    const { user, replace } = renderPortal(CONEXOES, auth);
+
+    await user.click(await screen.findByRole("button", { name: t("identities.mfa") }));
+    expect(window.location.pathname).toBe("/seguranca");
+    expect(await screen.findByText(t("mfa.enroll.optInDescription"))).toBeInTheDocument();
+    expect(await screen.findByText("MEMORYSECRET")).toBeInTheDocument();
+    await user.type(screen.getByLabelText(t("mfa.code")), "123456");
+    await user.click(screen.getByRole("button", { name: t("mfa.enroll.submit") }));
+
+    // a sessão já é aal2, mas quem segue para o app é a tela, depois dos códigos
+    expect(await screen.findByText("memory-00000")).toBeInTheDocument();
+    expect(replace).not.toHaveBeenCalled();
+    await user.click(screen.getByLabelText(t("mfa.codes.confirm")));
+    await user.click(screen.getByRole("button", { name: t("mfa.codes.continue") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(new URL(String(replace.mock.calls[0][0])).searchParams.get("code")).toBe("code-optin");
+    // próximo login passa pelo desafio
+    expect((await auth.mfa.getAssuranceLevel()).data).toEqual({ current: "aal2", next: "aal2" });
+  });
+
+  it("agora não volta para as conexões sem cadastrar", async () => {
+    const auth = await signedIn();
+    const { user } = renderPortal(CONEXOES.replace("/conexoes", "/seguranca"), auth);
+
+    expect(await screen.findByText("MEMORYSECRET")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: t("mfa.enroll.notNow") }));
+
+    expect(await screen.findByText(t("identities.title"))).toBeInTheDocument();
+    expect(window.location.pathname).toBe("/conexoes");
+    expect(new URLSearchParams(window.location.search).get("returnTo")).toBe(APP);
+    expect((await auth.mfa.getAssuranceLevel()).data?.next).toBe("aal1");
+  });
+
+  it("quem já tem TOTP não cadastra outro", async () => {
+    renderPortal("/seguranca", await signedIn({ ...ANA, totp: true }));
+
+    expect(await screen.findByText(t("mfa.enroll.alreadyActive"))).toBeInTheDocument();
+    expect(screen.queryByText("MEMORYSECRET")).not.toBeInTheDocument();
+  });
+
+  it("sem sessão manda para o login", async () => {
+    renderPortal("/seguranca", createMemoryAuthService({ users: [ANA] }));
+
+    expect(await screen.findByText(t("mfa.enroll.signedOut"))).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormError } from "@/components/auth/FormError";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, type AuthErrorDescription } from "@/auth/error-catalog";
+import type { AuthSession } from "@/auth/types";
+import { useI18n } from "@/i18n/i18n-context";
+import { usePortal } from "@/portal/portal-context";
+import { useRouter } from "@/router/router-context";
+import MfaEnrollPage from "@/pages/MfaEnrollPage";
+
+/** Ativação do TOTP por conta própria (quem o papel obriga passa pelo cadastro no login) */
+export default function SegurancaPage() {
+  const auth = useAuthService();
+  const { redirectToAppWithSession, sessionEnded } = usePortal();
+  const { navigate } = useRouter();
+  const { t } = useI18n();
+
+  // undefined = ainda carregando
+  const [session, setSession] = useState<AuthSession | null | undefined>(undefined);
+  const [hasTotp, setHasTotp] = useState(false);
+  const [error, setError] = useState<AuthErrorDescription | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      const current = await auth.getSession();
+      const assurance = current ? await auth.mfa.getAssuranceLevel() : null;
+      if (cancelled) return;
+      if (assurance?.error) setError(describeAuthError(assurance.error, "error.mfaCheckFailed"));
+      // `next` aal2 = já tem TOTP verificado (um segundo cadastro exigiria passar pelo desafio antes)
+      else if (assurance) setHasTotp(assurance.data.next === "aal2");
+      setSession(current);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [auth]);
+
+  if (session === undefined) {
+    return (
+      <AuthLayout title={t("mfa.enroll.title")}>
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  if (!session || sessionEnded) {
+    return (
+      <AuthLayout title={t("mfa.enroll.title")}>
+        <p className="text-sm text-muted-foreground">{t("mfa.enroll.signedOut")}</p>
+        <Button className="w-full" variant="outline" onClick={() => navigate("/")}>
+          {t("common.goToLogin")}
+        </Button>
+      </AuthLayout>
+    );
+  }
+
+  if (error || hasTotp) {
+    return (
+      <AuthLayout title={t("identities.mfa")}>
+        {error ? <FormError error={error} /> : <p className="text-sm text-muted-foreground">{t("mfa.enroll.alreadyActive")}</p>}
+        <Button className="w-full" variant="outline" onClick={() => redirectToAppWithSession(session)}>
+          {t("identities.backToApp")}
+        </Button>
+      </AuthLayout>
+    );
+  }
+
+  return <MfaEnrollPage optIn />;
+}
@@ -0,0 +1,130 @@
+import { screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryAuthService, type MemoryAuthServiceOptions } from "@/auth/memory-auth-service";
+import { SILENT_AUTH_MESSAGE } from "@/lib/silent-auth";
+import { createTabSync } from "@/lib/tab-sync";
+import { server } from "@/test/msw";
+import { PKCE_PARAMS, renderPortal, t } from "@/test/render";
+import { handoffFunctionHandler } from "@/test/supabase-auth-server";
+
+const APP = "https://app.flowodonto.com.br/agenda";
+const SILENT = `/?prompt=none&returnTo=${encodeURIComponent(APP)}&state=s1&${PKCE_PARAMS}`;
+const ANA = { email: "ana@clinica.com", password: "Odonto!Forte42", organizations: [{ id: "org-centro", name: "Centro" }] };
+
+type SeedUser = NonNullable<MemoryAuthServiceOptions["users"]>[number];
+
+/** Sessão já aberta no portal antes de o app pedir a renovação */
+async function signedIn(user: SeedUser) {
+  const auth = createMemoryAuthService({ users: [user] });
+  await auth.signInWithPassword(user.email, user.password);
+  return auth;
+}
+
+function answer(replace: ReturnType<typeof renderPortal>["replace"]) {
+  return Object.fromEntries(new URL(String(replace.mock.calls[0][0])).searchParams);
+}
+
+describe("PortalProvider: prompt=none", () => {
+  beforeEach(() => {
+    server.use(handoffFunctionHandler("code-silent"));
+  });
+
+  it("sem sessão volta para o app com login_required, sem tela", async () => {
+    const { replace, container } = renderPortal(SILENT, createMemoryAuthService({ users: [ANA] }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(answer(replace)).toEqual({ error: "login_required", state: "s1" });
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("com sessão emite código novo com a clínica", async () => {
+    const { replace, container } = renderPortal(SILENT, await signedIn(ANA));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(answer(replace)).toEqual({ code: "code-silent", org: "org-centro", state: "s1" });
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("MFA pendente é interaction_required", async () => {
+    const { replace } = renderPortal(SILENT, await signedIn({ ...ANA, totp: true }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(answer(replace)).toEqual({ error: "interaction_required", state: "s1" });
+  });
+
+  describe("clínica", () => {
+    const ORGS = { ...ANA, organizations: [...ANA.organizations, { id: "org-norte", name: "Norte" }] };
+
+    it("várias clínicas sem escolha anterior pedem a tela", async () => {
+      const { replace } = renderPortal(SILENT, await signedIn(ORGS));
+
+      await waitFor(() => expect(replace).toHaveBeenCalled());
+      expect(answer(replace)).toEqual({ error: "interaction_required", state: "s1" });
+    });
+
+    it("a clínica que o app já usa é mantida", async () => {
+      const { replace } = renderPortal(`${SILENT}&org=org-norte`, await signedIn(ORGS));
+
+      await waitFor(() => expect(replace).toHaveBeenCalled());
+      expect(answer(replace)).toEqual({ code: "code-silent", org: "org-norte", state: "s1" });
+    });
+
+    it("clínica da qual a pessoa saiu não é renovada", async () => {
+      const { replace } = renderPortal(`${SILENT}&org=org-outra`, await signedIn(ORGS));
+
+      await waitFor(() => expect(replace).toHaveBeenCalled());
+      expect(answer(replace)).toEqual({ error: "interaction_required", state: "s1" });
+    });
+  });
+
+  it("dentro do iframe responde ao app por postMessage, sem sair da página", async () => {
+    const parent = { postMessage: vi.fn() };
+    vi.stubGlobal("parent", parent);
+    const { replace } = renderPortal(SILENT, await signedIn(ANA));
+
+    await waitFor(() => expect(parent.postMessage).toHaveBeenCalled());
+    expect(parent.postMessage).toHaveBeenCalledWith(
+      { type: SILENT_AUTH_MESSAGE, state: "s1", code: "code-silent", org: "org-centro", error: null },
+      "https://app.flowodonto.com.br"
+    );
+    expect(replace).not.toHaveBeenCalled();
+  });
+});
+
+describe("PortalProvider: outras abas", () => {
+  const LOGIN = `/?returnTo=${encodeURIComponent(APP)}&state=s1&${PKCE_PARAMS}`;
+
+  beforeEach(() => {
+    server.use(handoffFunctionHandler("code-tab"));
+  });
+
+  it("login em outra aba leva esta para o returnTo", async () => {
+    const auth = createMemoryAuthService({ users: [ANA] });
+    // a outra aba entra no storage compartilhado: nenhum evento do auth chega aqui, só o aviso da aba
+    const { replace } = renderPortal(LOGIN, { ...auth, onAuthStateChange: () => () => {} });
+    expect(await screen.findByLabelText(t("common.email"))).toBeInTheDocument();
+
+    await auth.signInWithPassword(ANA.email, ANA.password);
+    expect(replace).not.toHaveBeenCalled();
+    createTabSync().post("signed-in");
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    expect(answer(replace)).toMatchObject({ code: "code-tab", state: "s1" });
+  });
+
+  it("logout em outra aba limpa a sessão e o passo pendente daqui", async () => {
+    const auth = createMemoryAuthService({ users: [{ ...ANA, totp: true }] });
+    const { user, replace } = renderPortal(LOGIN, auth);
+    await user.type(screen.getByLabelText(t("common.email")), ANA.email);
+    await user.type(screen.getByLabelText(t("common.password")), ANA.password);
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+    expect(await screen.findByLabelText(t("mfa.code"))).toBeInTheDocument();
+
+    createTabSync().post("signed-out");
+
+    expect(await screen.findByRole("button", { name: t("login.submit") })).toBeInTheDocument();
+    expect(screen.queryByLabelText(t("mfa.code"))).not.toBeInTheDocument();
+    expect(await auth.getSession()).toBeNull();
+    expect(replace).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,551 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useReducer, useRef, useState, type ReactNode } from "react";
+import { useAuthService } from "@/auth/auth-context";
+import { describeAuthError, readAuthErrorFromHash, type AuthErrorDescription } from "@/auth/error-catalog";
+import type { AuthService, AuthSession, AuthUser, MfaAssurance, OAuthProvider } from "@/auth/types";
+import {
+  accountLinkFromError,
+  clearOAuthAttempt,
+  readOAuthAttempt,
+  rememberOAuthAttempt,
+  type AccountLinkRequest,
+} from "@/lib/account-linking";
+import { auditLog } from "@/lib/audit-log";
+import { brandingCssVariables, brandingFor } from "@/lib/branding";
+import { canTrustDevice, readDeviceToken } from "@/lib/device-trust";
+import {
+  buildCodeRedirect,
+  buildLegacyHashRedirect,
+  issueHandoffCode,
+  readHandoffRequest,
+  withHandoffParams,
+} from "@/lib/handoff";
+import { frontChannelLogout, readLogoutRequest, type LogoutRequest } from "@/lib/logout";
+import { findOAuthProvider } from "@/lib/oauth-providers";
+import { readLastOrganization, saveLastOrganization, sortByLastUsed, withOrganization } from "@/lib/organizations";
+import {
+  buildSilentRedirect,
+  postSilentResult,
+  readSilentRequest,
+  silentError,
+  silentOrganization,
+  type SilentAuthResult,
+} from "@/lib/silent-auth";
+import { clearSessionStart, markSessionStart, sessionExpired, sessionLimitMinutes } from "@/lib/session-persistence";
+import { tabSync } from "@/lib/tab-sync";
+import { resolveMfaStep, type MfaStep } from "@/lib/mfa-policy";
+import { LOCALE_PARAM } from "@/i18n/i18n";
+import { useI18n } from "@/i18n/i18n-context";
+import { normalizeReturnTo, safeReturnTo, stripHash, stripLogoutParam, stripTokenHash } from "@/lib/return-to";
+import {
+  bootConfig,
+  bootReducer,
+  hasSessionEnded,
+  initialBootState,
+  isBooting,
+  isConfirmingLogout,
+  isLeaving,
+  retryDelay,
+} from "@/portal/boot-machine";
+import { PortalContext, type OrganizationChoice, type PortalState } from "@/portal/portal-context";
+import { normalizePath } from "@/router/router-context";
+
+/** =========================
+ * helpers
+ * ========================= */
+function isSamePage(urlStr: string) {
+  try {
+    const u = new URL(urlStr);
+    return u.origin === window.location.origin && u.pathname === window.location.pathname;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Telas que decidem a hora de seguir para o app: nova senha (SIGNED_IN vem do updateUser),
+ * convite (precisa aceitar antes), conexões e segurança (a pessoa veio gerenciar a conta)
+ */
+function handlesOwnRedirect(pathname: string) {
+  // mesma rota que o router casou ("/convite/" também é /convite)
+  const p = normalizePath(pathname);
+  return p === "/nova-senha" || p === "/convite" || p === "/conexoes" || p === "/seguranca";
+}
+
+/** resolveMfaStep + dispositivo confiável: o token só dispensa o desafio, nunca o cadastro exigido */
+async function pendingMfaStep(auth: AuthService, assurance: MfaAssurance, user: AuthUser): Promise<MfaStep | null> {
+  const step = resolveMfaStep(assurance, user);
+  const token = readDeviceToken();
+  if (step !== "challenge" || !token || !canTrustDevice()) return step;
+
+  // falhou a consulta: pede o código, como sem o token
+  const trusted = await auth.devices.isTrusted(token);
+  if (!trusted.data) return step;
+  auditLog.emit("mfa_trusted_skip", { user });
+  return null;
+}
+
+// O app de destino recebe o idioma escolhido no portal
+function withLocale(urlStr: string, locale: string) {
+  try {
+    const u = new URL(urlStr);
+    u.searchParams.set(LOCALE_PARAM, locale);
+    return u.toString();
+  } catch {
+    return urlStr;
+  }
+}
+
+export function PortalProvider({ children }: { children: ReactNode }) {
+  const auth = useAuthService();
+  const { locale } = useI18n();
+  const isNovaSenhaPage = normalizePath(window.location.pathname) === "/nova-senha";
+
+  // IMPORTANTE: não travar tela por boot (ver boot-machine.ts)
+  const [boot, dispatch] = useReducer(bootReducer, initialBootState);
+  // o dispatch só vale no próximo render: duas chamadas seguidas do handoff param aqui
+  const redirectingRef = useRef(false);
+  const [mfaStep, setMfaStep] = useState<MfaStep | null>(null);
+  // o listener do onAuthStateChange é registrado uma vez; lê o passo pendente por ref
+  const mfaStepRef = useRef<MfaStep | null>(null);
+  // clínicas para escolher (mais de uma); idem: o listener lê pela ref
+  const [organizationChoice, setOrganizationChoice] = useState<OrganizationChoice | null>(null);
+  const organizationChoiceRef = useRef<OrganizationChoice | null>(null);
+  // clínica já decidida (convite aceito): sobrevive ao passo de MFA e pula a escolha
+  const preferredOrganizationRef = useRef<string | null>(null);
+  // erro no hash do redirect (link de e-mail ou volta do OAuth)
+  const hashError = useMemo(() => readAuthErrorFromHash(window.location.hash), []);
+  // OAuth com e-mail de uma conta que já existe: a tela de vinculação substitui a rota
+  const [accountLink, setAccountLink] = useState<AccountLinkRequest | null>(() =>
+    hashError ? accountLinkFromError(hashError, readOAuthAttempt()) : null
+  );
+  const accountLinkRef = useRef(accountLink);
+  const [portalError, setPortalError] = useState<AuthErrorDescription | null>(() =>
+    hashError && !accountLink ? describeAuthError(hashError, "error.link.fallback") : null
+  );
+
+  const params = useMemo(() => new URLSearchParams(window.location.search), []);
+  const rawReturnTo = useMemo(() => params.get("returnTo"), [params]);
+  const returnTo = useMemo(() => normalizeReturnTo(rawReturnTo), [rawReturnTo]);
+  const branding = useMemo(() => brandingFor(returnTo), [returnTo]);
+  const handoffRequest = useMemo(() => readHandoffRequest(params), [params]);
+
+  // returnTo limpo + parâmetros do handoff (PKCE/state) + idioma: vão em toda URL do portal
+  const portalParams = useCallback(() => {
+    const q = new URLSearchParams();
+    q.set("returnTo", stripTokenHash(returnTo));
+    q.set(LOCALE_PARAM, locale);
+    return withHandoffParams(q, handoffRequest);
+  }, [returnTo, handoffRequest, locale]);
+
+  const portalUrl = useCallback(
+    (path: string, extra?: Record<string, string>) => {
+      const q = portalParams();
+      for (const [k, v] of Object.entries(extra ?? {})) q.set(k, v);
+      return `${window.location.origin}${path}?${q.toString()}`;
+    },
+    [portalParams]
+  );
+
+  const logoutRequest = useMemo(
+    () => readLogoutRequest(params, normalizePath(window.location.pathname), safeReturnTo(rawReturnTo)),
+    [params, rawReturnTo]
+  );
+  const isLogout = !!logoutRequest;
+  const silentRequest = useMemo(() => readSilentRequest(params), [params]);
+
+  // quem decide a hora de seguir para o app é a tela; lido na hora do evento (os listeners são registrados uma vez)
+  const ownsRedirect = () =>
+    handlesOwnRedirect(window.location.pathname) ||
+    !!mfaStepRef.current ||
+    !!organizationChoiceRef.current ||
+    !!accountLinkRef.current;
+
+  const showOrganizationPicker = (choice: OrganizationChoice | null) => {
+    organizationChoiceRef.current = choice;
+    setOrganizationChoice(choice);
+  };
+
+  const redirectToAppWithSession = async (session: AuthSession | null, organizationId?: string) => {
+    if (!session || redirectingRef.current) return;
+    if (organizationId) preferredOrganizationRef.current = organizationId;
+
+    if (isSamePage(withLocale(stripHash(stripTokenHash(returnTo)), locale))) return;
+
+    // o app nunca recebe sessão aal1 de quem tem (ou precisa ter) TOTP, salvo em dispositivo confiável
+    const assurance = await auth.mfa.getAssuranceLevel();
+    if (assurance.error) {
+      setPortalError(describeAuthError(assurance.error, "error.mfaCheckFailed"));
+      return;
+    }
+    const step = await pendingMfaStep(auth, assurance.data, session.user);
+    mfaStepRef.current = step;
+    setMfaStep(step);
+    if (step) return;
+
+    // mais de uma clínica: a tela de escolha chama selectOrganization
+    const memberships = await auth.organizations.listMine();
+    if (memberships.error) {
+      setPortalError(describeAuthError(memberships.error, "error.organizationsFailed"));
+      return;
+    }
+    const preferred = memberships.data.find((o) => o.id === preferredOrganizationRef.current);
+    if (preferred) {
+      await handoffToApp(session, preferred.id);
+      return;
+    }
+    if (memberships.data.length > 1) {
+      const lastUsedId = readLastOrganization(session.user.id);
+      showOrganizationPicker({ organizations: sortByLastUsed(memberships.data, lastUsedId), lastUsedId });
+      return;
+    }
+    await handoffToApp(session, memberships.data[0]?.id ?? null);
+  };
+
+  const selectOrganization = async (organizationId: string) => {
+    const session = await auth.getSession();
+    if (!session) {
+      showOrganizationPicker(null);
+      dispatch({ type: "AUTH_EVENT", event: "SIGNED_OUT", manual: false });
+      return;
+    }
+    saveLastOrganization(session.user.id, organizationId);
+    await handoffToApp(session, organizationId);
+  };
+
+  /** Código de handoff + redirect; a clínica vai como ?org= ao lado do code */
+  const handoffToApp = async (session: AuthSession, organizationId: string | null) => {
+    if (redirectingRef.current) return;
+
+    const base = withOrganization(withLocale(stripHash(stripTokenHash(returnTo)), locale), organizationId);
+    const orgDetail: Record<string, string> = organizationId ? { organization: organizationId } : {};
+
+    redirectingRef.current = true;
+    dispatch({ type: "REDIRECT_STARTED", session });
+    setPortalError(null);
+
+    if (handoffRequest.legacyHash) {
+      auditLog.emit("handoff", { user: session.user, detail: { mode: "hash", ...orgDetail } });
+      window.location.replace(buildLegacyHashRedirect(base, session));
+      return;
+    }
+
+    // o app não começou o login (link direto, fallback): volta sem código e ele pede o próprio com PKCE
+    if (!handoffRequest.codeChallenge) {
+      auditLog.emit("handoff", { user: session.user, detail: { mode: "plain", ...orgDetail } });
+      window.location.replace(base);
+      return;
+    }
+
+    const { code, error } = await issueHandoffCode(session, base, handoffRequest);
+    if (error) {
+      console.error("[handoff]", error.message);
+      auditLog.emit("handoff", {
+        user: session.user,
+        error: { code: "handoff_failed", message: error.message },
+        detail: { mode: "code", ...orgDetail },
+      });
+      redirectingRef.current = false;
+      dispatch({ type: "REDIRECT_FAILED" });
+      setPortalError(describeAuthError({ code: "handoff_failed", message: error.message }, "error.handoffFailed"));
+      return;
+    }
+    auditLog.emit("handoff", { user: session.user, detail: { mode: "code", ...orgDetail } });
+    window.location.replace(buildCodeRedirect(base, code, handoffRequest.state));
+  };
+
+  useEffect(() => {
+    auditLog.setContext({ returnTo });
+  }, [returnTo]);
+
+  // marca do app de destino: troca as variáveis do Tailwind antes do primeiro paint (sem piscar a cor padrão)
+  useLayoutEffect(() => {
+    const root = document.documentElement;
+    const vars = brandingCssVariables(branding);
+    for (const [name, value] of Object.entries(vars)) root.style.setProperty(name, value);
+    document.title = branding.productName;
+    return () => {
+      for (const name of Object.keys(vars)) root.style.removeProperty(name);
+    };
+  }, [branding]);
+
+  // o erro do link já foi lido; tira o #error=... da barra de endereço
+  // (a tentativa de OAuth anotada antes de sair para o provedor também já cumpriu o papel)
+  useEffect(() => {
+    clearOAuthAttempt();
+    if (window.location.hash.includes("error")) {
+      window.history.replaceState(window.history.state, "", window.location.pathname + window.location.search);
+    }
+  }, []);
+
+  /** PROMPT=NONE (renovação silenciosa: nenhuma tela, só código ou erro para o app) */
+  useEffect(() => {
+    if (!silentRequest) return;
+    let cancelled = false;
+    const base = stripHash(stripTokenHash(returnTo));
+
+    const decide = async (): Promise<SilentAuthResult & { session: AuthSession | null }> => {
+      const session = await auth.getSession();
+      if (!session || sessionExpired() || !(await auth.validateSession())) {
+        return { ...silentError("login_required"), session };
+      }
+
+      const assurance = await auth.mfa.getAssuranceLevel();
+      if (assurance.error) return { ...silentError("server_error"), session };
+      if (await pendingMfaStep(auth, assurance.data, session.user)) {
+        return { ...silentError("interaction_required"), session };
+      }
+
+      const memberships = await auth.organizations.listMine();
+      if (memberships.error) return { ...silentError("server_error"), session };
+      const organizationId = silentOrganization(
+        memberships.data,
+        silentRequest.organizationId,
+        readLastOrganization(session.user.id)
+      );
+      if (organizationId === undefined) return { ...silentError("interaction_required"), session };
+
+      const { code, error } = await issueHandoffCode(session, base, handoffRequest);
+      if (error) {
+        console.error("[silent]", error.message);
+        return { ...silentError("server_error"), session };
+      }
+      return { code, organizationId, error: null, session };
+    };
+
+    (async () => {
+      const { session, ...result } = await decide();
+      if (cancelled) return;
+
+      auditLog.emit("silent_auth", {
+        user: session?.user,
+        error: result.error ? { code: result.error, message: result.error } : null,
+        detail: { mode: silentRequest.responseMode, ...(result.organizationId ? { organization: result.organizationId } : {}) },
+      });
+      if (silentRequest.responseMode === "web_message") postSilentResult(base, result, handoffRequest.state);
+      else window.location.replace(buildSilentRedirect(base, result, handoffRequest.state));
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [auth, silentRequest, returnTo, handoffRequest]);
+
+  /** BOOT (sem travar UI): liga a máquina e os listeners, que só despacham eventos */
+  useEffect(() => {
+    if (silentRequest) return;
+
+    dispatch({
+      type: "START",
+      logout: logoutRequest,
+      ctx: { manual: ownsRedirect(), recoveryPage: isNovaSenhaPage },
+    });
+    if (isLogout) return;
+
+    // prazo do modo no servidor, uma vez por sessão; fora do callback (o supabase-js segura o lock nele)
+    const limitSession = () => {
+      const minutes = sessionLimitMinutes();
+      if (!minutes) return;
+      window.setTimeout(async () => {
+        const { error } = await auth.sessions.limit(minutes);
+        if (error) console.warn("[sessão] prazo não gravado no servidor:", error.code);
+      }, 0);
+    };
+
+    const unsub = auth.onAuthStateChange((event, session) => {
+      if (event === "PASSWORD_RECOVERY") {
+        auditLog.emit("session_recovery", { user: session?.user });
+        // sessão nova do link: o prazo conta daqui
+        clearSessionStart();
+        if (markSessionStart()) limitSession();
+      } else if (event === "SIGNED_OUT") {
+        clearSessionStart();
+        auditLog.emit("session_signed_out");
+      } else if (event === "SIGNED_IN") {
+        if (markSessionStart()) limitSession();
+        auditLog.emit("session_signed_in", { user: session?.user });
+        // Na página de nova-senha, SIGNED_IN é disparado após updateUser: não é login novo para as outras abas
+        if (!handlesOwnRedirect(window.location.pathname)) tabSync.post("signed-in");
+      }
+      dispatch({ type: "AUTH_EVENT", event, manual: ownsRedirect() });
+    });
+
+    // Outras abas: a mensagem só avisa; a sessão é relida do storage compartilhado
+    const unsubTabs = tabSync.subscribe(async (event) => {
+      if (event === "signed-out") {
+        if (await auth.getSession()) await auth.signOut("local");
+        mfaStepRef.current = null;
+        setMfaStep(null);
+        showOrganizationPicker(null);
+        dispatch({ type: "AUTH_EVENT", event: "SIGNED_OUT", manual: false });
+        return;
+      }
+      dispatch({ type: "AUTH_EVENT", event: "SIGNED_IN", manual: ownsRedirect() });
+    });
+
+    return () => {
+      unsub();
+      unsubTabs();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [auth, returnTo, isLogout, silentRequest]);
+
+  /** Efeitos de cada estado do boot (a transição já aconteceu no reducer) */
+  useEffect(() => {
+    let cancelled = false;
+
+    switch (boot.status) {
+      case "checking": {
+        const { attempt, ctx } = boot;
+        (async () => {
+          const check = await auth.checkSession(bootConfig.checkTimeoutMs);
+          if (cancelled) return;
+          // passou do prazo do "manter conectado" / do computador compartilhado (a tela que decide fica de fora)
+          const result =
+            check.status === "valid" && !ctx.manual && sessionExpired()
+              ? { status: "expired" as const, session: check.session }
+              : check;
+          dispatch({ type: "CHECK_RESULT", attempt, result });
+        })();
+        break;
+      }
+
+      case "retrying": {
+        const timer = window.setTimeout(() => dispatch({ type: "RETRY" }), retryDelay(boot.attempt));
+        return () => window.clearTimeout(timer);
+      }
+
+      case "validated":
+        if (boot.autoRedirect) redirectToAppWithSession(boot.session);
+        break;
+
+      case "anonymous":
+        if (boot.reason === "check_failed") console.warn("[boot] auth sem resposta; sessão local mantida");
+        // sessão do auth tá ruim / vencida -> limpa e deixa no login/cadastro
+        if (boot.reason === "invalid_session" || boot.reason === "expired") {
+          const reason = boot.reason;
+          (async () => {
+            const session = await auth.getSession();
+            const { error } = await auth.signOut("local");
+            if (reason === "expired") {
+              auditLog.emit("sign_out", { user: session?.user, error, detail: { scope: "local", reason: "session_expired" } });
+            }
+          })();
+        }
+        break;
+
+      // LOGOUT (revoga no servidor, derruba os apps pelo front-channel e volta pro returnTo)
+      case "logging_out": {
+        const { scope } = boot.request;
+        (async () => {
+          const session = await auth.getSession();
+          const { error } = await auth.signOut(scope);
+          if (error) console.warn("[logout] revogação no servidor falhou; sessão local limpa mesmo assim:", error.code);
+          auditLog.emit("sign_out", { user: session?.user, error, detail: { scope } });
+          tabSync.post("signed-out");
+
+          const unconfirmed = await frontChannelLogout();
+          if (unconfirmed.length) console.warn("[logout] apps sem confirmação do front-channel:", unconfirmed);
+
+          const clean = stripHash(stripTokenHash(stripLogoutParam(returnTo)));
+          window.location.replace(isSamePage(clean) ? "/" : clean);
+        })();
+        break;
+      }
+
+      // Em recovery, não redireciona para o app — deixa o usuário definir nova senha
+      case "recovery":
+        if (normalizePath(window.location.pathname) !== "/nova-senha") {
+          window.location.replace(`/nova-senha?${portalParams().toString()}`);
+        }
+        break;
+    }
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [boot, auth]);
+
+  /** OAuth (serve pra login e cadastro) */
+  const loginOAuth = async (provider: OAuthProvider) => {
+    const config = findOAuthProvider(provider);
+    if (!config) return { error: { code: "provider_disabled", message: `${provider} desligado neste ambiente` } };
+
+    // o conflito de e-mail volta sem dizer o provedor: anota antes de sair
+    rememberOAuthAttempt(provider, "sign_in");
+    const { error } = await auth.signInWithOAuth(provider, portalUrl("/"), {
+      scopes: config.scopes,
+      queryParams: config.queryParams,
+    });
+    auditLog.emit("oauth_start", { error, detail: { provider } });
+    if (error) clearOAuthAttempt();
+    // se não tiver erro, o supabase redireciona pro provider
+    return { error };
+  };
+
+  /** Liga o provedor à conta da sessão atual; o provedor devolve para `path` */
+  const linkProvider = async (provider: OAuthProvider, path: string) => {
+    const config = findOAuthProvider(provider);
+    if (!config) return { error: { code: "provider_disabled", message: `${provider} desligado neste ambiente` } };
+
+    const session = await auth.getSession();
+    rememberOAuthAttempt(provider, "link");
+    const { error } = await auth.identities.link(provider, portalUrl(path), {
+      scopes: config.scopes,
+      queryParams: config.queryParams,
+    });
+    auditLog.emit("identity_link", { user: session?.user, error, detail: { provider } });
+    if (error) clearOAuthAttempt();
+    return { error };
+  };
+
+  /** Desiste de vincular: quem já entrou com a senha segue para o app só com ela */
+  const dismissAccountLink = async () => {
+    accountLinkRef.current = null;
+    setAccountLink(null);
+    const session = await auth.getSession();
+    if (session) await redirectToAppWithSession(session);
+  };
+
+  const cancelPendingLogin = async () => {
+    const session = await auth.getSession();
+    const { error } = await auth.signOut("local");
+    const reason = mfaStepRef.current ? "mfa_cancelled" : "organization_cancelled";
+    auditLog.emit("sign_out", { user: session?.user, error, detail: { scope: "local", reason } });
+    tabSync.post("signed-out");
+    mfaStepRef.current = null;
+    setMfaStep(null);
+    showOrganizationPicker(null);
+  };
+
+  /** Tela de confirmação do logout global: a pessoa escolhe todos os dispositivos ou só este */
+  const confirmLogout = (scope: LogoutRequest["scope"]) => {
+    dispatch({ type: "LOGOUT_CONFIRMED", scope });
+  };
+
+  const value: PortalState = {
+    returnTo,
+    branding,
+    handoffRequest,
+    portalParams,
+    portalUrl,
+    silent: !!silentRequest,
+    booting: isBooting(boot),
+    redirecting: isLeaving(boot),
+    portalError,
+    sessionEnded: hasSessionEnded(boot),
+    logoutConfirmation: isConfirmingLogout(boot),
+    mfaStep,
+    organizationChoice,
+    accountLink,
+    redirectToAppWithSession,
+    selectOrganization,
+    cancelPendingLogin,
+    loginOAuth,
+    linkProvider,
+    dismissAccountLink,
+    confirmLogout,
+  };
+
+  return <PortalContext.Provider value={value}>{children}</PortalContext.Provider>;
+}
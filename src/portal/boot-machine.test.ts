@@ -0,0 +1,272 @@
+import { describe, expect, it } from "vitest";
+import type { AuthSession } from "@/auth/types";
+import {
+  createBootReducer,
+  hasSessionEnded,
+  initialBootState,
+  isBooting,
+  isConfirmingLogout,
+  isLeaving,
+  retryDelay,
+  bootConfigFromEnv,
+  type BootEvent,
+  type BootState,
+  type CheckContext,
+} from "@/portal/boot-machine";
+
+const config = { checkTimeoutMs: 100, retries: 2, retryDelayMs: 50 };
+const reducer = createBootReducer(config);
+
+const session = {
+  access_token: "at",
+  refresh_token: "rt",
+  token_type: "bearer",
+  expires_in: 3600,
+  expires_at: null,
+  user: { id: "u1", email: "a@b.com" },
+} as AuthSession;
+
+const auto: CheckContext = { manual: false, recoveryPage: false };
+const start: BootEvent = { type: "START", logout: null, ctx: auto };
+const valid: BootEvent = { type: "CHECK_RESULT", attempt: 1, result: { status: "valid", session } };
+
+function run(events: BootEvent[], from: BootState = initialBootState) {
+  return events.reduce(reducer, from);
+}
+
+describe("boot-machine: boot", () => {
+  it("sessão válida segue para o app", () => {
+    const s = run([start, valid]);
+    expect(s).toEqual({ status: "validated", session, autoRedirect: true });
+    expect(isBooting(s)).toBe(false);
+  });
+
+  it("tela que decide o redirect fica em validated sem autoRedirect", () => {
+    const s = run([{ ...start, ctx: { manual: true, recoveryPage: false } }, valid]);
+    expect(s).toEqual({ status: "validated", session, autoRedirect: false });
+  });
+
+  it("sem sessão fica anônimo; em /nova-senha é link vencido", () => {
+    const none: BootEvent = { type: "CHECK_RESULT", attempt: 1, result: { status: "none" } };
+    expect(run([start, none])).toEqual({ status: "anonymous", reason: "no_session" });
+
+    const s = run([{ ...start, ctx: { manual: true, recoveryPage: true } }, none]);
+    expect(s).toEqual({ status: "anonymous", reason: "recovery_missing" });
+    expect(hasSessionEnded(s)).toBe(true);
+  });
+
+  it("sessão recusada ou vencida vira anônimo para limpar", () => {
+    expect(run([start, { type: "CHECK_RESULT", attempt: 1, result: { status: "invalid", session } }])).toEqual({
+      status: "anonymous",
+      reason: "invalid_session",
+    });
+    expect(run([start, { type: "CHECK_RESULT", attempt: 1, result: { status: "expired", session } }])).toEqual({
+      status: "anonymous",
+      reason: "expired",
+    });
+  });
+
+  it("START repetido (StrictMode) não reinicia a checagem", () => {
+    const checking = run([start]);
+    expect(reducer(checking, start)).toBe(checking);
+  });
+});
+
+describe("boot-machine: tentativas", () => {
+  const unavailable = (attempt: number): BootEvent => ({
+    type: "CHECK_RESULT",
+    attempt,
+    result: { status: "unavailable" },
+  });
+
+  it("auth sem resposta tenta de novo até o limite e desiste sem apagar a sessão", () => {
+    let s = run([start, unavailable(1)]);
+    expect(s).toEqual({ status: "retrying", attempt: 1, ctx: auto });
+    expect(isBooting(s)).toBe(true);
+
+    s = run([{ type: "RETRY" }, unavailable(2), { type: "RETRY" }], s);
+    expect(s).toMatchObject({ status: "checking", attempt: 3 });
+
+    s = reducer(s, unavailable(3));
+    expect(s).toEqual({ status: "anonymous", reason: "check_failed" });
+    expect(hasSessionEnded(s)).toBe(false);
+  });
+
+  it("a nova tentativa que acha a sessão segue para o app", () => {
+    const s = run([start, unavailable(1), { type: "RETRY" }, { ...valid, attempt: 2 }]);
+    expect(s).toEqual({ status: "validated", session, autoRedirect: true });
+  });
+
+  it("sem tentativas configuradas desiste na primeira", () => {
+    const noRetry = createBootReducer({ ...config, retries: 0 });
+    expect([start, unavailable(1)].reduce(noRetry, initialBootState)).toEqual({
+      status: "anonymous",
+      reason: "check_failed",
+    });
+  });
+
+  it("resultado de tentativa velha é descartado", () => {
+    const s = run([start, unavailable(1), { type: "RETRY" }]);
+    expect(reducer(s, valid)).toBe(s);
+  });
+
+  it("RETRY fora de retrying é ignorado", () => {
+    const s = run([start]);
+    expect(reducer(s, { type: "RETRY" })).toBe(s);
+  });
+
+  it("espera dobra a cada tentativa", () => {
+    expect([1, 2, 3].map((a) => retryDelay(a, config))).toEqual([50, 100, 200]);
+  });
+});
+
+describe("boot-machine: eventos do auth no meio do boot", () => {
+  it("SIGNED_IN durante a checagem: 'sem sessão' dessa tentativa não vale", () => {
+    let s = run([start, { type: "AUTH_EVENT", event: "SIGNED_IN", manual: false }]);
+    expect(s).toMatchObject({ status: "checking", attempt: 1, recheck: true });
+
+    s = reducer(s, { type: "CHECK_RESULT", attempt: 1, result: { status: "none" } });
+    expect(s).toMatchObject({ status: "checking", attempt: 2, recheck: false });
+
+    s = reducer(s, { ...valid, attempt: 2 });
+    expect(s).toEqual({ status: "validated", session, autoRedirect: true });
+  });
+
+  it("SIGNED_IN depois da checagem válida não redireciona de novo", () => {
+    const s = run([start, valid]);
+    expect(reducer(s, { type: "AUTH_EVENT", event: "SIGNED_IN", manual: false })).toBe(s);
+  });
+
+  it("SIGNED_IN no login dispara nova checagem com o manual da hora", () => {
+    const s = run([
+      start,
+      { type: "CHECK_RESULT", attempt: 1, result: { status: "none" } },
+      { type: "AUTH_EVENT", event: "SIGNED_IN", manual: true },
+    ]);
+    expect(s).toEqual({ status: "checking", attempt: 1, ctx: { manual: true, recoveryPage: false }, recheck: false });
+  });
+
+  it("PASSWORD_RECOVERY antes do resultado: o resultado atrasado é ignorado", () => {
+    const s = run([start, { type: "AUTH_EVENT", event: "PASSWORD_RECOVERY", manual: false }, valid]);
+    expect(s).toEqual({ status: "recovery" });
+  });
+
+  it("PASSWORD_RECOVERY depois do resultado também vira recovery", () => {
+    const recoveryCtx = { manual: true, recoveryPage: true };
+    const s = run([
+      { ...start, ctx: recoveryCtx },
+      { type: "CHECK_RESULT", attempt: 1, result: { status: "none" } },
+      { type: "AUTH_EVENT", event: "PASSWORD_RECOVERY", manual: true },
+    ]);
+    expect(s).toEqual({ status: "recovery" });
+    expect(hasSessionEnded(s)).toBe(false);
+  });
+
+  it("SIGNED_OUT durante a checagem encerra o boot", () => {
+    const s = run([start, { type: "AUTH_EVENT", event: "SIGNED_OUT", manual: false }, valid]);
+    expect(s).toEqual({ status: "anonymous", reason: "signed_out" });
+    expect(hasSessionEnded(s)).toBe(true);
+  });
+
+  it("SIGNED_OUT no recovery mostra a sessão encerrada", () => {
+    const s = run([start, { type: "AUTH_EVENT", event: "PASSWORD_RECOVERY", manual: false }, { type: "AUTH_EVENT", event: "SIGNED_OUT", manual: false }]);
+    expect(hasSessionEnded(s)).toBe(true);
+  });
+
+  it("eventos sem efeito no boot devolvem o mesmo estado", () => {
+    const s = run([start]);
+    expect(reducer(s, { type: "AUTH_EVENT", event: "INITIAL_SESSION", manual: false })).toBe(s);
+    expect(reducer(s, { type: "AUTH_EVENT", event: "USER_UPDATED", manual: false })).toBe(s);
+  });
+});
+
+describe("boot-machine: redirect", () => {
+  it("redirect em andamento ignora eventos do auth", () => {
+    const s = run([start, valid, { type: "REDIRECT_STARTED", session }]);
+    expect(isLeaving(s)).toBe(true);
+    for (const event of ["SIGNED_OUT", "SIGNED_IN", "PASSWORD_RECOVERY"] as const) {
+      expect(reducer(s, { type: "AUTH_EVENT", event, manual: false })).toBe(s);
+    }
+    expect(reducer(s, { type: "REDIRECT_STARTED", session })).toBe(s);
+  });
+
+  it("redirect que falhou volta para validated sem autoRedirect (sem loop) e entrar de novo retoma", () => {
+    const s = run([start, valid, { type: "REDIRECT_STARTED", session }, { type: "REDIRECT_FAILED" }]);
+    expect(s).toEqual({ status: "validated", session, autoRedirect: false });
+    expect(isLeaving(s)).toBe(false);
+    // renovação de token sozinha não tenta de novo
+    expect(reducer(s, { type: "AUTH_EVENT", event: "TOKEN_REFRESHED", manual: false })).toBe(s);
+
+    const again = reducer(s, { type: "AUTH_EVENT", event: "SIGNED_IN", manual: false });
+    expect(again).toEqual({ status: "checking", attempt: 1, ctx: auto, recheck: false });
+    expect(reducer(again, { type: "CHECK_RESULT", attempt: 1, result: { status: "valid", session } })).toEqual({
+      status: "validated",
+      session,
+      autoRedirect: true,
+    });
+  });
+
+  it("a tela pode seguir para o app de qualquer estado (MFA, nova senha)", () => {
+    const s = run([start, { type: "AUTH_EVENT", event: "PASSWORD_RECOVERY", manual: false }]);
+    expect(reducer(s, { type: "REDIRECT_STARTED", session })).toEqual({ status: "redirecting", session });
+  });
+
+  it("REDIRECT_FAILED fora de redirecting é ignorado", () => {
+    const s = run([start, valid]);
+    expect(reducer(s, { type: "REDIRECT_FAILED" })).toBe(s);
+  });
+});
+
+describe("boot-machine: logout", () => {
+  const logout: BootEvent = { type: "START", logout: { scope: "local" }, ctx: auto };
+  const logoutAll: BootEvent = { type: "START", logout: { scope: "global" }, ctx: auto };
+
+  it("START com logout não checa a sessão", () => {
+    const s = run([logout]);
+    expect(s).toEqual({ status: "logging_out", request: { scope: "local" } });
+    expect(isLeaving(s)).toBe(true);
+    expect(isBooting(s)).toBe(false);
+  });
+
+  it("o SIGNED_OUT do próprio logout e os resultados atrasados não mudam nada", () => {
+    const s = run([logout]);
+    expect(run([{ type: "AUTH_EVENT", event: "SIGNED_OUT", manual: false }, valid, { type: "REDIRECT_STARTED", session }], s)).toBe(s);
+  });
+
+  it("logout global espera a confirmação, sem loader e sem seguir para o app", () => {
+    const s = run([logoutAll]);
+    expect(s).toEqual({ status: "confirming_logout", request: { scope: "global" } });
+    expect(isConfirmingLogout(s)).toBe(true);
+    expect(isLeaving(s)).toBe(false);
+    expect(run([{ type: "AUTH_EVENT", event: "SIGNED_IN", manual: false }, valid, { type: "REDIRECT_STARTED", session }], s)).toBe(s);
+  });
+
+  it("a confirmação escolhe o escopo", () => {
+    const s = run([logoutAll]);
+    expect(reducer(s, { type: "LOGOUT_CONFIRMED", scope: "global" })).toEqual({
+      status: "logging_out",
+      request: { scope: "global" },
+    });
+    expect(reducer(s, { type: "LOGOUT_CONFIRMED", scope: "local" })).toEqual({
+      status: "logging_out",
+      request: { scope: "local" },
+    });
+    // sem tela de confirmação aberta não faz nada
+    const validated = run([start, valid]);
+    expect(reducer(validated, { type: "LOGOUT_CONFIRMED", scope: "global" })).toBe(validated);
+  });
+});
+
+describe("boot-machine: config", () => {
+  it("lê o env e cai no default com valor inválido", () => {
+    expect(bootConfigFromEnv({})).toEqual({ checkTimeoutMs: 1500, retries: 2, retryDelayMs: 500 });
+    expect(
+      bootConfigFromEnv({ VITE_BOOT_TIMEOUT_MS: "3000", VITE_BOOT_RETRIES: "0", VITE_BOOT_RETRY_DELAY_MS: "abc" })
+    ).toEqual({ checkTimeoutMs: 3000, retries: 0, retryDelayMs: 500 });
+    expect(bootConfigFromEnv({ VITE_BOOT_TIMEOUT_MS: "0", VITE_BOOT_RETRIES: "-1" })).toEqual({
+      checkTimeoutMs: 1500,
+      retries: 2,
+      retryDelayMs: 500,
+    });
+  });
+});
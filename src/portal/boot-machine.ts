@@ -0,0 +1,227 @@
+import type { AuthEvent, AuthSession, SessionCheck } from "@/auth/types";
+import type { LogoutRequest } from "@/lib/logout";
+
+/** =========================
+ * Máquina de estados do boot / redirect do portal
+ *
+ *   idle ─START─▶ checking ─valid─▶ validated ─REDIRECT_STARTED─▶ redirecting
+ *     │              │  ▲  ▲             ▲  │                           │
+ *     │       unavailable RETRY          │  └─SIGNED_IN (após falha)─▶ checking
+ *     │              │  │                └────────REDIRECT_FAILED───────┘
+ *     │              ▼  │
+ *     │           retrying ─(sem tentativas)─▶ anonymous ◀─SIGNED_OUT─ (qualquer um)
+ *     │                                          │
+ *     ├─START(logout)─▶ logging_out              └─SIGNED_IN─▶ checking
+ *     │                            ▲ LOGOUT_CONFIRMED
+ *     └─START(logout global)─▶ confirming_logout
+ *
+ *   PASSWORD_RECOVERY ─▶ recovery (de qualquer estado, menos redirecting / logging_out / confirming_logout)
+ *
+ * O reducer é puro: quem chama (PortalProvider) executa os efeitos ao entrar em
+ * cada estado (checar a sessão, agendar a nova tentativa, seguir para o app,
+ * limpar a sessão recusada). Transição que não se aplica devolve o MESMO
+ * objeto, então o efeito do estado atual não roda de novo.
+ *
+ * "Sair de todos os dispositivos" derruba a sessão em todo lugar: qualquer página pode abrir
+ * /logout?scope=global, então o pedido só vale depois que a pessoa confirma na tela do portal.
+ *
+ * Duas regras que evitam os loops de antes:
+ *  - redirect que falhou volta para `validated` sem `autoRedirect`: não tenta sozinho, mas
+ *    entrar de novo (SIGNED_IN) checa a sessão e segue para o app
+ *  - resultado de checagem velha (outra tentativa, estado já mudou) é descartado
+ *
+ * VITE_BOOT_TIMEOUT_MS (default 1500), VITE_BOOT_RETRIES (default 2) e
+ * VITE_BOOT_RETRY_DELAY_MS (default 500, dobra a cada tentativa)
+ * ========================= */
+
+export type BootConfig = {
+  /** Timeout de cada chamada do checkSession (getSession e getUser) */
+  checkTimeoutMs: number;
+  /** Novas tentativas depois de `unavailable` (0 = nenhuma) */
+  retries: number;
+  retryDelayMs: number;
+};
+
+function intFrom(raw: string | undefined, fallback: number, min: number) {
+  const n = Number(raw);
+  return raw && Number.isInteger(n) && n >= min ? n : fallback;
+}
+
+export function bootConfigFromEnv(env: Partial<ImportMetaEnv> = import.meta.env): BootConfig {
+  return {
+    checkTimeoutMs: intFrom(env.VITE_BOOT_TIMEOUT_MS, 1500, 1),
+    retries: intFrom(env.VITE_BOOT_RETRIES, 2, 0),
+    retryDelayMs: intFrom(env.VITE_BOOT_RETRY_DELAY_MS, 500, 0),
+  };
+}
+
+export const bootConfig = bootConfigFromEnv();
+
+/** Espera antes da tentativa `attempt + 1` */
+export function retryDelay(attempt: number, config: BootConfig = bootConfig) {
+  return config.retryDelayMs * 2 ** (attempt - 1);
+}
+
+export type CheckContext = {
+  /** A tela decide a hora de seguir para o app (nova senha, convite, MFA pendente, ...) */
+  manual: boolean;
+  /** /nova-senha: sem sessão é link de recuperação vencido, não "ninguém logado" */
+  recoveryPage: boolean;
+};
+
+export type AnonymousReason =
+  /** ninguém logado */
+  | "no_session"
+  /** o servidor recusou a sessão local (quem chama limpa) */
+  | "invalid_session"
+  /** passou do prazo do "manter conectado" / computador compartilhado (quem chama limpa) */
+  | "expired"
+  /** não deu para confirmar depois das tentativas: fica no login sem apagar nada */
+  | "check_failed"
+  /** a sessão acabou depois do boot (logout em outra aba, refresh recusado) */
+  | "signed_out"
+  /** /nova-senha sem sessão */
+  | "recovery_missing";
+
+export type BootState =
+  | { status: "idle" }
+  /** `recheck`: chegou SIGNED_IN no meio; "sem sessão" nessa tentativa não vale */
+  | { status: "checking"; attempt: number; ctx: CheckContext; recheck: boolean }
+  | { status: "retrying"; attempt: number; ctx: CheckContext }
+  | { status: "anonymous"; reason: AnonymousReason }
+  | { status: "validated"; session: AuthSession; autoRedirect: boolean }
+  | { status: "redirecting"; session: AuthSession }
+  | { status: "logging_out"; request: LogoutRequest }
+  /** logout global pedido pela URL: espera a pessoa confirmar (ou trocar por só este dispositivo) */
+  | { status: "confirming_logout"; request: LogoutRequest }
+  | { status: "recovery" };
+
+/** `expired` não vem do auth: quem chama confere o prazo do modo de sessão antes de despachar */
+export type BootCheckResult = SessionCheck | { status: "expired"; session: AuthSession };
+
+export type BootEvent =
+  | { type: "START"; logout: LogoutRequest | null; ctx: CheckContext }
+  | { type: "CHECK_RESULT"; attempt: number; result: BootCheckResult }
+  | { type: "RETRY" }
+  /** onAuthStateChange e aviso de outra aba (`manual` medido na hora do evento) */
+  | { type: "AUTH_EVENT"; event: AuthEvent; manual: boolean }
+  | { type: "REDIRECT_STARTED"; session: AuthSession }
+  | { type: "REDIRECT_FAILED" }
+  | { type: "LOGOUT_CONFIRMED"; scope: LogoutRequest["scope"] };
+
+export const initialBootState: BootState = { status: "idle" };
+
+function check(attempt: number, ctx: CheckContext): BootState {
+  return { status: "checking", attempt, ctx, recheck: false };
+}
+
+function onCheckResult(
+  state: Extract<BootState, { status: "checking" }>,
+  result: BootCheckResult,
+  config: BootConfig
+): BootState {
+  const { attempt, ctx } = state;
+
+  switch (result.status) {
+    case "valid":
+      return { status: "validated", session: result.session, autoRedirect: !ctx.manual };
+    case "expired":
+      return { status: "anonymous", reason: "expired" };
+    case "invalid":
+      return state.recheck ? check(attempt + 1, ctx) : { status: "anonymous", reason: "invalid_session" };
+    case "none":
+      if (state.recheck) return check(attempt + 1, ctx);
+      return { status: "anonymous", reason: ctx.recoveryPage ? "recovery_missing" : "no_session" };
+    case "unavailable":
+      return attempt <= config.retries ? { status: "retrying", attempt, ctx } : { status: "anonymous", reason: "check_failed" };
+  }
+}
+
+function onAuthEvent(state: BootState, event: AuthEvent, manual: boolean): BootState {
+  // logout e handoff em andamento terminam saindo da página: nada do auth muda isso
+  if (state.status === "logging_out" || state.status === "confirming_logout" || state.status === "redirecting") {
+    return state;
+  }
+
+  switch (event) {
+    case "PASSWORD_RECOVERY":
+      return state.status === "recovery" ? state : { status: "recovery" };
+    case "SIGNED_OUT":
+      return state.status === "anonymous" && state.reason === "signed_out"
+        ? state
+        : { status: "anonymous", reason: "signed_out" };
+    case "SIGNED_IN":
+    case "TOKEN_REFRESHED":
+      if (state.status === "anonymous") return check(1, { manual, recoveryPage: false });
+      if (state.status === "checking" && !state.recheck) return { ...state, recheck: true };
+      // o handoff falhou e a pessoa entrou de novo: é o pedido explícito para tentar outra vez
+      if (state.status === "validated" && !state.autoRedirect && event === "SIGNED_IN") {
+        return check(1, { manual, recoveryPage: false });
+      }
+      return state;
+    default:
+      return state;
+  }
+}
+
+/** Reducer com outra config (testes, ambientes com auth mais lento) */
+export function createBootReducer(config: BootConfig) {
+  return (state: BootState, event: BootEvent) => reduce(state, event, config);
+}
+
+function reduce(state: BootState, event: BootEvent, config: BootConfig): BootState {
+  switch (event.type) {
+    case "START":
+      if (state.status !== "idle") return state;
+      if (!event.logout) return check(1, event.ctx);
+      return event.logout.scope === "global"
+        ? { status: "confirming_logout", request: event.logout }
+        : { status: "logging_out", request: event.logout };
+
+    case "CHECK_RESULT":
+      if (state.status !== "checking" || state.attempt !== event.attempt) return state;
+      return onCheckResult(state, event.result, config);
+
+    case "RETRY":
+      if (state.status !== "retrying") return state;
+      return check(state.attempt + 1, state.ctx);
+
+    case "AUTH_EVENT":
+      return onAuthEvent(state, event.event, event.manual);
+
+    case "REDIRECT_STARTED":
+      if (state.status === "logging_out" || state.status === "confirming_logout" || state.status === "redirecting") {
+        return state;
+      }
+      return { status: "redirecting", session: event.session };
+
+    case "REDIRECT_FAILED":
+      if (state.status !== "redirecting") return state;
+      return { status: "validated", session: state.session, autoRedirect: false };
+
+    case "LOGOUT_CONFIRMED":
+      if (state.status !== "confirming_logout") return state;
+      return { status: "logging_out", request: { scope: event.scope } };
+  }
+}
+
+export const bootReducer = createBootReducer(bootConfig);
+
+/** "Verificando sessão…" */
+export function isBooting(state: BootState) {
+  return state.status === "checking" || state.status === "retrying";
+}
+
+/** Loader no lugar das telas */
+export function isLeaving(state: BootState) {
+  return state.status === "redirecting" || state.status === "logging_out";
+}
+
+/** Tela de confirmação do "sair de todos os dispositivos" no lugar das rotas */
+export function isConfirmingLogout(state: BootState) {
+  return state.status === "confirming_logout";
+}
+
+export function hasSessionEnded(state: BootState) {
+  return state.status === "anonymous" && (state.reason === "signed_out" || state.reason === "recovery_missing");
+}
@@ -0,0 +1,66 @@
+import { createContext, useContext } from "react";
+import type { AuthError, AuthSession, OAuthProvider, Organization } from "@/auth/types";
+import type { AuthErrorDescription } from "@/auth/error-catalog";
+import type { AccountLinkRequest } from "@/lib/account-linking";
+import type { Branding } from "@/lib/branding";
+import type { HandoffRequest } from "@/lib/handoff";
+import type { LogoutRequest } from "@/lib/logout";
+import type { MfaStep } from "@/lib/mfa-policy";
+
+export type OrganizationChoice = {
+  /** Última usada primeiro */
+  organizations: Organization[];
+  lastUsedId: string | null;
+};
+
+export type PortalState = {
+  /** returnTo já validado e normalizado (sem tokens no hash) */
+  returnTo: string;
+  /** Marca do app de destino (host do returnTo); as cores já estão aplicadas no <html> */
+  branding: Branding;
+  handoffRequest: HandoffRequest;
+  /** Parâmetros que toda URL do portal carrega: returnTo + PKCE/state */
+  portalParams: () => URLSearchParams;
+  /** URL absoluta do portal (para OAuth / links de e-mail) */
+  portalUrl: (path: string, params?: Record<string, string>) => string;
+  /** `?prompt=none`: renovação silenciosa para o app, sem nenhuma tela */
+  silent: boolean;
+  booting: boolean;
+  redirecting: boolean;
+  /** Erro fora dos formulários: link expirado no hash do redirect, falha no handoff para o app */
+  portalError: AuthErrorDescription | null;
+  /** A sessão acabou depois do boot (logout em outra aba, refresh recusado, link de recuperação sem sessão) */
+  sessionEnded: boolean;
+  /** `/logout?scope=global` chegou pela URL: a tela de confirmação substitui a rota até a pessoa decidir */
+  logoutConfirmation: boolean;
+  /** Passo de MFA pendente entre o login e o redirect (a tela correspondente substitui a rota) */
+  mfaStep: MfaStep | null;
+  /** Clínicas para o usuário escolher (só quando é membro de mais de uma); a tela de escolha substitui a rota */
+  organizationChoice: OrganizationChoice | null;
+  /** Voltou do OAuth com o e-mail de uma conta que já existe; a tela de vinculação substitui a rota */
+  accountLink: AccountLinkRequest | null;
+  /**
+   * Só segue para o app quando a política de MFA está satisfeita (senão abre o passo de MFA)
+   * e a clínica está definida (senão abre a escolha). `organizationId` já decide a clínica (convite aceito)
+   */
+  redirectToAppWithSession: (session: AuthSession | null, organizationId?: string) => Promise<void>;
+  /** Conclui a escolha de clínica e segue para o app */
+  selectOrganization: (organizationId: string) => Promise<void>;
+  /** Desiste no meio (MFA / escolha de clínica): encerra a sessão e volta para o login */
+  cancelPendingLogin: () => Promise<void>;
+  loginOAuth: (provider: OAuthProvider) => Promise<{ error: AuthError | null }>;
+  /** Liga o provedor à conta da sessão atual; sem erro, o navegador vai para o provedor e volta em `path` */
+  linkProvider: (provider: OAuthProvider, path: string) => Promise<{ error: AuthError | null }>;
+  /** Fecha a tela de vinculação (com sessão, segue para o app) */
+  dismissAccountLink: () => Promise<void>;
+  /** Segue com o logout pedido pela URL: "global" derruba todos os dispositivos, "local" só este */
+  confirmLogout: (scope: LogoutRequest["scope"]) => void;
+};
+
+export const PortalContext = createContext<PortalState | null>(null);
+
+export function usePortal() {
+  const ctx = useContext(PortalContext);
+  if (!ctx) throw new Error("usePortal precisa estar dentro de <PortalProvider>");
+  return ctx;
+}
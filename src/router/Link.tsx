@@ -0,0 +1,22 @@
+import type { AnchorHTMLAttributes, MouseEvent } from "react";
+import { useRouter } from "@/router/router-context";
+
+type LinkProps = Omit<AnchorHTMLAttributes<HTMLAnchorElement>, "href"> & {
+  to: string;
+  params?: Record<string, string>;
+};
+
+export function Link({ to, params, onClick, ...props }: LinkProps) {
+  const { href, navigate } = useRouter();
+
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented) return;
+    // nova aba / janela continua sendo navegação normal do browser
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey || props.target) return;
+    e.preventDefault();
+    navigate(to, { params });
+  };
+
+  return <a href={href(to, params)} onClick={handleClick} {...props} />;
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useMemo, useState, type ComponentType } from "react";
+import { RouterContext, matchRoute, type NavigateOptions, type Route, type RouterState } from "@/router/router-context";
+
+type RouterProviderProps = {
+  routes: Route[];
+  notFound: ComponentType;
+  /** Parâmetros copiados para toda navegação interna (returnTo, PKCE/state, ...) */
+  persistentParams: () => URLSearchParams;
+  /** Tela fixa no lugar da rota (passo que não tem URL própria, ex.: MFA entre o login e o app) */
+  page?: ComponentType;
+};
+
+function readLocation() {
+  return { pathname: window.location.pathname, search: window.location.search };
+}
+
+export function RouterProvider({ routes, notFound: NotFound, persistentParams, page }: RouterProviderProps) {
+  const [location, setLocation] = useState(readLocation);
+
+  useEffect(() => {
+    const onPop = () => setLocation(readLocation());
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, []);
+
+  const href = useCallback(
+    (path: string, params?: Record<string, string>) => {
+      const q = persistentParams();
+      for (const [k, v] of Object.entries(params ?? {})) q.set(k, v);
+      const qs = q.toString();
+      return qs ? `${path}?${qs}` : path;
+    },
+    [persistentParams]
+  );
+
+  const navigate = useCallback(
+    (path: string, opts?: NavigateOptions) => {
+      const to = href(path, opts?.params);
+      if (opts?.replace) window.history.replaceState(null, "", to);
+      else window.history.pushState(null, "", to);
+      setLocation(readLocation());
+      window.scrollTo(0, 0);
+    },
+    [href]
+  );
+
+  const value = useMemo<RouterState>(
+    () => ({
+      pathname: location.pathname,
+      searchParams: new URLSearchParams(location.search),
+      href,
+      navigate,
+    }),
+    [location, href, navigate]
+  );
+
+  const Page = page ?? matchRoute(routes, location.pathname)?.component ?? NotFound;
+
+  return (
+    <RouterContext.Provider value={value}>
+      <Page />
+    </RouterContext.Provider>
+  );
+}
@@ -0,0 +1,39 @@
+import { createContext, useContext, type ComponentType } from "react";
+
+export type Route = {
+  path: string;
+  component: ComponentType;
+};
+
+export type NavigateOptions = {
+  /** Parâmetros extras da query (além dos persistentes: returnTo, PKCE/state, ...) */
+  params?: Record<string, string>;
+  replace?: boolean;
+};
+
+export type RouterState = {
+  pathname: string;
+  searchParams: URLSearchParams;
+  /** Monta o href de uma rota do portal preservando os parâmetros persistentes */
+  href: (path: string, params?: Record<string, string>) => string;
+  navigate: (path: string, opts?: NavigateOptions) => void;
+};
+
+export const RouterContext = createContext<RouterState | null>(null);
+
+export function useRouter() {
+  const ctx = useContext(RouterContext);
+  if (!ctx) throw new Error("useRouter precisa estar dentro de <RouterProvider>");
+  return ctx;
+}
+
+// "/cadastro/" e "/cadastro" são a mesma rota (deep link vindo de e-mail, Vercel etc.)
+export function normalizePath(pathname: string) {
+  const p = pathname.replace(/\/{2,}/g, "/");
+  return p.length > 1 ? p.replace(/\/+$/, "") : "/";
+}
+
+export function matchRoute(routes: Route[], pathname: string) {
+  const p = normalizePath(pathname);
+  return routes.find((r) => r.path === p) ?? null;
+}
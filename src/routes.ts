@@ -0,0 +1,30 @@
+import type { Route } from "@/router/router-context";
+import LoginPage from "@/pages/LoginPage";
+import CadastroPage from "@/pages/CadastroPage";
+import CheckEmailPage from "@/pages/CheckEmailPage";
+import RecuperarSenhaPage from "@/pages/RecuperarSenhaPage";
+import NovaSenhaPage from "@/pages/NovaSenhaPage";
+import EntrarSemSenhaPage from "@/pages/EntrarSemSenhaPage";
+import ConvitePage from "@/pages/ConvitePage";
+import ConexoesPage from "@/pages/ConexoesPage";
+import SegurancaPage from "@/pages/SegurancaPage";
+
+/** =========================
+ * Rotas do portal
+ * (vercel.json reescreve tudo para o index.html, então qualquer deep link cai aqui)
+ * ========================= */
+export const routes: Route[] = [
+  { path: "/", component: LoginPage },
+  { path: "/cadastro", component: CadastroPage },
+  { path: "/check-email", component: CheckEmailPage },
+  { path: "/recuperar-senha", component: RecuperarSenhaPage },
+  { path: "/nova-senha", component: NovaSenhaPage },
+  { path: "/entrar-sem-senha", component: EntrarSemSenhaPage },
+  { path: "/convite", component: ConvitePage },
+  // o app linka aqui (com returnTo) para a pessoa gerenciar Google/Facebook/senha
+  { path: "/conexoes", component: ConexoesPage },
+  // ativar o TOTP sem o papel exigir (linkada das conexões)
+  { path: "/seguranca", component: SegurancaPage },
+  // o logout é tratado pelo PortalProvider; a rota só evita o 404 enquanto redireciona
+  { path: "/logout", component: LoginPage },
+];
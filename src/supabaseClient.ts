@@ -1,6 +1,8 @@
 import { createClient } from "@supabase/supabase-js";
+import { authStorage } from "@/lib/session-persistence";
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// localStorage ou sessionStorage conforme "manter conectado" / computador compartilhado
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, { auth: { storage: authStorage } });
@@ -0,0 +1,165 @@
+import { screen, waitFor } from "@testing-library/react";
+import { createClient } from "@supabase/supabase-js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSupabaseAuthService } from "@/auth/supabase-auth-service";
+import { authStorage } from "@/lib/session-persistence";
+import { server } from "@/test/msw";
+import { PKCE_PARAMS, renderPortal, t } from "@/test/render";
+import { createSupabaseAuthServer, type SupabaseAuthServer } from "@/test/supabase-auth-server";
+
+/** =========================
+ * Fluxos completos com o supabase-js de verdade contra o Supabase de mentira (MSW)
+ *
+ * Cada teste cria o client depois de montar a URL e espera ele inicializar antes
+ * de renderizar (como no app, onde o client nasce no import): é nessa hora que o
+ * supabase-js lê o fragmento do link de recuperação. O handoff usa o client do
+ * app, que lê a mesma sessão do storage.
+ * ========================= */
+
+const APP = "https://app.flowodonto.com.br/agenda";
+const ANA = { email: "ana@clinica.com", password: "Odonto!Forte42", metadata: { nome: "Ana Souza" } };
+
+let backend: SupabaseAuthServer;
+
+async function supabaseService() {
+  const client = createClient(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY, {
+    auth: { storage: authStorage },
+  });
+  await client.auth.initialize();
+  return createSupabaseAuthService(client);
+}
+
+async function open(path: string) {
+  window.history.replaceState(null, "", path);
+  const service = await supabaseService();
+  // a URL depois do init (o supabase-js já tirou os tokens do fragmento)
+  const { pathname, search, hash } = window.location;
+  return renderPortal(`${pathname}${search}${hash}`, service);
+}
+
+describe("fluxos com o Supabase de mentira", () => {
+  beforeEach(() => {
+    backend = createSupabaseAuthServer();
+    server.use(...backend.handlers);
+    // um client por teste: o aviso de "várias instâncias do GoTrueClient" é esperado aqui
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("login: senha certa vira handoff para o app", async () => {
+    backend.addUser(ANA);
+    const { user, replace } = await open(`/?returnTo=${encodeURIComponent(APP)}&state=s1&${PKCE_PARAMS}`);
+
+    await user.type(screen.getByLabelText(t("common.email")), ANA.email);
+    await user.type(screen.getByLabelText(t("common.password")), ANA.password);
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalled());
+    const target = new URL(String(replace.mock.calls[0][0]));
+    expect(target.origin + target.pathname).toBe(APP);
+    expect(target.searchParams.get("code")).toMatch(/^handoff-/);
+    expect(target.searchParams.get("state")).toBe("s1");
+    expect(backend.handoffs).toEqual([{ origin: "https://app.flowodonto.com.br", userId: backend.user(ANA.email)!.id }]);
+    // "manter conectado" (padrão): 30 dias gravados no servidor
+    await waitFor(() => expect(backend.sessionLimits).toEqual([{ userId: backend.user(ANA.email)!.id, minutes: 30 * 24 * 60 }]));
+  });
+
+  it("login: senha errada mostra o erro do GoTrue traduzido", async () => {
+    backend.addUser(ANA);
+    const { user, replace } = await open("/");
+
+    await user.type(screen.getByLabelText(t("common.email")), ANA.email);
+    await user.type(screen.getByLabelText(t("common.password")), "Errada!12345");
+    await user.click(screen.getByRole("button", { name: t("login.submit") }));
+
+    expect(await screen.findByRole("alert")).toBeInTheDocument();
+    expect(replace).not.toHaveBeenCalled();
+    expect(backend.handoffs).toHaveLength(0);
+  });
+
+  it("cadastro: cria a conta, manda a confirmação e só entra depois dela", async () => {
+    const { user, replace, unmount } = await open(`/cadastro?returnTo=${encodeURIComponent(APP)}`);
+
+    await user.type(screen.getByLabelText(t("signup.name")), "Ana Souza");
+    await user.type(screen.getByLabelText(t("common.email")), ANA.email);
+    await user.type(screen.getByLabelText(t("common.password")), ANA.password);
+    await user.type(screen.getByLabelText(t("common.confirmPassword")), ANA.password);
+    await user.click(screen.getByRole("button", { name: t("signup.submit") }));
+
+    await waitFor(() => expect(window.location.pathname).toBe("/check-email"));
+    expect(backend.emails).toEqual([expect.objectContaining({ kind: "signup", email: ANA.email })]);
+    expect(new URL(backend.emails[0].redirectTo!).searchParams.get("returnTo")).toBe(APP);
+    expect(backend.user(ANA.email)?.metadata).toMatchObject({ nome: "Ana Souza" });
+    expect(replace).not.toHaveBeenCalled();
+    unmount();
+
+    // "clicou no link" e entrou
+    backend.user(ANA.email)!.emailConfirmed = true;
+    const login = await open(`/?returnTo=${encodeURIComponent(APP)}`);
+    await login.user.type(screen.getByLabelText(t("common.email")), ANA.email);
+    await login.user.type(screen.getByLabelText(t("common.password")), ANA.password);
+    await login.user.click(screen.getByRole("button", { name: t("login.submit") }));
+    await waitFor(() => expect(login.replace).toHaveBeenCalled());
+  });
+
+  it("recuperação: pede o link, abre /nova-senha com o fragmento e troca a senha", async () => {
+    backend.addUser(ANA);
+    const first = await open("/recuperar-senha");
+
+    await first.user.type(screen.getByLabelText(t("common.email")), ANA.email);
+    await first.user.click(screen.getByRole("button", { name: t("recovery.submit") }));
+    expect(await screen.findByText(t("recovery.sentBody"))).toBeInTheDocument();
+    expect(backend.emails).toEqual([expect.objectContaining({ kind: "recovery", email: ANA.email })]);
+    first.unmount();
+
+    const link = new URL(backend.emails[0].redirectTo!);
+    const { user } = await open(`${link.pathname}${link.search}${backend.recoveryHash(ANA.email)}`);
+
+    const password = await screen.findByLabelText(t("newPassword.password"));
+    await user.type(password, "Nova!Senha2026");
+    await user.type(screen.getByLabelText(t("newPassword.confirm")), "Nova!Senha2026");
+    await user.click(screen.getByRole("button", { name: t("newPassword.submit") }));
+
+    expect(await screen.findByText(t("newPassword.doneBody"))).toBeInTheDocument();
+    expect(backend.user(ANA.email)?.password).toBe("Nova!Senha2026");
+    // os tokens não ficam na barra de endereço
+    expect(window.location.hash).toBe("");
+  });
+
+  it("logout: ?logout=all confirmado revoga no servidor e volta para o app", async () => {
+    backend.addUser(ANA);
+    const service = await supabaseService();
+    await service.signInWithPassword(ANA.email, ANA.password);
+
+    const { user, replace } = renderPortal(`/?logout=all&returnTo=${encodeURIComponent(APP)}`, service);
+    await user.click(await screen.findByRole("button", { name: t("logout.confirmAll") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalledWith(APP));
+    expect(backend.revoked).toEqual([{ userId: backend.user(ANA.email)!.id, scope: "global" }]);
+    expect(await service.getSession()).toBeNull();
+  });
+
+  it.each(["/?logout=all", "/logout?scope=global"])("logout: o link %s sozinho não revoga nada", async (path) => {
+    backend.addUser(ANA);
+    const service = await supabaseService();
+    await service.signInWithPassword(ANA.email, ANA.password);
+
+    const { replace } = renderPortal(`${path}&returnTo=${encodeURIComponent(APP)}`, service);
+
+    expect(await screen.findByText(t("logout.title"))).toBeInTheDocument();
+    expect(backend.revoked).toEqual([]);
+    expect(replace).not.toHaveBeenCalled();
+    expect(await service.getSession()).not.toBeNull();
+  });
+
+  it("logout: na confirmação, só este dispositivo revoga a sessão local", async () => {
+    backend.addUser(ANA);
+    const service = await supabaseService();
+    await service.signInWithPassword(ANA.email, ANA.password);
+
+    const { user, replace } = renderPortal(`/logout?scope=global&returnTo=${encodeURIComponent(APP)}`, service);
+    await user.click(await screen.findByRole("button", { name: t("logout.thisDevice") }));
+
+    await waitFor(() => expect(replace).toHaveBeenCalledWith(APP));
+    expect(backend.revoked).toEqual([{ userId: backend.user(ANA.email)!.id, scope: "local" }]);
+  });
+});
@@ -0,0 +1,4 @@
+import { setupServer } from "msw/node";
+
+// Um servidor para a suíte toda; cada teste registra os handlers que precisa com `server.use(...)`
+export const server = setupServer();
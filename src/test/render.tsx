@@ -0,0 +1,54 @@
+import { render } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { vi } from "vitest";
+import App from "@/App";
+import type { AuthService } from "@/auth/types";
+import { interpolate, type MessageKey, type MessageValues } from "@/i18n/i18n";
+import { ptBR } from "@/i18n/messages/pt-BR";
+
+/** Texto do catálogo pt-BR (o setup fixa o idioma) */
+export function t(key: MessageKey, values?: MessageValues) {
+  return interpolate(ptBR[key], values);
+}
+
+/**
+ * O jsdom não navega para fora da página: `location.replace/assign` viram spies e
+ * o resto continua lendo a URL de verdade (o history segue funcionando para o router)
+ */
+export function stubLocation() {
+  const real = window.location;
+  const replace = vi.fn<(url: string | URL) => void>();
+  const assign = vi.fn<(url: string | URL) => void>();
+  const fake = {
+    replace,
+    assign,
+    reload: vi.fn(),
+    toString: () => real.href,
+  };
+  for (const key of ["href", "origin", "protocol", "host", "hostname", "port", "pathname", "search"] as const) {
+    Object.defineProperty(fake, key, { get: () => real[key], enumerable: true });
+  }
+  // o supabase-js limpa o fragmento do link com `location.hash = ""`
+  Object.defineProperty(fake, "hash", {
+    get: () => real.hash,
+    set: (value: string) => {
+      const hash = value.replace(/^#/, "");
+      window.history.replaceState(window.history.state, "", `${real.pathname}${real.search}${hash ? `#${hash}` : ""}`);
+    },
+    enumerable: true,
+  });
+  vi.stubGlobal("location", fake);
+  return { replace, assign };
+}
+
+/** App que começou o login com PKCE (sem code_challenge o portal volta sem código) */
+export const PKCE_PARAMS = `code_challenge=${"c".repeat(43)}&code_challenge_method=S256`;
+
+/** Monta o portal inteiro em `path` (com query) usando o AuthService dado */
+export function renderPortal(path: string, authService: AuthService) {
+  window.history.replaceState(null, "", path);
+  const location = stubLocation();
+  const user = userEvent.setup();
+  const view = render(<App authService={authService} />);
+  return { ...view, user, ...location };
+}
@@ -0,0 +1,29 @@
+import "@testing-library/jest-dom/vitest";
+import { cleanup } from "@testing-library/react";
+import { afterAll, afterEach, beforeAll, beforeEach } from "vitest";
+import { storeLocale } from "@/i18n/i18n";
+import { server } from "@/test/msw";
+
+/** =========================
+ * Setup comum dos testes (vite.config.ts > test.setupFiles)
+ * ========================= */
+
+// requisição sem handler é bug do teste, nunca rede de verdade
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterAll(() => server.close());
+
+// o router rola para o topo a cada navegação; o jsdom não implementa
+window.scrollTo = () => {};
+
+beforeEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+  window.history.replaceState(null, "", "/");
+  // o jsdom diz en-US: os testes leem os textos do catálogo pt-BR
+  storeLocale("pt-BR");
+});
+
+afterEach(() => {
+  cleanup();
+  server.resetHandlers();
+});
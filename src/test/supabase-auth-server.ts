@@ -0,0 +1,331 @@
+import { http, HttpResponse } from "msw";
+
+/** =========================
+ * Supabase de mentira para os testes (handlers do MSW)
+ *
+ * Responde em VITE_SUPABASE_URL (ver vite.config.ts) as rotas que o portal usa:
+ * GoTrue (/auth/v1: token, signup, recover, otp, authorize, user, logout), a
+ * edge function do handoff (issue e redeem, com as mesmas regras de origem,
+ * PKCE e uso único de supabase/functions/auth-handoff), a tabela
+ * organization_members e o rpc limit_session. O supabase-js roda de verdade por cima, então os fluxos
+ * passam pelo mesmo código da produção.
+ *
+ * O estado fica no objeto devolvido: os testes semeiam usuários, leem os
+ * e-mails "enviados" e conferem quais sessões foram revogadas.
+ * Também serve aos testes de navegador (e2e/): lá o Playwright repassa as
+ * requisições do Chromium para estes handlers.
+ * ========================= */
+
+export type MockUser = {
+  id: string;
+  email: string;
+  password: string;
+  emailConfirmed: boolean;
+  metadata: Record<string, unknown>;
+  organizations: { id: string; name: string; role: string }[];
+};
+
+export type MockEmail = {
+  kind: "signup" | "recovery" | "magiclink";
+  email: string;
+  redirectTo: string | null;
+};
+
+type MockSession = { userId: string; refreshToken: string; sessionId: string };
+
+type MockHandoffCode = {
+  userId: string;
+  origin: string;
+  codeChallenge: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+};
+
+export type SupabaseAuthServerOptions = {
+  url?: string;
+  /** Default: true (signup sem sessão até confirmar) */
+  requireEmailConfirmation?: boolean;
+};
+
+const API_VERSION = { "X-Supabase-Api-Version": "2024-01-01" };
+
+function authError(status: number, code: string, msg: string) {
+  return HttpResponse.json({ code, msg }, { status, headers: API_VERSION });
+}
+
+function base64url(value: unknown) {
+  return btoa(JSON.stringify(value)).replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+async function sha256(value: string) {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+  let bin = "";
+  for (const b of digest) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function createSupabaseAuthServer(opts: SupabaseAuthServerOptions = {}) {
+  const url = (opts.url ?? import.meta.env.VITE_SUPABASE_URL).replace(/\/$/, "");
+  const requireConfirmation = opts.requireEmailConfirmation ?? true;
+  const users = new Map<string, MockUser>();
+  const sessions = new Map<string, MockSession>();
+  const emails: MockEmail[] = [];
+  const revoked: { userId: string; scope: string }[] = [];
+  const handoffs: { origin: string; userId: string }[] = [];
+  const handoffCodes = new Map<string, MockHandoffCode>();
+  const sessionLimits: { userId: string; minutes: number }[] = [];
+  // conta que o "provedor" devolve no /authorize (sem entrada = pessoa cancelou no provedor)
+  const oauthAccounts = new Map<string, string>();
+  let seq = 0;
+  const nextId = (prefix: string) => `${prefix}-${++seq}`;
+
+  const toUser = (u: MockUser) => ({
+    id: u.id,
+    aud: "authenticated",
+    role: "authenticated",
+    email: u.email,
+    email_confirmed_at: u.emailConfirmed ? "2026-01-01T00:00:00Z" : null,
+    app_metadata: { provider: "email", providers: ["email"] },
+    user_metadata: u.metadata,
+    identities: [],
+    factors: [],
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+  });
+
+  /** Sessão no formato do GoTrue; o access_token é um JWT sem assinatura (o supabase-js só decodifica) */
+  const issueSession = (u: MockUser, method = "password") => {
+    const sessionId = nextId("session");
+    const exp = Math.floor(Date.now() / 1000) + 3600;
+    const accessToken = [
+      base64url({ alg: "HS256", typ: "JWT" }),
+      base64url({ sub: u.id, email: u.email, aal: "aal1", amr: [{ method, timestamp: exp - 3600 }], session_id: sessionId, exp, role: "authenticated" }),
+      base64url("sem-assinatura"),
+    ].join(".");
+    const refreshToken = nextId("refresh");
+    sessions.set(accessToken, { userId: u.id, refreshToken, sessionId });
+    return {
+      access_token: accessToken,
+      token_type: "bearer",
+      expires_in: 3600,
+      expires_at: exp,
+      refresh_token: refreshToken,
+      user: toUser(u),
+    };
+  };
+
+  const findUser = (email: unknown) => users.get(String(email ?? "").trim().toLowerCase());
+
+  const sessionFragment = (s: ReturnType<typeof issueSession>, type?: string) =>
+    `#access_token=${s.access_token}&expires_at=${s.expires_at}&expires_in=${s.expires_in}` +
+    `&refresh_token=${s.refresh_token}&token_type=bearer${type ? `&type=${type}` : ""}`;
+
+  const bearerUser = (request: Request) => {
+    const token = (request.headers.get("Authorization") ?? "").replace(/^Bearer /, "");
+    const session = sessions.get(token);
+    return session ? [...users.values()].find((u) => u.id === session.userId) ?? null : null;
+  };
+
+  const handlers = [
+    http.post(`${url}/auth/v1/token`, async ({ request }) => {
+      const grant = new URL(request.url).searchParams.get("grant_type");
+      const body = (await request.json()) as Record<string, unknown>;
+
+      if (grant === "password") {
+        const u = findUser(body.email);
+        if (!u || u.password !== body.password) return authError(400, "invalid_credentials", "Invalid login credentials");
+        if (!u.emailConfirmed) return authError(400, "email_not_confirmed", "Email not confirmed");
+        return HttpResponse.json(issueSession(u), { headers: API_VERSION });
+      }
+      if (grant === "refresh_token") {
+        const entry = [...sessions.entries()].find(([, s]) => s.refreshToken === body.refresh_token);
+        const u = entry && [...users.values()].find((x) => x.id === entry[1].userId);
+        if (!entry || !u) return authError(400, "refresh_token_not_found", "Invalid Refresh Token: Refresh Token Not Found");
+        sessions.delete(entry[0]);
+        return HttpResponse.json(issueSession(u), { headers: API_VERSION });
+      }
+      return authError(400, "validation_failed", `unsupported grant_type ${grant}`);
+    }),
+
+    http.post(`${url}/auth/v1/signup`, async ({ request }) => {
+      const body = (await request.json()) as Record<string, unknown>;
+      const redirectTo = new URL(request.url).searchParams.get("redirect_to");
+      if (findUser(body.email)) return authError(422, "user_already_exists", "User already registered");
+
+      const u: MockUser = {
+        id: nextId("user"),
+        email: String(body.email),
+        password: String(body.password),
+        emailConfirmed: !requireConfirmation,
+        metadata: (body.data as Record<string, unknown>) ?? {},
+        organizations: [],
+      };
+      users.set(u.email.toLowerCase(), u);
+
+      if (!requireConfirmation) return HttpResponse.json(issueSession(u), { headers: API_VERSION });
+      emails.push({ kind: "signup", email: u.email, redirectTo });
+      return HttpResponse.json(toUser(u), { headers: API_VERSION });
+    }),
+
+    http.post(`${url}/auth/v1/recover`, async ({ request }) => {
+      const body = (await request.json()) as Record<string, unknown>;
+      const redirectTo = new URL(request.url).searchParams.get("redirect_to");
+      // o GoTrue não conta se o e-mail existe
+      if (findUser(body.email)) emails.push({ kind: "recovery", email: String(body.email), redirectTo });
+      return HttpResponse.json({}, { headers: API_VERSION });
+    }),
+
+    http.post(`${url}/auth/v1/otp`, async ({ request }) => {
+      const body = (await request.json()) as Record<string, unknown>;
+      const redirectTo = new URL(request.url).searchParams.get("redirect_to");
+      if (!findUser(body.email)) return authError(422, "otp_disabled", "Signups not allowed for otp");
+      emails.push({ kind: "magiclink", email: String(body.email), redirectTo });
+      return HttpResponse.json({}, { headers: API_VERSION });
+    }),
+
+    // Ida ao provedor: volta direto para o redirect_to com a sessão no fragmento (fluxo implícito)
+    http.get(`${url}/auth/v1/authorize`, ({ request }) => {
+      const params = new URL(request.url).searchParams;
+      const target = new URL(params.get("redirect_to") ?? "");
+      const u = findUser(oauthAccounts.get(params.get("provider") ?? ""));
+      target.hash = u
+        ? sessionFragment(issueSession(u, "oauth"))
+        : "#error=access_denied&error_code=access_denied&error_description=User+cancelled";
+      return new HttpResponse(null, { status: 302, headers: { Location: target.toString() } });
+    }),
+
+    http.get(`${url}/auth/v1/user`, ({ request }) => {
+      const u = bearerUser(request);
+      if (!u) return authError(403, "bad_jwt", "invalid JWT: unable to parse or verify signature");
+      return HttpResponse.json(toUser(u), { headers: API_VERSION });
+    }),
+
+    http.put(`${url}/auth/v1/user`, async ({ request }) => {
+      const u = bearerUser(request);
+      if (!u) return authError(403, "bad_jwt", "invalid JWT: unable to parse or verify signature");
+      const body = (await request.json()) as Record<string, unknown>;
+      if (typeof body.password === "string") {
+        if (body.password === u.password) {
+          return authError(422, "same_password", "New password should be different from the old password.");
+        }
+        u.password = body.password;
+      }
+      if (body.data) u.metadata = { ...u.metadata, ...(body.data as Record<string, unknown>) };
+      return HttpResponse.json(toUser(u), { headers: API_VERSION });
+    }),
+
+    http.post(`${url}/auth/v1/logout`, ({ request }) => {
+      const u = bearerUser(request);
+      const scope = new URL(request.url).searchParams.get("scope") ?? "global";
+      if (!u) return new HttpResponse(null, { status: 204 });
+      for (const [token, s] of [...sessions.entries()]) {
+        if (s.userId === u.id) sessions.delete(token);
+      }
+      revoked.push({ userId: u.id, scope });
+      return new HttpResponse(null, { status: 204 });
+    }),
+
+    http.post(`${url}/functions/v1/auth-handoff`, async ({ request }) => {
+      const body = (await request.json()) as Record<string, unknown>;
+
+      if (body.action === "redeem") {
+        const entry = handoffCodes.get(String(body.code ?? ""));
+        // uso único: some no primeiro resgate, mesmo se a origem ou o verifier não conferirem
+        handoffCodes.delete(String(body.code ?? ""));
+        if (!entry) return HttpResponse.json({ error: "código inválido ou expirado" }, { status: 400 });
+        if (entry.origin !== request.headers.get("Origin")) {
+          return HttpResponse.json({ error: "código emitido para outra origem" }, { status: 400 });
+        }
+        if (!body.code_verifier || (await sha256(String(body.code_verifier))) !== entry.codeChallenge) {
+          return HttpResponse.json({ error: "code_verifier inválido" }, { status: 400 });
+        }
+        return HttpResponse.json({
+          access_token: entry.accessToken,
+          refresh_token: entry.refreshToken,
+          token_type: "bearer",
+          expires_in: entry.expiresIn,
+        });
+      }
+
+      const u = bearerUser(request);
+      if (!u) return HttpResponse.json({ error: "session_not_found" }, { status: 401 });
+      if (!body.code_challenge || body.code_challenge_method !== "S256") {
+        return HttpResponse.json({ error: "code_challenge ausente ou inválido" }, { status: 400 });
+      }
+      const code = nextId("handoff");
+      handoffs.push({ origin: String(body.origin), userId: u.id });
+      handoffCodes.set(code, {
+        userId: u.id,
+        origin: String(body.origin),
+        codeChallenge: String(body.code_challenge),
+        accessToken: (request.headers.get("Authorization") ?? "").replace(/^Bearer /, ""),
+        refreshToken: String(body.refresh_token ?? ""),
+        expiresIn: Number(body.expires_in) || 3600,
+      });
+      return HttpResponse.json({ code });
+    }),
+
+    http.post(`${url}/rest/v1/rpc/limit_session`, async ({ request }) => {
+      const u = bearerUser(request);
+      if (!u) return HttpResponse.json({ code: "P0001", message: "session_not_found" }, { status: 400 });
+      const { p_minutes } = (await request.json()) as { p_minutes: number };
+      sessionLimits.push({ userId: u.id, minutes: p_minutes });
+      return HttpResponse.json(new Date(Date.now() + p_minutes * 60_000).toISOString());
+    }),
+
+    http.get(`${url}/rest/v1/organization_members`, ({ request }) => {
+      const u = bearerUser(request);
+      return HttpResponse.json(
+        (u?.organizations ?? []).map((o) => ({
+          role: o.role,
+          organization: { id: o.id, name: o.name, logo_url: null },
+        }))
+      );
+    }),
+  ];
+
+  return {
+    handlers,
+    emails: emails as readonly MockEmail[],
+    revoked: revoked as readonly { userId: string; scope: string }[],
+    handoffs: handoffs as readonly { origin: string; userId: string }[],
+    sessionLimits: sessionLimits as readonly { userId: string; minutes: number }[],
+
+    addUser(u: { email: string; password: string; emailConfirmed?: boolean; metadata?: Record<string, unknown>; organizations?: MockUser["organizations"] }) {
+      const user: MockUser = {
+        id: nextId("user"),
+        email: u.email,
+        password: u.password,
+        emailConfirmed: u.emailConfirmed ?? true,
+        metadata: u.metadata ?? {},
+        organizations: u.organizations ?? [],
+      };
+      users.set(u.email.toLowerCase(), user);
+      return user;
+    },
+
+    user(email: string) {
+      return findUser(email);
+    },
+
+    /** Conta que o provedor OAuth "devolve" (precisa existir: addUser antes) */
+    oauthAccount(provider: string, email: string) {
+      oauthAccounts.set(provider, email.toLowerCase());
+    },
+
+    /** Fragmento do link de recuperação, como o GoTrue monta depois do /verify */
+    recoveryHash(email: string) {
+      const u = findUser(email);
+      if (!u) throw new Error(`usuário ${email} não existe no mock`);
+      return sessionFragment(issueSession(u), "recovery");
+    },
+  };
+}
+
+export type SupabaseAuthServer = ReturnType<typeof createSupabaseAuthServer>;
+
+/** Só a edge function do handoff, para os testes que usam o AuthService em memória */
+export function handoffFunctionHandler(code = "handoff-code", url: string = import.meta.env.VITE_SUPABASE_URL) {
+  return http.post(`${url.replace(/\/$/, "")}/functions/v1/auth-handoff`, () => HttpResponse.json({ code }));
+}
@@ -1 +1,47 @@
-/// <reference types="vite/client" />
\ No newline at end of file
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  /** "true" libera o handoff antigo (#access_token=...) para apps que pedirem ?handoff=hash */
+  readonly VITE_AUTH_LEGACY_HASH_HANDOFF?: string;
+  /** Ambiente usado para escolher a allowlist em src/config/return-to.json (default: mode do Vite) */
+  readonly VITE_APP_ENV?: string;
+  /** JSON de um ReturnToEnvironmentConfig; sobrescreve o arquivo de config */
+  readonly VITE_RETURN_TO_ALLOWLIST?: string;
+  /** URLs de front-channel logout dos apps (vírgula); sobrescreve src/config/front-channel-logout.json */
+  readonly VITE_FRONT_CHANNEL_LOGOUT_URLS?: string;
+  /** JSON de um BrandingConfig (src/lib/branding.ts); sobrescreve src/config/branding.json */
+  readonly VITE_BRANDING?: string;
+  /** JSON de uma lista de provedores OAuth; sobrescreve src/config/oauth-providers.json */
+  readonly VITE_OAUTH_PROVIDERS?: string;
+  /** JSON parcial de PasswordPolicy (src/lib/password-policy.ts) */
+  readonly VITE_PASSWORD_POLICY?: string;
+  /** API de senhas vazadas: vazio = HIBP, "off", "memory" ou URL com {prefix} */
+  readonly VITE_PWNED_RANGE_URL?: string;
+  /** Papéis (app_metadata) que precisam de MFA antes do redirect; "*" = todos */
+  readonly VITE_MFA_REQUIRED_ROLES?: string;
+  /** CAPTCHA: "hcaptcha", "turnstile", "test" ou vazio (desligado) */
+  readonly VITE_CAPTCHA_PROVIDER?: string;
+  readonly VITE_CAPTCHA_SITE_KEY?: string;
+  /** Tentativas antes de exigir CAPTCHA (default 3; 0 = sempre) */
+  readonly VITE_CAPTCHA_AFTER_ATTEMPTS?: string;
+  /** Destino do log de auditoria: vazio, "off", "console", "supabase" ou URL do coletor */
+  readonly VITE_AUDIT_SINK?: string;
+  /** "Manter conectado": dias até pedir login de novo (default 30) */
+  readonly VITE_SESSION_REMEMBER_DAYS?: string;
+  /** Computador compartilhado: duração máxima da sessão em minutos (default 60) */
+  readonly VITE_SHARED_SESSION_MINUTES?: string;
+  /** Validade do "confiar neste dispositivo" (pula o desafio de MFA); default 30, "0" desliga */
+  readonly VITE_TRUSTED_DEVICE_DAYS?: string;
+  /** Boot: timeout (ms) de cada consulta da sessão (default 1500) */
+  readonly VITE_BOOT_TIMEOUT_MS?: string;
+  /** Boot: novas tentativas quando o auth não responde (default 2) */
+  readonly VITE_BOOT_RETRIES?: string;
+  /** Boot: espera (ms) antes da primeira nova tentativa; dobra a cada uma (default 500) */
+  readonly VITE_BOOT_RETRY_DELAY_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,205 @@
+// Edge function (Deno) que emite e resgata os códigos de handoff do portal.
+//
+//   POST { action: "issue", origin, refresh_token, expires_in, code_challenge, code_challenge_method: "S256" }
+//        Authorization: Bearer <access_token do usuário>           -> { code }
+//   POST { action: "redeem", code, code_verifier }  (Origin = app)  -> { access_token, refresh_token, ... }
+//
+// PKCE é obrigatório: sem ele quem tivesse só o link com o código ficaria com a sessão.
+// Os tokens ficam cifrados com uma chave derivada do próprio código (o banco só tem o hash dele)
+// e a linha é apagada no resgate; as vencidas saem a cada emissão e pela purge agendada da migration.
+//
+// Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY,
+//      HANDOFF_ALLOWED_HOSTS — lista separada por vírgula, mesmo formato de host do src/config/return-to.json
+//      (default "flowodonto.com.br,*.flowodonto.com.br")
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const CODE_TTL_SECONDS = 60;
+const allowedHosts = (Deno.env.get("HANDOFF_ALLOWED_HOSTS") ?? "flowodonto.com.br,*.flowodonto.com.br")
+  .split(",")
+  .map((h) => h.trim().toLowerCase())
+  .filter(Boolean);
+
+const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+// Mesma semântica do portal: "*.x" = qualquer subdomínio de x; "*" no meio = um label
+function hostMatches(pattern: string, host: string) {
+  if (!pattern.includes("*")) return host === pattern;
+  let source = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+  if (source.startsWith("*\\.")) source = "(?:[a-z0-9-]+\\.)+" + source.slice(3);
+  source = source.replace(/\*/g, "[a-z0-9-]+");
+  return new RegExp(`^${source}$`).test(host);
+}
+
+function originAllowed(origin: string | null) {
+  if (!origin) return false;
+  try {
+    const host = new URL(origin).hostname.toLowerCase();
+    return allowedHosts.some((pattern) => hostMatches(pattern, host));
+  } catch {
+    return false;
+  }
+}
+
+function corsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin");
+  return {
+    "Access-Control-Allow-Origin": originAllowed(origin) ? origin! : "null",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    Vary: "Origin",
+  };
+}
+
+function json(req: Request, status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders(req), "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+}
+
+function base64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const bin = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+async function sha256(value: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return base64Url(new Uint8Array(digest));
+}
+
+type HandoffTokens = { access_token: string; refresh_token: string; expires_in: number };
+
+// 256 bits aleatórios no código: sha256 com prefixo próprio basta como chave (e não é o code_hash)
+async function tokenKey(code: string) {
+  const raw = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`auth-handoff:tokens:${code}`));
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+async function sealTokens(code: string, tokens: HandoffTokens) {
+  const iv = new Uint8Array(12);
+  crypto.getRandomValues(iv);
+  const plain = new TextEncoder().encode(JSON.stringify(tokens));
+  const sealed = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await tokenKey(code), plain);
+  return { tokens_iv: base64Url(iv), tokens_ciphertext: base64Url(new Uint8Array(sealed)) };
+}
+
+async function openTokens(code: string, iv: string, ciphertext: string): Promise<HandoffTokens> {
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64Url(iv) },
+    await tokenKey(code),
+    fromBase64Url(ciphertext)
+  );
+  return JSON.parse(new TextDecoder().decode(plain));
+}
+
+// session_id do JWT (já conferido pelo getUser): chave do prazo em session_limits
+function sessionIdOf(jwt: string) {
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(jwt.split(".")[1] ?? "")));
+    return typeof payload.session_id === "string" ? payload.session_id : null;
+  } catch {
+    return null;
+  }
+}
+
+// Prazo do "manter conectado" / computador compartilhado (migration *_session_limits.sql):
+// a purge agendada revoga a sessão, mas entre uma rodada e outra o código já não sai
+async function sessionLimitPassed(jwt: string) {
+  const sessionId = sessionIdOf(jwt);
+  if (!sessionId) return false;
+  const { data } = await admin.from("session_limits").select("not_after").eq("session_id", sessionId).maybeSingle();
+  return !!data && new Date(data.not_after).getTime() <= Date.now();
+}
+
+// Não espera a purge agendada: cada emissão já leva as vencidas
+async function purgeExpired() {
+  await admin.from("auth_handoff_codes").delete().lte("expires_at", new Date().toISOString());
+}
+
+async function issue(req: Request, body: Record<string, unknown>) {
+  const jwt = (req.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+  const { data, error } = await admin.auth.getUser(jwt);
+  if (error || !data?.user) return json(req, 401, { error: "sessão inválida" });
+  if (await sessionLimitPassed(jwt)) return json(req, 401, { error: "sessão expirada" });
+
+  const origin = String(body.origin ?? "");
+  if (!originAllowed(origin) || new URL(origin).origin !== origin) return json(req, 400, { error: "origem não permitida" });
+
+  const challenge = typeof body.code_challenge === "string" ? body.code_challenge : "";
+  if (!/^[A-Za-z0-9_-]{43,128}$/.test(challenge)) return json(req, 400, { error: "code_challenge ausente ou inválido" });
+  if (body.code_challenge_method !== "S256") return json(req, 400, { error: "code_challenge_method inválido" });
+
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  const code = base64Url(bytes);
+
+  await purgeExpired();
+  const { error: insertError } = await admin.from("auth_handoff_codes").insert({
+    code_hash: await sha256(code),
+    user_id: data.user.id,
+    origin,
+    code_challenge: challenge,
+    ...(await sealTokens(code, {
+      access_token: jwt,
+      refresh_token: String(body.refresh_token ?? ""),
+      expires_in: Number(body.expires_in) || 3600,
+    })),
+    expires_at: new Date(Date.now() + CODE_TTL_SECONDS * 1000).toISOString(),
+  });
+  if (insertError) return json(req, 500, { error: "falha ao emitir código" });
+
+  return json(req, 200, { code });
+}
+
+async function redeem(req: Request, body: Record<string, unknown>) {
+  const origin = req.headers.get("Origin");
+  const code = String(body.code ?? "");
+  if (!code) return json(req, 400, { error: "code ausente" });
+
+  // Apaga na leitura, de forma atômica: só o primeiro resgate recebe a linha e os tokens
+  // não ficam guardados depois dele (nem em caso de falha abaixo, nem se já tinha vencido)
+  const { data: row } = await admin
+    .from("auth_handoff_codes")
+    .delete()
+    .eq("code_hash", await sha256(code))
+    .select()
+    .maybeSingle();
+
+  if (!row || new Date(row.expires_at).getTime() <= Date.now()) {
+    return json(req, 400, { error: "código inválido ou expirado" });
+  }
+
+  if (row.origin !== origin) return json(req, 400, { error: "código emitido para outra origem" });
+  const verifier = typeof body.code_verifier === "string" ? body.code_verifier : "";
+  if (!verifier || !row.code_challenge || (await sha256(verifier)) !== row.code_challenge) {
+    return json(req, 400, { error: "code_verifier inválido" });
+  }
+
+  const tokens = await openTokens(code, row.tokens_iv, row.tokens_ciphertext).catch(() => null);
+  if (!tokens) return json(req, 400, { error: "código inválido ou expirado" });
+
+  return json(req, 200, {
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    token_type: "bearer",
+    expires_in: tokens.expires_in,
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders(req) });
+  if (req.method !== "POST") return json(req, 405, { error: "method not allowed" });
+
+  const body = await req.json().catch(() => ({}));
+  if (body?.action === "issue") return issue(req, body);
+  if (body?.action === "redeem") return redeem(req, body);
+  return json(req, 400, { error: "action inválida" });
+});
@@ -0,0 +1,170 @@
+// Edge function (Deno) dos códigos de recuperação do MFA (TOTP).
+//
+//   POST { action: "generate" }        Authorization: Bearer <access_token aal2> -> { codes: string[] }
+//   POST { action: "redeem", code }    Authorization: Bearer <access_token aal1> -> { ok: true }
+//
+// "generate" substitui os códigos anteriores. "redeem" consome um código e remove os fatores
+// TOTP da conta; o portal renova a sessão e, se a política exigir, pede um novo cadastro.
+// "redeem" aceita REDEEM_MAX_ATTEMPTS tentativas por usuário a cada REDEEM_WINDOW_MINUTES;
+// passou disso, over_request_rate_limit até a janela andar (quem tem a senha não testa códigos à vontade).
+//
+// Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY,
+//      PORTAL_ORIGINS — origens do portal, separadas por vírgula (default "https://auth.flowodonto.com.br")
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const CODE_COUNT = 10;
+// sem 0/o/1/l/i para não confundir na hora de digitar
+const ALPHABET = "23456789abcdefghjkmnpqrstuvwxyz";
+// maior múltiplo do alfabeto que cabe num byte: acima disso o byte é descartado (sem viés no módulo)
+const UNBIASED_LIMIT = 256 - (256 % ALPHABET.length);
+const REDEEM_MAX_ATTEMPTS = 5;
+const REDEEM_WINDOW_MINUTES = 15;
+
+const portalOrigins = (Deno.env.get("PORTAL_ORIGINS") ?? "https://auth.flowodonto.com.br")
+  .split(",")
+  .map((o) => o.trim())
+  .filter(Boolean);
+
+const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+function corsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get("Origin");
+  return {
+    "Access-Control-Allow-Origin": origin && portalOrigins.includes(origin) ? origin : "null",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    Vary: "Origin",
+  };
+}
+
+// Erros voltam como { error: "<código>" }: o portal traduz pelo catálogo de erros
+function json(req: Request, status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders(req), "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+}
+
+function base64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// O hash inclui o usuário: o mesmo código em duas contas gera linhas diferentes
+async function hashCode(userId: string, code: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${userId}:${code}`));
+  return base64Url(new Uint8Array(digest));
+}
+
+function normalizeCode(raw: unknown) {
+  return String(raw ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function randomCode() {
+  let chars = "";
+  const bytes = new Uint8Array(16);
+  while (chars.length < 10) {
+    crypto.getRandomValues(bytes);
+    for (const b of bytes) {
+      if (b < UNBIASED_LIMIT && chars.length < 10) chars += ALPHABET[b % ALPHABET.length];
+    }
+  }
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+// Anota a tentativa ANTES de conferir o código: rajadas em paralelo também contam
+async function recordAttempt(userId: string) {
+  const since = new Date(Date.now() - REDEEM_WINDOW_MINUTES * 60_000).toISOString();
+  await admin.from("mfa_recovery_attempts").delete().eq("user_id", userId).lt("created_at", since);
+  const { error } = await admin.from("mfa_recovery_attempts").insert({ user_id: userId });
+  if (error) return null;
+
+  const { count } = await admin
+    .from("mfa_recovery_attempts")
+    .select("*", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .gte("created_at", since);
+  return count ?? null;
+}
+
+// O getUser valida a assinatura; o aal vem das claims do mesmo JWT
+function jwtAal(jwt: string) {
+  try {
+    const payload = JSON.parse(atob(jwt.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof payload.aal === "string" ? payload.aal : null;
+  } catch {
+    return null;
+  }
+}
+
+async function generate(req: Request, userId: string, jwt: string) {
+  if (jwtAal(jwt) !== "aal2") return json(req, 403, { error: "insufficient_aal" });
+
+  const codes = Array.from({ length: CODE_COUNT }, randomCode);
+  const rows = await Promise.all(
+    codes.map(async (c) => ({ user_id: userId, code_hash: await hashCode(userId, normalizeCode(c)) }))
+  );
+
+  const { error: deleteError } = await admin.from("mfa_recovery_codes").delete().eq("user_id", userId);
+  if (deleteError) return json(req, 500, { error: "unknown" });
+
+  const { error: insertError } = await admin.from("mfa_recovery_codes").insert(rows);
+  if (insertError) return json(req, 500, { error: "unknown" });
+
+  return json(req, 200, { codes });
+}
+
+async function redeem(req: Request, userId: string, body: Record<string, unknown>) {
+  const code = normalizeCode(body.code);
+  if (!code) return json(req, 400, { error: "invalid_recovery_code" });
+
+  const attempts = await recordAttempt(userId);
+  if (attempts === null) return json(req, 500, { error: "unknown" });
+  if (attempts > REDEEM_MAX_ATTEMPTS) return json(req, 429, { error: "over_request_rate_limit" });
+
+  // Marca como usado de forma atômica: o mesmo código não serve duas vezes
+  const { data: row } = await admin
+    .from("mfa_recovery_codes")
+    .update({ used_at: new Date().toISOString() })
+    .eq("code_hash", await hashCode(userId, code))
+    .eq("user_id", userId)
+    .is("used_at", null)
+    .select()
+    .maybeSingle();
+
+  if (!row) return json(req, 400, { error: "invalid_recovery_code" });
+
+  const { data: factors, error: listError } = await admin.auth.admin.mfa.listFactors({ userId });
+  if (listError) return json(req, 500, { error: "unknown" });
+
+  for (const f of factors.factors) {
+    if (f.factor_type !== "totp") continue;
+    const { error } = await admin.auth.admin.mfa.deleteFactor({ userId, id: f.id });
+    if (error) return json(req, 500, { error: "unknown" });
+  }
+
+  // Sem TOTP, os códigos que sobraram não protegem mais nada
+  await admin.from("mfa_recovery_codes").delete().eq("user_id", userId);
+  await admin.from("mfa_recovery_attempts").delete().eq("user_id", userId);
+
+  return json(req, 200, { ok: true });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders(req) });
+  if (req.method !== "POST") return json(req, 405, { error: "method not allowed" });
+
+  const jwt = (req.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+  const { data, error } = await admin.auth.getUser(jwt);
+  if (error || !data?.user) return json(req, 401, { error: "session_not_found" });
+
+  const body = await req.json().catch(() => ({}));
+  if (body?.action === "generate") return generate(req, data.user.id, jwt);
+  if (body?.action === "redeem") return redeem(req, data.user.id, body);
+  return json(req, 400, { error: "unknown" });
+});
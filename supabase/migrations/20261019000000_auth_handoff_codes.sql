@@ -0,0 +1,42 @@
+-- Códigos de uso único para entregar a sessão do portal aos apps (substitui o #access_token na URL).
+-- O código em si nunca fica aqui: só o sha256 dele. Os tokens vão cifrados (AES-GCM) com uma chave
+-- derivada do código, então a tabela sozinha não entrega sessão nenhuma (ver supabase/functions/auth-handoff)
+create table if not exists public.auth_handoff_codes (
+  code_hash text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  origin text not null,
+  code_challenge text not null,
+  tokens_iv text not null,
+  tokens_ciphertext text not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists auth_handoff_codes_expires_at_idx on public.auth_handoff_codes (expires_at);
+
+-- Só a service role (edge function) mexe nessa tabela
+alter table public.auth_handoff_codes enable row level security;
+
+-- O resgate apaga a linha; as que venceram sem resgate saem aqui (e a cada emissão, pela edge function)
+create or replace function public.purge_auth_handoff_codes()
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with gone as (
+    delete from public.auth_handoff_codes where expires_at <= now() returning 1
+  )
+  select count(*)::integer from gone;
+$$;
+
+revoke all on function public.purge_auth_handoff_codes() from public;
+
+-- Agenda a cada 5 minutos quando o pg_cron está habilitado no projeto
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('purge-auth-handoff-codes', '*/5 * * * *', 'select public.purge_auth_handoff_codes()');
+  end if;
+end;
+$$;
@@ -0,0 +1,25 @@
+-- Códigos de recuperação do MFA (TOTP). Guardamos só o hash; o texto aparece uma vez na tela de cadastro
+create table if not exists public.mfa_recovery_codes (
+  code_hash text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  used_at timestamptz
+);
+
+create index if not exists mfa_recovery_codes_user_id_idx on public.mfa_recovery_codes (user_id);
+
+-- Só a service role (edge function) mexe nessa tabela
+alter table public.mfa_recovery_codes enable row level security;
+
+-- Tentativas de resgate (sucesso ou não) na janela do limite da edge function; o resgate que dá
+-- certo limpa as do usuário e cada tentativa nova apaga as que já saíram da janela
+create table if not exists public.mfa_recovery_attempts (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists mfa_recovery_attempts_user_id_created_at_idx
+  on public.mfa_recovery_attempts (user_id, created_at);
+
+alter table public.mfa_recovery_attempts enable row level security;
@@ -0,0 +1,29 @@
+-- Log de auditoria do portal (src/lib/audit-log.ts). O navegador só insere; leitura é da service role
+create table if not exists public.auth_audit_events (
+  id uuid primary key,
+  type text not null check (char_length(type) <= 64),
+  occurred_at timestamptz not null,
+  received_at timestamptz not null default now(),
+  outcome text not null check (outcome in ('success', 'failure', 'blocked')),
+  -- reportado pelo navegador (pode vir de fila offline de outra sessão); quem enviou de fato fica em reported_by
+  user_id uuid,
+  reported_by uuid default auth.uid(),
+  email_hash text check (email_hash is null or email_hash ~ '^[0-9a-f]{64}$'),
+  return_to_host text check (char_length(return_to_host) <= 255),
+  user_agent text check (char_length(user_agent) <= 1024),
+  error_code text check (char_length(error_code) <= 128),
+  detail jsonb not null default '{}'::jsonb
+);
+
+create index if not exists auth_audit_events_occurred_at_idx on public.auth_audit_events (occurred_at desc);
+create index if not exists auth_audit_events_user_id_idx on public.auth_audit_events (user_id);
+create index if not exists auth_audit_events_email_hash_idx on public.auth_audit_events (email_hash);
+
+alter table public.auth_audit_events enable row level security;
+
+-- eventos de falha de login chegam sem sessão: anon também insere
+create policy "portal insere eventos" on public.auth_audit_events
+  for insert to anon, authenticated
+  with check (reported_by is not distinct from auth.uid());
+
+grant insert on public.auth_audit_events to anon, authenticated;
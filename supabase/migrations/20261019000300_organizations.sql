@@ -0,0 +1,33 @@
+-- Clínicas (tenants) e quem é membro de cada uma. O portal só lê; quem administra é o app / service role
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  logo_url text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.organization_members (
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member',
+  created_at timestamptz not null default now(),
+  primary key (organization_id, user_id)
+);
+
+create index if not exists organization_members_user_id_idx on public.organization_members (user_id);
+
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+
+create policy "membro lê as próprias associações" on public.organization_members
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "membro lê as próprias clínicas" on public.organizations
+  for select to authenticated
+  using (exists (
+    select 1 from public.organization_members m
+    where m.organization_id = organizations.id and m.user_id = auth.uid()
+  ));
+
+grant select on public.organizations, public.organization_members to authenticated;
@@ -0,0 +1,120 @@
+-- Convites para entrar numa clínica. O app (admin da clínica) cria a linha e manda o link
+-- /convite?token=<token>; aqui fica só o sha256 do token
+create table if not exists public.organization_invitations (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  email text not null,
+  role text not null default 'member',
+  token_hash text not null unique,
+  invited_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '7 days',
+  accepted_at timestamptz,
+  accepted_by uuid references auth.users (id) on delete set null
+);
+
+create index if not exists organization_invitations_organization_id_idx
+  on public.organization_invitations (organization_id);
+
+-- Sem policies: o portal só chega na tabela pelas funções abaixo
+alter table public.organization_invitations enable row level security;
+
+-- Dados do convite para a tela (sem sessão: quem tem o token pode ver)
+create or replace function public.invitation_by_token(p_token text)
+returns table (
+  organization_id uuid,
+  organization_name text,
+  email text,
+  role text,
+  expires_at timestamptz,
+  status text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    i.organization_id,
+    o.name,
+    i.email,
+    i.role,
+    i.expires_at,
+    case
+      when i.accepted_at is not null then 'accepted'
+      when i.expires_at < now() then 'expired'
+      else 'pending'
+    end
+  from public.organization_invitations i
+  join public.organizations o on o.id = i.organization_id
+  where i.token_hash = encode(sha256(convert_to(p_token, 'UTF8')), 'hex');
+$$;
+
+-- Aceita com o usuário da sessão. Os erros saem como código na mensagem (ver rpcError no portal)
+create or replace function public.accept_invitation(p_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inv public.organization_invitations%rowtype;
+  uid uuid := auth.uid();
+  user_email text;
+  confirmed timestamptz;
+begin
+  if uid is null then
+    raise exception 'session_not_found';
+  end if;
+
+  select * into inv
+  from public.organization_invitations
+  where token_hash = encode(sha256(convert_to(p_token, 'UTF8')), 'hex')
+  for update;
+
+  if not found then
+    raise exception 'invitation_not_found';
+  end if;
+  if inv.accepted_at is not null then
+    -- duplo clique / nova aba: mesmo usuário, mesma resposta
+    if inv.accepted_by = uid then
+      return inv.organization_id;
+    end if;
+    raise exception 'invitation_already_accepted';
+  end if;
+  if inv.expires_at < now() then
+    raise exception 'invitation_expired';
+  end if;
+
+  select u.email, u.email_confirmed_at into user_email, confirmed from auth.users u where u.id = uid;
+  if confirmed is null then
+    raise exception 'email_not_confirmed';
+  end if;
+  if lower(user_email) <> lower(inv.email) then
+    raise exception 'invitation_email_mismatch';
+  end if;
+
+  -- convite nunca mexe no papel de quem já é membro (nem rebaixa o dono): isso é com o administrador
+  if exists (
+    select 1 from public.organization_members m
+    where m.organization_id = inv.organization_id and m.user_id = uid
+  ) then
+    raise exception 'invitation_already_member';
+  end if;
+
+  insert into public.organization_members (organization_id, user_id, role)
+  values (inv.organization_id, uid, inv.role)
+  on conflict (organization_id, user_id) do nothing;
+
+  update public.organization_invitations
+  set accepted_at = now(), accepted_by = uid
+  where id = inv.id;
+
+  return inv.organization_id;
+end;
+$$;
+
+revoke all on function public.invitation_by_token(text) from public;
+revoke all on function public.accept_invitation(text) from public;
+grant execute on function public.invitation_by_token(text) to anon, authenticated;
+grant execute on function public.accept_invitation(text) to authenticated;
@@ -0,0 +1,85 @@
+-- Dispositivos confiáveis: pulam o desafio de MFA até expirar. O navegador guarda o token;
+-- aqui fica só o sha256 (ver src/lib/device-trust.ts)
+create table if not exists public.trusted_devices (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  token_hash text not null,
+  label text not null default '',
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  unique (user_id, token_hash)
+);
+
+create index if not exists trusted_devices_user_id_idx on public.trusted_devices (user_id);
+
+alter table public.trusted_devices enable row level security;
+
+-- O usuário vê e revoga os próprios; criar e conferir só pelas funções abaixo
+create policy "usuário lê os próprios dispositivos" on public.trusted_devices
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "usuário revoga os próprios dispositivos" on public.trusted_devices
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+grant select, delete on public.trusted_devices to authenticated;
+
+-- Só com sessão aal2 (acabou de passar pelo TOTP). Renova a validade se o token já existe
+create or replace function public.trust_device(p_token text, p_label text, p_days integer)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  expires timestamptz := now() + make_interval(days => least(greatest(p_days, 1), 90));
+begin
+  if uid is null then
+    raise exception 'session_not_found';
+  end if;
+  if coalesce(auth.jwt() ->> 'aal', '') <> 'aal2' then
+    raise exception 'insufficient_aal';
+  end if;
+
+  insert into public.trusted_devices (user_id, token_hash, label, expires_at)
+  values (uid, encode(sha256(convert_to(p_token, 'UTF8')), 'hex'), left(coalesce(p_label, ''), 120), expires)
+  on conflict (user_id, token_hash) do update
+    set label = excluded.label, expires_at = excluded.expires_at, last_seen_at = now();
+
+  return expires;
+end;
+$$;
+
+-- Confere o token para o usuário da sessão (aal1 logo depois da senha) e marca o uso
+create or replace function public.is_trusted_device(p_token text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  found_id uuid;
+begin
+  if uid is null then
+    return false;
+  end if;
+
+  update public.trusted_devices
+  set last_seen_at = now()
+  where user_id = uid
+    and token_hash = encode(sha256(convert_to(p_token, 'UTF8')), 'hex')
+    and expires_at > now()
+  returning id into found_id;
+
+  return found_id is not null;
+end;
+$$;
+
+revoke all on function public.trust_device(text, text, integer) from public;
+revoke all on function public.is_trusted_device(text) from public;
+grant execute on function public.trust_device(text, text, integer) to authenticated;
+grant execute on function public.is_trusted_device(text) to authenticated;
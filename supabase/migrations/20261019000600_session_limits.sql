@@ -0,0 +1,79 @@
+-- Prazo do "manter conectado" / computador compartilhado no servidor (ver src/lib/session-persistence.ts).
+-- O portal grava o prazo logo depois do login; vencido, a purge apaga a sessão do GoTrue, o que
+-- revoga os refresh tokens dela (inclusive os entregues aos apps pelo handoff). O access token já
+-- emitido vale até o próprio exp. O auth-handoff também confere aqui antes de emitir código.
+create table if not exists public.session_limits (
+  session_id uuid primary key references auth.sessions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  not_after timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists session_limits_not_after_idx on public.session_limits (not_after);
+
+-- Só as funções abaixo e a service role mexem nessa tabela
+alter table public.session_limits enable row level security;
+
+-- Conta do created_at da sessão (não do relógio do navegador). A primeira chamada vale:
+-- depois disso o prazo nunca estica, nem com outro p_minutes
+create or replace function public.limit_session(p_minutes integer)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  sid uuid := nullif(auth.jwt() ->> 'session_id', '')::uuid;
+  started timestamptz;
+  result timestamptz;
+begin
+  if uid is null or sid is null then
+    raise exception 'session_not_found';
+  end if;
+  if p_minutes is null or p_minutes < 1 then
+    raise exception 'invalid_session_limit';
+  end if;
+
+  select s.created_at into started from auth.sessions s where s.id = sid and s.user_id = uid;
+  if started is null then
+    raise exception 'session_not_found';
+  end if;
+
+  insert into public.session_limits (session_id, user_id, not_after)
+  values (sid, uid, started + make_interval(mins => least(p_minutes, 90 * 24 * 60)))
+  on conflict (session_id) do nothing;
+
+  select l.not_after into result from public.session_limits l where l.session_id = sid;
+  return result;
+end;
+$$;
+
+-- Apaga as sessões vencidas (os refresh_tokens e a linha daqui vão junto, em cascata)
+create or replace function public.purge_expired_sessions()
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with gone as (
+    delete from auth.sessions s
+    using public.session_limits l
+    where l.session_id = s.id and l.not_after <= now()
+    returning 1
+  )
+  select count(*)::integer from gone;
+$$;
+
+revoke all on function public.limit_session(integer) from public;
+revoke all on function public.purge_expired_sessions() from public;
+grant execute on function public.limit_session(integer) to authenticated;
+
+-- A cada minuto quando o pg_cron está habilitado no projeto
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('purge-expired-sessions', '* * * * *', 'select public.purge_expired_sessions()');
+  end if;
+end;
+$$;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
@@ -9,4 +10,24 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  server: {
+    // auth.flowodonto.com.br apontado para a máquina (e2e/hosts.ts, /etc/hosts)
+    allowedHosts: [".flowodonto.com.br"],
+  },
+  test: {
+    // e2e/ é do Playwright
+    include: ["src/**/*.test.{ts,tsx}"],
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+    // o Supabase de verdade nunca é chamado: o MSW (src/test/supabase-auth-server.ts) responde nesse host
+    env: {
+      VITE_SUPABASE_URL: "http://supabase.test",
+      VITE_SUPABASE_ANON_KEY: "test-anon-key",
+      VITE_APP_ENV: "development",
+      VITE_AUDIT_SINK: "off",
+      VITE_PWNED_RANGE_URL: "memory",
+      VITE_MFA_REQUIRED_ROLES: "admin",
+    },
+    unstubGlobals: true,
+  },
 });